@@ -10,6 +10,13 @@ import { CreatorModal } from "@/components/creator-modal";
 import Dashboard from "@/pages/dashboard";
 import CreatorOnboarding from "@/pages/creator-onboarding";
 import PaymentClaim from "@/pages/payment-claim";
+import CreatorLogin from "@/pages/creator-login";
+import CreatorPortal from "@/pages/creator-portal";
+import AuditLog from "@/pages/audit-log";
+import RecurringPayments from "@/pages/recurring-payments";
+import Campaigns from "@/pages/campaigns";
+import CampaignDetails from "@/pages/campaign-details";
+import Users from "@/pages/users";
 import NotFound from "@/pages/not-found";
 import { useAuth } from "@/hooks/useAuth";
 
@@ -33,6 +40,10 @@ function Router() {
       {/* Public creator onboarding and payment claim routes */}
       <Route path="/onboarding" component={CreatorOnboarding} />
       <Route path="/claim/:token" component={PaymentClaim} />
+
+      {/* Creator portal (magic-link login) */}
+      <Route path="/portal/login" component={CreatorLogin} />
+      <Route path="/portal" component={CreatorPortal} />
       
       {/* Admin panel routes (protected) */}
       {isAuthenticated ? (
@@ -45,6 +56,11 @@ function Router() {
             <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
               <Switch>
                 <Route path="/" component={Dashboard} />
+                <Route path="/recurring-payments" component={RecurringPayments} />
+                <Route path="/campaigns" component={Campaigns} />
+                <Route path="/campaigns/:id" component={CampaignDetails} />
+                <Route path="/audit-log" component={AuditLog} />
+                <Route path="/users" component={Users} />
                 <Route component={NotFound} />
               </Switch>
             </main>
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@shared/vat-utils";
+import { ShieldCheck } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface AwaitingApproval {
+  id: number;
+  totalAmount: string;
+  currency: string;
+  description: string | null;
+  claimedAt: string | null;
+  createdAt: string;
+  requiresFourEyes: boolean;
+  approvalBlocker: string | null;
+  creator: {
+    fullName: string;
+    email: string;
+  };
+}
+
+type Decision = { id: number; action: "approve" | "reject" };
+
+export function ApprovalQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: requests = [] } = useQuery<AwaitingApproval[]>({
+    queryKey: ["/api/payment-requests/awaiting-approval"],
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ id, action }: Decision) => {
+      const response = await apiRequest("POST", `/api/payment-requests/${id}/${action}`, {
+        reason: reason.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-requests/awaiting-approval"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-requests"] });
+      toast({
+        title: action === "approve" ? "Payment Approved" : "Payment Rejected",
+        description: action === "approve"
+          ? "The payment can now be paid out."
+          : "The payment request has been rejected.",
+      });
+      setDecision(null);
+      setReason("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  const decidedRequest = requests.find((request) => request.id === decision?.id);
+
+  return (
+    <Card className="border-gray-200">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-black">Awaiting Approval ({requests.length})</h2>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-gray-50">
+            <TableHead className="text-gray-600 font-medium">Creator</TableHead>
+            <TableHead className="text-gray-600 font-medium">Amount</TableHead>
+            <TableHead className="text-gray-600 font-medium">Claimed</TableHead>
+            <TableHead className="text-right text-gray-600 font-medium">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {requests.map((request) => (
+            <TableRow key={request.id} className="hover:bg-gray-50">
+              <TableCell>
+                <div className="text-sm font-medium text-black">{request.creator.fullName}</div>
+                <div className="text-sm text-gray-600">{request.description || request.creator.email}</div>
+              </TableCell>
+              <TableCell>
+                <div className="text-sm font-medium text-black">
+                  {formatCurrency(parseFloat(request.totalAmount), request.currency)}
+                </div>
+                {request.requiresFourEyes && (
+                  <Badge className="bg-orange-100 text-orange-800">
+                    <ShieldCheck size={12} className="mr-1" />
+                    Four-eyes
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-sm text-gray-600">
+                {formatDistanceToNow(new Date(request.claimedAt ?? request.createdAt), { addSuffix: true })}
+              </TableCell>
+              <TableCell className="text-right">
+                {request.approvalBlocker && (
+                  <p className="text-xs text-gray-500 mb-2">Needs another admin's approval</p>
+                )}
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDecision({ id: request.id, action: "reject" })}
+                    className="border-gray-300 text-black hover:bg-gray-50"
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => setDecision({ id: request.id, action: "approve" })}
+                    disabled={!!request.approvalBlocker}
+                    title={request.approvalBlocker ?? undefined}
+                    className="bg-[#28ce73] hover:bg-[#22b366] text-white"
+                  >
+                    Approve
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!decision} onOpenChange={(open) => !open && setDecision(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-semibold text-black">
+              {decision?.action === "approve" ? "Approve Payment" : "Reject Payment"}
+            </DialogTitle>
+          </DialogHeader>
+
+          {decidedRequest && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {decidedRequest.creator.fullName} · {formatCurrency(parseFloat(decidedRequest.totalAmount), decidedRequest.currency)}
+              </p>
+
+              <div className="space-y-2">
+                <Label htmlFor="decision-reason">
+                  Reason {decision?.action === "approve" && <span className="text-gray-500">(optional)</span>}
+                </Label>
+                <Textarea
+                  id="decision-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={decision?.action === "reject" ? "Why is this payment rejected?" : "Add a note"}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3">
+                <Button
+                  variant="outline"
+                  onClick={() => setDecision(null)}
+                  className="border-gray-300 text-black hover:bg-gray-50"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => decision && decisionMutation.mutate(decision)}
+                  disabled={decisionMutation.isPending || (decision?.action === "reject" && !reason.trim())}
+                  className={decision?.action === "reject"
+                    ? "bg-red-600 hover:bg-red-700 text-white"
+                    : "bg-[#28ce73] hover:bg-[#22b366] text-white"}
+                >
+                  {decision?.action === "approve" ? "Approve" : "Reject"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, XCircle } from "lucide-react";
+
+export interface BatchPayoutItem {
+  paymentRequestId: number;
+  success: boolean;
+  message: string;
+  transferId?: string;
+}
+
+export interface BatchPayoutReport {
+  results: BatchPayoutItem[];
+  succeeded: number;
+  failed: number;
+}
+
+interface BatchPayoutModalProps {
+  report: BatchPayoutReport | null;
+  creatorNames: Record<number, string>;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function BatchPayoutModal({ report, creatorNames, onOpenChange }: BatchPayoutModalProps) {
+  return (
+    <Dialog open={!!report} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-black">Payout Report</DialogTitle>
+        </DialogHeader>
+
+        {report && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {report.succeeded} paid, {report.failed} failed
+            </p>
+
+            <div className="space-y-2">
+              {report.results.map((item) => (
+                <div key={item.paymentRequestId} className="flex items-start p-3 bg-gray-50 rounded-lg">
+                  {item.success ? (
+                    <CheckCircle className="text-green-600 mr-3 mt-0.5 shrink-0" size={16} />
+                  ) : (
+                    <XCircle className="text-red-600 mr-3 mt-0.5 shrink-0" size={16} />
+                  )}
+                  <div>
+                    <p className="text-sm font-medium text-black">
+                      #{item.paymentRequestId} {creatorNames[item.paymentRequestId]}
+                    </p>
+                    <p className={`text-sm ${item.success ? "text-gray-600" : "text-red-700"}`}>
+                      {item.message}
+                    </p>
+                    {item.transferId && (
+                      <p className="text-xs text-gray-500 font-mono">{item.transferId}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => onOpenChange(false)}
+                className="bg-[#28ce73] hover:bg-[#22b366] text-white"
+              >
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,305 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { SUPPORTED_COUNTRIES, requiresVatIdCheck, validateVatId } from "@shared/vat-utils";
+import { SUPPORTED_LANGUAGES } from "@shared/languages";
+import { SelfBillingTerms } from "@/components/self-billing-terms";
+
+const businessDetailsSchema = z.object({
+  fullName: z.string().min(1, "Full name is required"),
+  country: z.string().min(1, "Please select a country"),
+  businessType: z.enum(["individual", "vat_registered", "vat_exempt"]),
+  vatId: z.string().optional(),
+  smallBusinessScheme: z.boolean(),
+  companyName: z.string().optional(),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  postalCode: z.string().optional(),
+  invoiceMethod: z.enum(["auto", "manual"]),
+  selfBillingConsent: z.boolean(),
+  language: z.string().min(1),
+}).refine((data) => data.invoiceMethod !== 'auto' || data.selfBillingConsent, {
+  message: "Agree to self-billing to have invoices generated for you",
+  path: ["selfBillingConsent"],
+}).refine((data) => {
+  if (data.businessType === 'vat_registered' && !data.vatId) {
+    return false;
+  }
+  return true;
+}, {
+  message: "VAT ID is required for VAT registered businesses",
+  path: ["vatId"],
+}).superRefine((data, ctx) => {
+  if (!data.vatId || !requiresVatIdCheck(data.country, data.businessType)) {
+    return;
+  }
+  const result = validateVatId(data.vatId, data.country);
+  if (!result.valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.reason, path: ["vatId"] });
+  }
+});
+
+export type BusinessDetailsFormData = z.infer<typeof businessDetailsSchema>;
+
+const COUNTRIES = SUPPORTED_COUNTRIES.map(country => ({ value: country.country, label: country.countryName }));
+
+const BUSINESS_TYPES = [
+  { value: "individual", label: "Individual/Freelancer" },
+  { value: "vat_registered", label: "Company (VAT registered)" },
+  { value: "vat_exempt", label: "Company (VAT exempt)" },
+];
+
+interface BusinessDetailsFormProps {
+  defaultValues: BusinessDetailsFormData;
+  onSubmit: (data: BusinessDetailsFormData) => void;
+  isPending?: boolean;
+}
+
+export function BusinessDetailsForm({ defaultValues, onSubmit, isPending }: BusinessDetailsFormProps) {
+  const form = useForm<BusinessDetailsFormData>({
+    resolver: zodResolver(businessDetailsSchema),
+    defaultValues,
+  });
+
+  // Pick up the saved values once the profile is refetched
+  useEffect(() => {
+    form.reset(defaultValues);
+  }, [JSON.stringify(defaultValues)]);
+
+  const watchedBusinessType = form.watch("businessType");
+  const watchedCountry = form.watch("country");
+  const watchedInvoiceMethod = form.watch("invoiceMethod");
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="fullName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Full Name *</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="country"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Country *</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select your country" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {COUNTRIES.map((country) => (
+                      <SelectItem key={country.value} value={country.value}>
+                        {country.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="businessType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Business Type *</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {BUSINESS_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="invoiceMethod"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Invoices *</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="auto">Generate invoices for me</SelectItem>
+                    <SelectItem value="manual">I upload my own invoices</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {watchedInvoiceMethod === 'auto' && (
+            <FormField
+              control={form.control}
+              name="selfBillingConsent"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2 space-y-3">
+                  <SelfBillingTerms />
+                  <div className="flex items-start space-x-3">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <div className="space-y-1">
+                      <FormLabel>I agree that invoices are issued on my behalf (self-billing)</FormLabel>
+                      <FormMessage />
+                    </div>
+                  </div>
+                </FormItem>
+              )}
+            />
+          )}
+          {watchedBusinessType !== 'individual' && (
+            <FormField
+              control={form.control}
+              name="companyName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Company Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Your Company B.V." />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          {watchedBusinessType === 'vat_registered' && (
+            <FormField
+              control={form.control}
+              name="vatId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>VAT ID *</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g., NL004495445B01" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          {watchedBusinessType === 'vat_registered' && watchedCountry === 'NL' && (
+            <FormField
+              control={form.control}
+              name="smallBusinessScheme"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2 flex items-start space-x-3 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <div className="space-y-1">
+                    <FormLabel>I use the small business scheme (KOR)</FormLabel>
+                    <FormDescription>No VAT is added to your payments while you're registered for the KOR.</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+          )}
+          <FormField
+            control={form.control}
+            name="language"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email Language</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {SUPPORTED_LANGUAGES.map((language) => (
+                      <SelectItem key={language.value} value={language.value}>{language.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="address"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Address</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="postalCode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Postal Code</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="city"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>City</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            type="submit"
+            disabled={isPending}
+            className="bg-[#28ce73] hover:bg-[#22b366] text-white"
+          >
+            {isPending ? "Saving..." : "Save Details"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,42 @@
+import { formatCurrency } from "@shared/vat-utils";
+import { getBudgetWarning } from "@shared/campaigns";
+
+const BAR_STYLES = {
+  ok: "bg-[#28ce73]",
+  near: "bg-yellow-500",
+  over: "bg-red-500",
+};
+
+interface CampaignBudgetProps {
+  budget: number;
+  committedAmount: number;
+  paidAmount: number;
+  currency: string;
+}
+
+// Budget consumption: the bar fills with what is committed, the text below
+// says how much of it has been paid out
+export function CampaignBudget({ budget, committedAmount, paidAmount, currency }: CampaignBudgetProps) {
+  const warning = getBudgetWarning(budget, committedAmount);
+  const percent = budget > 0 ? Math.min(committedAmount / budget * 100, 100) : 100;
+  const remaining = budget - committedAmount;
+
+  return (
+    <div className="space-y-1">
+      <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200">
+        <div className={`h-full ${BAR_STYLES[warning ?? "ok"]}`} style={{ width: `${percent}%` }} />
+      </div>
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>
+          {formatCurrency(committedAmount, currency)} of {formatCurrency(budget, currency)} committed
+          {" · "}{formatCurrency(paidAmount, currency)} paid
+        </span>
+        <span className={warning === "over" ? "text-red-700 font-medium" : undefined}>
+          {remaining < 0
+            ? `${formatCurrency(-remaining, currency)} over budget`
+            : `${formatCurrency(remaining, currency)} left`}
+        </span>
+      </div>
+    </div>
+  );
+}
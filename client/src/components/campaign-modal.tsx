@@ -0,0 +1,256 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getCurrencyDecimals, SUPPORTED_CURRENCIES } from "@shared/vat-utils";
+import type { Campaign } from "@shared/schema";
+
+const campaignSchema = z.object({
+  name: z.string().trim().min(1, "A name is required"),
+  brand: z.string().trim().min(1, "A brand is required"),
+  budget: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
+    message: "Budget must be a positive number",
+  }),
+  currency: z.string().min(1, "Please select a currency"),
+  startDate: z.string().min(1, "Please pick a start date"),
+  endDate: z.string().min(1, "Please pick an end date"),
+}).refine((data) => data.endDate >= data.startDate, {
+  message: "End date must not be before the start date",
+  path: ["endDate"],
+});
+
+type CampaignFormData = z.infer<typeof campaignSchema>;
+
+const toDateInput = (value: Date | string | null) => value ? new Date(value).toISOString().slice(0, 10) : "";
+
+function getDefaultValues(campaign?: Campaign | null): CampaignFormData {
+  return {
+    name: campaign?.name ?? "",
+    brand: campaign?.brand ?? "",
+    budget: campaign?.budget ?? "",
+    currency: campaign?.currency ?? "EUR",
+    startDate: campaign ? toDateInput(campaign.startDate) : toDateInput(new Date()),
+    endDate: campaign ? toDateInput(campaign.endDate) : "",
+  };
+}
+
+interface CampaignModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaign?: Campaign | null; // Edits the campaign instead of creating one
+  hasPayments?: boolean; // The currency is fixed once payment requests use the campaign
+}
+
+export function CampaignModal({ open, onOpenChange, campaign, hasPayments }: CampaignModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = !!campaign;
+
+  const form = useForm<CampaignFormData>({
+    resolver: zodResolver(campaignSchema),
+    defaultValues: getDefaultValues(campaign),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(campaign));
+    }
+  }, [open, campaign]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CampaignFormData) => {
+      const response = isEditing
+        ? await apiRequest("PATCH", `/api/campaigns/${campaign.id}`, data)
+        : await apiRequest("POST", "/api/campaigns", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: isEditing ? "Campaign Updated" : "Campaign Created",
+        description: isEditing
+          ? "The campaign has been updated."
+          : "Payment requests can now be assigned to the campaign.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      if (isEditing) {
+        queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${campaign.id}`] });
+      }
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const watchedCurrency = form.watch("currency");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-black">
+            {isEditing ? "Edit Campaign" : "New Campaign"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Name *</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="Spring launch"
+                        className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="brand"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Brand *</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="budget"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Budget *</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        step={getCurrencyDecimals(watchedCurrency) === 0 ? "1" : "0.01"}
+                        placeholder="0.00"
+                        className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormDescription>Excluding VAT, like payment amounts</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Currency *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isEditing && hasPayments}>
+                      <FormControl>
+                        <SelectTrigger className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SUPPORTED_CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Payment requests in the campaign are made in this currency</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Start Date *</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="date"
+                        className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">End Date *</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="date"
+                        className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="border-gray-300 text-black hover:bg-gray-50"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="bg-[#28ce73] hover:bg-[#22b366] text-white font-medium"
+              >
+                {saveMutation.isPending ? "Saving..." : isEditing ? "Save Changes" : "Create Campaign"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -49,7 +49,7 @@ export function CreatorModal({ open, onOpenChange }: CreatorModalProps) {
       setOnboardingLink(data.onboardingUrl);
       toast({
         title: "Creator Created",
-        description: "Creator created successfully. Send them the onboarding link to complete their profile.",
+        description: "Creator created successfully. We've emailed them the onboarding link to complete their profile.",
       });
     },
     onError: (error) => {
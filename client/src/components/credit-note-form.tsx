@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@shared/vat-utils";
+
+interface CreditNoteFormProps {
+  paymentRequestId: number;
+  currency: string;
+  remainingAmount: number; // Amount excluding VAT not credited yet
+  canReverseTransfer: boolean;
+  onDone: () => void;
+}
+
+export function CreditNoteForm({ paymentRequestId, currency, remainingAmount, canReverseTransfer, onDone }: CreditNoteFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState(remainingAmount.toFixed(2));
+  const [reason, setReason] = useState("");
+  const [reverseTransfer, setReverseTransfer] = useState(canReverseTransfer);
+
+  const creditNoteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/payment-requests/${paymentRequestId}/credit-notes`, {
+        amount: parseFloat(amount),
+        reason,
+        reverseTransfer,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/payment-requests/${paymentRequestId}/credit-notes`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/payment-requests/${paymentRequestId}/invoices`] });
+      toast({
+        title: "Credit Note Issued",
+        description: reverseTransfer
+          ? "The credit note has been issued and the transfer reversed."
+          : "The credit note has been issued.",
+      });
+      onDone();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const parsedAmount = parseFloat(amount);
+  const isValid = parsedAmount > 0 && parsedAmount <= remainingAmount && reason.trim().length > 0;
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg space-y-3">
+      <div>
+        <Label htmlFor="creditAmount" className="text-sm">Amount excl. VAT</Label>
+        <Input
+          id="creditAmount"
+          type="number"
+          min="0.01"
+          max={remainingAmount}
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+        />
+        <p className="text-xs text-gray-600 mt-1">
+          Up to {formatCurrency(remainingAmount, currency)}. VAT is credited in proportion.
+        </p>
+      </div>
+      <div>
+        <Label htmlFor="creditReason" className="text-sm">Reason</Label>
+        <Textarea id="creditReason" value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+      </div>
+      {canReverseTransfer && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="reverseTransfer"
+            checked={reverseTransfer}
+            onCheckedChange={(checked) => setReverseTransfer(checked === true)}
+          />
+          <Label htmlFor="reverseTransfer" className="text-sm">Reverse the Stripe transfer for this amount</Label>
+        </div>
+      )}
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" size="sm" onClick={onDone} className="border-gray-300 text-black hover:bg-gray-50">
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => creditNoteMutation.mutate()}
+          disabled={!isValid || creditNoteMutation.isPending}
+          className="bg-[#28ce73] hover:bg-[#22b366] text-white"
+        >
+          {creditNoteMutation.isPending ? "Issuing..." : "Issue Credit Note"}
+        </Button>
+      </div>
+    </div>
+  );
+}
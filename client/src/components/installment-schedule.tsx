@@ -0,0 +1,64 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { formatCurrency } from "@shared/vat-utils";
+import { getInstallmentTotals } from "@shared/installments";
+
+export interface InstallmentEntry {
+  id: number;
+  number: number;
+  amount: string;
+  vatAmount: string;
+  totalAmount: string;
+  dueDate: string | null;
+  status: string;
+  paidAt: string | null;
+}
+
+const INSTALLMENT_STATUS_STYLES: Record<string, string> = {
+  scheduled: "bg-gray-100 text-gray-800",
+  processing: "bg-purple-100 text-purple-800",
+  paid: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+interface InstallmentScheduleProps {
+  installments: InstallmentEntry[];
+  currency: string;
+}
+
+export function InstallmentSchedule({ installments, currency }: InstallmentScheduleProps) {
+  const { paidAmount, remainingAmount } = getInstallmentTotals(installments);
+
+  return (
+    <div className="space-y-2 text-sm">
+      {installments.map((installment) => (
+        <div key={installment.id} className="flex items-center justify-between">
+          <div>
+            <p className="text-black">
+              Installment {installment.number} · {formatCurrency(parseFloat(installment.totalAmount), currency)}
+              <span className="text-xs text-gray-600"> (VAT {formatCurrency(parseFloat(installment.vatAmount), currency)})</span>
+            </p>
+            <p className="text-xs text-gray-600">
+              {installment.paidAt
+                ? `Paid ${format(new Date(installment.paidAt), "d MMM yyyy")}`
+                : installment.dueDate ? `Due ${format(new Date(installment.dueDate), "d MMM yyyy")}` : "No due date"}
+            </p>
+          </div>
+          <Badge className={`${INSTALLMENT_STATUS_STYLES[installment.status] ?? INSTALLMENT_STATUS_STYLES.scheduled} capitalize`}>
+            {installment.status}
+          </Badge>
+        </div>
+      ))}
+      <Separator />
+      <div className="flex justify-between">
+        <span className="text-gray-600">Paid:</span>
+        <span className="text-black font-medium">{formatCurrency(paidAmount, currency)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-600">Remaining:</span>
+        <span className="text-black font-medium">{formatCurrency(remainingAmount, currency)}</span>
+      </div>
+    </div>
+  );
+}
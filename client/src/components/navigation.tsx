@@ -1,5 +1,7 @@
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { USER_ROLES } from "@shared/permissions";
 import { CreditCard, Plus, Bell, User, LogOut } from "lucide-react";
 import {
   DropdownMenu,
@@ -15,6 +17,7 @@ interface NavigationProps {
 
 export function Navigation({ onNewPayment, onNewCreator }: NavigationProps) {
   const [location] = useLocation();
+  const { user, can } = useAuth();
 
   const isActive = (path: string) => location === path;
 
@@ -37,10 +40,42 @@ export function Navigation({ onNewPayment, onNewCreator }: NavigationProps) {
               }`}>
                 Dashboard
               </Link>
+              <Link href="/recurring-payments" className={`pb-4 font-medium ${
+                isActive("/recurring-payments") 
+                  ? "text-black border-b-2 border-[#28ce73]" 
+                  : "text-gray-600 hover:text-black"
+              }`}>
+                Recurring
+              </Link>
+              <Link href="/campaigns" className={`pb-4 font-medium ${
+                location.startsWith("/campaigns") 
+                  ? "text-black border-b-2 border-[#28ce73]" 
+                  : "text-gray-600 hover:text-black"
+              }`}>
+                Campaigns
+              </Link>
+              {can("audit:read") && (
+                <Link href="/audit-log" className={`pb-4 font-medium ${
+                  isActive("/audit-log") 
+                    ? "text-black border-b-2 border-[#28ce73]" 
+                    : "text-gray-600 hover:text-black"
+                }`}>
+                  Audit Log
+                </Link>
+              )}
+              {can("users:manage") && (
+                <Link href="/users" className={`pb-4 font-medium ${
+                  isActive("/users") 
+                    ? "text-black border-b-2 border-[#28ce73]" 
+                    : "text-gray-600 hover:text-black"
+                }`}>
+                  Users
+                </Link>
+              )}
             </div>
           </div>
           <div className="flex items-center space-x-4">
-            {onNewCreator && (
+            {onNewCreator && can("creators:manage") && (
               <Button 
                 onClick={onNewCreator}
                 variant="outline"
@@ -50,13 +85,15 @@ export function Navigation({ onNewPayment, onNewCreator }: NavigationProps) {
                 Add Creator
               </Button>
             )}
-            <Button 
-              onClick={onNewPayment}
-              className="bg-[#28ce73] hover:bg-[#22b366] text-white font-medium"
-            >
-              <Plus className="mr-2" size={16} />
-              New Payment
-            </Button>
+            {can("payments:create") && (
+              <Button 
+                onClick={onNewPayment}
+                className="bg-[#28ce73] hover:bg-[#22b366] text-white font-medium"
+              >
+                <Plus className="mr-2" size={16} />
+                New Payment
+              </Button>
+            )}
             <Button variant="ghost" size="sm">
               <Bell size={16} />
             </Button>
@@ -67,6 +104,14 @@ export function Navigation({ onNewPayment, onNewCreator }: NavigationProps) {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
+                {user && (
+                  <div className="px-2 py-1.5 text-sm">
+                    <p className="text-black">{user.email}</p>
+                    <p className="text-xs text-gray-600">
+                      {USER_ROLES.find((role) => role.value === user.role)?.label ?? user.role}
+                    </p>
+                  </div>
+                )}
                 <DropdownMenuItem asChild>
                   <a href="/api/logout" className="flex items-center cursor-pointer">
                     <LogOut className="mr-2 h-4 w-4" />
@@ -0,0 +1,584 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { CreditNoteForm } from "@/components/credit-note-form";
+import { InstallmentSchedule, type InstallmentEntry } from "@/components/installment-schedule";
+import { formatCurrency, formatPercent } from "@shared/vat-utils";
+import { getNetPayoutAmount } from "@shared/tax-forms";
+import { canTransition } from "@shared/payment-status";
+import { Copy, Download, FileText, Link2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface PaymentDetails {
+  id: number;
+  amount: string;
+  vatAmount: string;
+  totalAmount: string;
+  withholdingRate: string;
+  withholdingAmount: string;
+  currency: string;
+  stripeTransferId: string | null;
+  status: string;
+  description: string;
+  createdAt: string;
+  claimToken: string | null;
+  claimLinkState: ClaimLinkState;
+  claimTokenExpiresAt: string;
+  dueDate: string | null;
+  isOverdue: boolean;
+  creator: {
+    id: number;
+    fullName: string;
+    email: string;
+    country: string;
+    selfBillingConsentAt: string | null;
+  };
+}
+
+type ClaimLinkState = "active" | "expired" | "revoked";
+
+interface ClaimLink {
+  url: string | null; // Only known right after regenerating, or for active links
+  state: ClaimLinkState;
+  expiresAt: string;
+}
+
+const CLAIM_LINK_STYLES: Record<ClaimLinkState, string> = {
+  active: "bg-green-100 text-green-800",
+  expired: "bg-gray-100 text-gray-800",
+  revoked: "bg-red-100 text-red-800",
+};
+
+interface FieldVerdict {
+  field: string;
+  verdict: 'match' | 'mismatch' | 'missing' | 'not_applicable';
+  expected?: string;
+  found?: string;
+  reason?: string;
+}
+
+interface StatusEvent {
+  id: number;
+  fromStatus: string | null;
+  toStatus: string;
+  actorType: string;
+  actorId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface ReminderEntry {
+  id: number;
+  kind: "due_soon" | "overdue" | "onboarding";
+  stage: number;
+  createdAt: string;
+}
+
+const REMINDER_LABELS: Record<ReminderEntry["kind"], string> = {
+  due_soon: "Due soon",
+  overdue: "Overdue",
+  onboarding: "Onboarding",
+};
+
+interface InvoiceSummary {
+  id: number;
+  type: string;
+  invoiceNumber: string | null;
+  filename: string | null;
+  aiValidationStatus: string | null;
+  aiValidationNotes: string | null;
+  validator: string | null;
+  validationConfidence: string | null;
+  validationFields: FieldVerdict[] | null;
+  createdAt: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  total: "Total",
+  vatAmount: "VAT amount",
+  vatId: "VAT ID",
+  companyName: "Company name",
+  invoiceNumber: "Invoice number",
+  invoiceDate: "Invoice date",
+};
+
+const VERDICT_STYLES: Record<FieldVerdict['verdict'], string> = {
+  match: "text-green-700",
+  mismatch: "text-red-700",
+  missing: "text-red-700",
+  not_applicable: "text-gray-500",
+};
+
+interface CreditNoteEntry {
+  id: number;
+  invoiceId: number;
+  invoiceNumber: string | null;
+  amount: string;
+  vatAmount: string;
+  totalAmount: string;
+  reason: string;
+  stripeReversalId: string | null;
+  reversedAmount: string | null;
+  createdAt: string;
+}
+
+interface PaymentDetailsModalProps {
+  payment: PaymentDetails | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PaymentDetailsModal({ payment, onOpenChange }: PaymentDetailsModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+
+  const { data: invoices = [] } = useQuery<InvoiceSummary[]>({
+    queryKey: [`/api/payment-requests/${payment?.id}/invoices`],
+    enabled: !!payment,
+  });
+
+  const [claimLink, setClaimLink] = useState<ClaimLink | null>(null);
+
+  useEffect(() => {
+    setClaimLink(payment && {
+      url: payment.claimToken && payment.claimLinkState === "active"
+        ? `${window.location.origin}/claim/${payment.claimToken}`
+        : null,
+      state: payment.claimLinkState,
+      expiresAt: payment.claimTokenExpiresAt,
+    });
+  }, [payment]);
+
+  const canApprove = !!payment && can("payments:approve") && canTransition(payment.status, "approved");
+  const canCancel = !!payment && can("payments:cancel") && canTransition(payment.status, "cancelled");
+
+  const { data: events = [] } = useQuery<StatusEvent[]>({
+    queryKey: [`/api/payment-requests/${payment?.id}/events`],
+    enabled: !!payment,
+  });
+
+  const { data: reminders = [] } = useQuery<ReminderEntry[]>({
+    queryKey: [`/api/payment-requests/${payment?.id}/reminders`],
+    enabled: !!payment,
+  });
+
+  const { data: creditNotes = [] } = useQuery<CreditNoteEntry[]>({
+    queryKey: [`/api/payment-requests/${payment?.id}/credit-notes`],
+    enabled: !!payment,
+  });
+  const [isCrediting, setIsCrediting] = useState(false);
+
+  const { data: schedule } = useQuery<{ installments: InstallmentEntry[] }>({
+    queryKey: [`/api/payment-requests/${payment?.id}/installments`],
+    enabled: !!payment,
+  });
+  const installments = schedule?.installments ?? [];
+
+  const creditedAmount = creditNotes.reduce((sum, creditNote) => sum + parseFloat(creditNote.amount), 0);
+  const remainingCreditAmount = payment ? Math.round((parseFloat(payment.amount) - creditedAmount) * 100) / 100 : 0;
+  // Credit notes are self-billed, so only for creators who agreed to self-billing
+  const canCredit = !!payment && payment.status === "paid" && can("payments:process") && remainingCreditAmount > 0
+    && !!payment.creator.selfBillingConsentAt;
+
+  // Approve or cancel; the server enforces the allowed transitions
+  const statusMutation = useMutation({
+    mutationFn: async (action: "approve" | "cancel") => {
+      const response = await apiRequest("POST", `/api/payment-requests/${payment?.id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_data, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-requests/awaiting-approval"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: action === "approve" ? "Payment Approved" : "Payment Cancelled",
+        description: action === "approve"
+          ? "The payment can now be paid out."
+          : "The payment request has been cancelled.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const claimLinkMutation = useMutation({
+    mutationFn: async (action: "revoke" | "regenerate") => {
+      const response = await apiRequest("POST", `/api/payment-requests/${payment?.id}/claim-link/${action}`);
+      return response.json();
+    },
+    onSuccess: (data, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-requests"] });
+      setClaimLink({
+        url: data.claimUrl ?? null,
+        state: data.claimLinkState,
+        expiresAt: data.claimTokenExpiresAt,
+      });
+      toast({
+        title: action === "revoke" ? "Claim Link Revoked" : "New Claim Link Sent",
+        description: action === "revoke"
+          ? "The creator can no longer use the old link."
+          : "The new link has been emailed to the creator.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCopyClaimLink = async () => {
+    if (claimLink?.url) {
+      await navigator.clipboard.writeText(claimLink.url);
+      toast({
+        title: "Link Copied",
+        description: "Claim link copied to clipboard",
+      });
+    }
+  };
+
+  const generateInvoiceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/payment-requests/${payment?.id}/invoices/generate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/payment-requests/${payment?.id}/invoices`] });
+      toast({
+        title: "Invoice Generated",
+        description: "The invoice has been generated for this payment.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!payment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-black">
+            Payment #{payment?.id}
+          </DialogTitle>
+        </DialogHeader>
+
+        {payment && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm font-medium text-gray-600">Creator</Label>
+                <p className="text-black">{payment.creator.fullName}</p>
+                <p className="text-sm text-gray-600">{payment.creator.email}</p>
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-gray-600">Status</Label>
+                <p className="text-black capitalize">{payment.status}</p>
+              </div>
+              {payment.dueDate && (
+                <div>
+                  <Label className="text-sm font-medium text-gray-600">Due Date</Label>
+                  <p className="text-black">
+                    {format(new Date(payment.dueDate), "d MMM yyyy")}
+                    {payment.isOverdue && <Badge className="ml-2 bg-red-100 text-red-800">Overdue</Badge>}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {payment.description && (
+              <div>
+                <Label className="text-sm font-medium text-gray-600">Description</Label>
+                <p className="text-black">{payment.description}</p>
+              </div>
+            )}
+
+            <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Base Amount:</span>
+                <span className="text-black">{formatCurrency(parseFloat(payment.amount), payment.currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">VAT:</span>
+                <span className="text-black">{formatCurrency(parseFloat(payment.vatAmount), payment.currency)}</span>
+              </div>
+              <Separator />
+              <div className="flex justify-between font-medium">
+                <span className="text-black">Total Amount:</span>
+                <span className="text-black">{formatCurrency(parseFloat(payment.totalAmount), payment.currency)}</span>
+              </div>
+              {parseFloat(payment.withholdingAmount) > 0 && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Tax Withholding ({formatPercent(parseFloat(payment.withholdingRate))}):</span>
+                    <span className="text-black">-{formatCurrency(parseFloat(payment.withholdingAmount), payment.currency)}</span>
+                  </div>
+                  <div className="flex justify-between font-medium">
+                    <span className="text-black">Net Payout:</span>
+                    <span className="text-black">{formatCurrency(getNetPayoutAmount(payment), payment.currency)}</span>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {claimLink && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium text-black">Claim Link</h4>
+                  {can("payments:create") && (
+                    <div className="flex space-x-2">
+                      {claimLink.state === "active" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => claimLinkMutation.mutate("revoke")}
+                          disabled={claimLinkMutation.isPending}
+                          className="border-gray-300 text-black hover:bg-gray-50"
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => claimLinkMutation.mutate("regenerate")}
+                        disabled={claimLinkMutation.isPending}
+                        className="border-gray-300 text-black hover:bg-gray-50"
+                      >
+                        New Link
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center min-w-0">
+                    <Link2 className="mr-2 text-gray-600 shrink-0" size={16} />
+                    <div className="min-w-0">
+                      {claimLink.url && <p className="text-sm text-black truncate">{claimLink.url}</p>}
+                      <p className="text-xs text-gray-600">
+                        {claimLink.state === "revoked"
+                          ? "Revoked"
+                          : `${claimLink.state === "expired" ? "Expired" : "Expires"} ${format(new Date(claimLink.expiresAt), "d MMM yyyy HH:mm")}`}
+                      </p>
+                    </div>
+                    <Badge className={`ml-3 capitalize ${CLAIM_LINK_STYLES[claimLink.state]}`}>{claimLink.state}</Badge>
+                  </div>
+                  {claimLink.url && (
+                    <Button variant="ghost" size="sm" onClick={handleCopyClaimLink} className="text-[#28ce73] hover:text-[#22b366]">
+                      <Copy size={14} />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-black">Invoices</h4>
+                {can("invoices:manage") && !invoices.some((invoice) => invoice.type === 'generated') && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => generateInvoiceMutation.mutate()}
+                    disabled={generateInvoiceMutation.isPending}
+                    className="border-gray-300 text-black hover:bg-gray-50"
+                  >
+                    {generateInvoiceMutation.isPending ? "Generating..." : "Generate Invoice"}
+                  </Button>
+                )}
+              </div>
+
+              {invoices.length === 0 ? (
+                <p className="text-sm text-gray-600">No invoices for this payment yet.</p>
+              ) : (
+                invoices.map((invoice) => (
+                  <div key={invoice.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center">
+                        <FileText className="mr-2 text-gray-600" size={16} />
+                        <div>
+                          <p className="text-sm text-black">{invoice.invoiceNumber || invoice.filename}</p>
+                          <p className="text-xs text-gray-600 capitalize">{invoice.type.replace('_', ' ')}</p>
+                        </div>
+                        {invoice.aiValidationStatus && (
+                          <Badge className="ml-3 bg-gray-100 text-gray-800 capitalize">
+                            {invoice.aiValidationStatus}
+                          </Badge>
+                        )}
+                      </div>
+                      <Button asChild variant="ghost" size="sm" className="text-[#28ce73] hover:text-[#22b366]">
+                        <a href={`/api/invoices/${invoice.id}/download`}>
+                          <Download size={14} />
+                        </a>
+                      </Button>
+                    </div>
+
+                    {invoice.validator && (
+                      <div className="text-xs text-gray-600 space-y-1">
+                        <p>
+                          Validated by <span className="font-mono">{invoice.validator}</span>
+                          {invoice.validationConfidence && <> ({invoice.validationConfidence} confidence)</>}
+                        </p>
+                        {invoice.validationFields?.map((field) => (
+                          <div key={field.field} className="flex justify-between">
+                            <span>{FIELD_LABELS[field.field] || field.field}</span>
+                            <span className={VERDICT_STYLES[field.verdict]}>
+                              {field.verdict.replace('_', ' ')}
+                              {field.found && field.verdict !== 'match' && ` (${field.found})`}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {installments.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="font-medium text-black">Installments</h4>
+                <InstallmentSchedule installments={installments} currency={payment.currency} />
+              </div>
+            )}
+
+            {(creditNotes.length > 0 || canCredit) && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium text-black">Credit Notes</h4>
+                  {canCredit && !isCrediting && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setIsCrediting(true)}
+                      className="border-gray-300 text-black hover:bg-gray-50"
+                    >
+                      Issue Credit Note
+                    </Button>
+                  )}
+                </div>
+
+                {isCrediting && (
+                  <CreditNoteForm
+                    paymentRequestId={payment.id}
+                    currency={payment.currency}
+                    remainingAmount={remainingCreditAmount}
+                    canReverseTransfer={!!payment.stripeTransferId && installments.length === 0}
+                    onDone={() => setIsCrediting(false)}
+                  />
+                )}
+
+                {creditNotes.map((creditNote) => (
+                  <div key={creditNote.id} className="p-3 bg-gray-50 rounded-lg flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-black">
+                        {creditNote.invoiceNumber} · -{formatCurrency(parseFloat(creditNote.totalAmount), payment.currency)}
+                        <span className="text-xs text-gray-600"> (VAT -{formatCurrency(parseFloat(creditNote.vatAmount), payment.currency)})</span>
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {creditNote.reason} · {format(new Date(creditNote.createdAt), "d MMM yyyy")}
+                        {creditNote.reversedAmount && ` · ${formatCurrency(parseFloat(creditNote.reversedAmount), payment.currency)} reversed`}
+                      </p>
+                    </div>
+                    <Button asChild variant="ghost" size="sm" className="text-[#28ce73] hover:text-[#22b366]">
+                      <a href={`/api/invoices/${creditNote.invoiceId}/download`}>
+                        <Download size={14} />
+                      </a>
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {reminders.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="font-medium text-black">Reminders</h4>
+                <div className="space-y-2">
+                  {reminders.map((reminder) => (
+                    <div key={reminder.id} className="flex justify-between text-sm">
+                      <p className="text-black">
+                        {REMINDER_LABELS[reminder.kind]} reminder {reminder.stage + 1}
+                      </p>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {format(new Date(reminder.createdAt), "d MMM yyyy HH:mm")}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h4 className="font-medium text-black">History</h4>
+              {events.length === 0 ? (
+                <p className="text-sm text-gray-600">No status changes recorded.</p>
+              ) : (
+                <div className="space-y-2">
+                  {events.map((event) => (
+                    <div key={event.id} className="flex justify-between text-sm">
+                      <div>
+                        <p className="text-black capitalize">
+                          {event.fromStatus ? `${event.fromStatus} → ${event.toStatus}` : `Created (${event.toStatus})`}
+                        </p>
+                        <p className="text-xs text-gray-600">
+                          by {event.actorType}{event.actorId && ` ${event.actorId}`}
+                          {event.note && ` · ${event.note}`}
+                        </p>
+                      </div>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {format(new Date(event.createdAt), "d MMM yyyy HH:mm")}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {(canApprove || canCancel) && (
+              <div className="flex justify-end space-x-3">
+                {canCancel && (
+                  <Button
+                    variant="outline"
+                    onClick={() => statusMutation.mutate("cancel")}
+                    disabled={statusMutation.isPending}
+                    className="border-gray-300 text-black hover:bg-gray-50"
+                  >
+                    Cancel Request
+                  </Button>
+                )}
+                {canApprove && (
+                  <Button
+                    onClick={() => statusMutation.mutate("approve")}
+                    disabled={statusMutation.isPending}
+                    className="bg-[#28ce73] hover:bg-[#22b366] text-white"
+                  >
+                    Approve
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
@@ -7,31 +7,78 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { calculateVAT, formatCurrency } from "@shared/vat-utils";
-import { CheckCircle, X } from "lucide-react";
+import {
+  formatCurrency,
+  formatPercent,
+  getCountryCurrency,
+  getCurrencyDecimals,
+  SUPPORTED_CURRENCIES,
+} from "@shared/vat-utils";
+import { calculateVAT, SERVICE_TYPES, type ServiceType } from "@shared/vat-rules";
+import { getInstallmentsError, MAX_INSTALLMENTS, splitInstallments } from "@shared/installments";
+import { getBudgetWarning, type CampaignSummary } from "@shared/campaigns";
+import type { Creator } from "@shared/schema";
+import { AlertTriangle, CheckCircle, Plus, X } from "lucide-react";
 
 const paymentSchema = z.object({
   creatorId: z.string().min(1, "Please select a creator"),
   amount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
     message: "Amount must be a positive number",
   }),
+  currency: z.string().min(1, "Please select a currency"),
+  serviceType: z.enum(SERVICE_TYPES.map(serviceType => serviceType.value) as [ServiceType, ...ServiceType[]]),
   description: z.string().optional(),
   dueDate: z.string().optional(),
+  campaignId: z.string().optional(),
+  installments: z.array(z.object({
+    amount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
+      message: "Amount must be a positive number",
+    }),
+    dueDate: z.string().optional(),
+  })),
+}).superRefine((data, ctx) => {
+  if (data.installments.length === 0) {
+    return;
+  }
+  const error = getInstallmentsError(
+    Number(data.amount),
+    data.installments.map(installment => ({ amount: Number(installment.amount) })),
+    data.currency,
+  );
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ["installments"] });
+  }
 });
 
 type PaymentFormData = z.infer<typeof paymentSchema>;
 
+// What the creator's latest VAT ID check means for a reverse-charged payment
+const VAT_ID_STATUS_NOTES: Record<string, string> = {
+  valid: "confirmed by VIES",
+  unavailable: "VIES could not be reached at the last check",
+  invalid: "not registered according to VIES; the payment will be refused",
+  malformed: "not a valid VAT ID; the payment will be refused",
+};
+
+const BUDGET_PANEL_STYLES = {
+  ok: "bg-gray-50 border-gray-200",
+  near: "bg-yellow-50 border-yellow-200",
+  over: "bg-red-50 border-red-200",
+};
+
 interface PaymentModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
 export function PaymentModal({ open, onOpenChange }: PaymentModalProps) {
-  const [selectedCreatorInfo, setSelectedCreatorInfo] = useState<any>(null);
+  const [selectedCreatorInfo, setSelectedCreatorInfo] = useState<Creator | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -40,22 +87,39 @@ export function PaymentModal({ open, onOpenChange }: PaymentModalProps) {
     defaultValues: {
       creatorId: "",
       amount: "",
+      currency: "EUR",
+      serviceType: "general",
       description: "",
       dueDate: "",
+      campaignId: "",
+      installments: [],
     },
   });
 
-  const { data: creators = [] } = useQuery({
+  const installmentFields = useFieldArray({ control: form.control, name: "installments" });
+
+  const { data: creators = [] } = useQuery<Creator[]>({
     queryKey: ["/api/creators"],
   });
 
+  const { data: campaigns = [] } = useQuery<CampaignSummary[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
   const createPaymentMutation = useMutation({
     mutationFn: async (data: PaymentFormData) => {
       const response = await apiRequest("POST", "/api/payment-requests", {
         creatorId: parseInt(data.creatorId),
         amount: data.amount,
+        currency: data.currency,
+        serviceType: data.serviceType,
         description: data.description,
         dueDate: data.dueDate || null,
+        campaignId: data.campaignId ? parseInt(data.campaignId) : null,
+        installments: data.installments.map(installment => ({
+          amount: installment.amount,
+          dueDate: installment.dueDate || null,
+        })),
       });
       return response.json();
     },
@@ -66,6 +130,7 @@ export function PaymentModal({ open, onOpenChange }: PaymentModalProps) {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/payment-requests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
       onOpenChange(false);
       form.reset();
       setSelectedCreatorInfo(null);
@@ -80,20 +145,73 @@ export function PaymentModal({ open, onOpenChange }: PaymentModalProps) {
   });
 
   const handleCreatorSelect = (creatorId: string) => {
-    const creator = creators.find((c: any) => c.id.toString() === creatorId);
-    setSelectedCreatorInfo(creator);
+    const creator = creators.find((c) => c.id.toString() === creatorId);
+    setSelectedCreatorInfo(creator ?? null);
     form.setValue("creatorId", creatorId);
+    // Suggest the creator's local currency, unless the campaign sets it
+    if (creator && !form.getValues("campaignId")) {
+      form.setValue("currency", getCountryCurrency(creator.country));
+    }
+  };
+
+  // Payments in a campaign are made in the currency its budget is in
+  const handleCampaignSelect = (campaignId: string) => {
+    const campaign = campaigns.find((c) => c.id.toString() === campaignId);
+    form.setValue("campaignId", campaign ? campaignId : "");
+    if (campaign) {
+      form.setValue("currency", campaign.currency);
+    }
   };
 
   const watchedAmount = form.watch("amount");
+  const watchedCurrency = form.watch("currency");
+  const watchedServiceType = form.watch("serviceType");
+  // Same evaluation the server runs when the request is created
   const vatCalculation = selectedCreatorInfo && watchedAmount 
-    ? calculateVAT(parseFloat(watchedAmount) || 0, selectedCreatorInfo.country, selectedCreatorInfo.businessType)
+    ? calculateVAT(parseFloat(watchedAmount) || 0, {
+      country: selectedCreatorInfo.country,
+      businessType: selectedCreatorInfo.businessType,
+      serviceType: watchedServiceType,
+      smallBusinessScheme: selectedCreatorInfo.smallBusinessScheme,
+    })
     : null;
 
   const totalAmount = watchedAmount && vatCalculation 
     ? parseFloat(watchedAmount) + vatCalculation.amount 
     : 0;
 
+  const watchedCampaignId = form.watch("campaignId");
+  const selectedCampaign = campaigns.find((campaign) => campaign.id.toString() === watchedCampaignId);
+  const campaignBudget = selectedCampaign ? parseFloat(selectedCampaign.budget) : 0;
+  const budgetWarning = selectedCampaign
+    ? getBudgetWarning(campaignBudget, selectedCampaign.committedAmount, parseFloat(watchedAmount) || 0)
+    : null;
+
+  // Splitting starts from two equal halves; the last one absorbs rounding
+  const toggleInstallments = (enabled: boolean) => {
+    if (!enabled) {
+      installmentFields.replace([]);
+      return;
+    }
+    const amount = parseFloat(watchedAmount) || 0;
+    const decimals = getCurrencyDecimals(watchedCurrency);
+    const half = Math.floor(amount / 2 * 10 ** decimals) / 10 ** decimals;
+    installmentFields.replace([
+      { amount: half.toFixed(decimals), dueDate: "" },
+      { amount: (amount - half).toFixed(decimals), dueDate: form.getValues("dueDate") ?? "" },
+    ]);
+  };
+
+  const watchedInstallments = form.watch("installments");
+  const installmentPreview = vatCalculation && watchedInstallments.length > 0
+    ? splitInstallments({
+      amount: parseFloat(watchedAmount) || 0,
+      vatAmount: vatCalculation.amount,
+      withholdingAmount: 0,
+      currency: watchedCurrency,
+    }, watchedInstallments.map(installment => ({ amount: parseFloat(installment.amount) || 0 })))
+    : [];
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -116,7 +234,7 @@ export function PaymentModal({ open, onOpenChange }: PaymentModalProps) {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {creators.map((creator: any) => (
+                      {creators.map((creator) => (
                         <SelectItem key={creator.id} value={creator.id.toString()}>
                           {creator.fullName} ({creator.email})
                         </SelectItem>
@@ -128,30 +246,52 @@ export function PaymentModal({ open, onOpenChange }: PaymentModalProps) {
               )}
             />
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <FormField
                 control={form.control}
                 name="amount"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel className="text-sm font-medium text-black">Payment Amount (EUR) *</FormLabel>
+                    <FormLabel className="text-sm font-medium text-black">Payment Amount *</FormLabel>
                     <FormControl>
-                      <div className="relative">
-                        <span className="absolute left-3 top-3 text-gray-600">€</span>
-                        <Input
-                          {...field}
-                          type="number"
-                          step="0.01"
-                          placeholder="0.00"
-                          className="pl-8 border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
-                        />
-                      </div>
+                      <Input
+                        {...field}
+                        type="number"
+                        step={getCurrencyDecimals(watchedCurrency) === 0 ? "1" : "0.01"}
+                        placeholder="0.00"
+                        className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Currency *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!!selectedCampaign}>
+                      <FormControl>
+                        <SelectTrigger className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SUPPORTED_CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="dueDate"
@@ -171,6 +311,94 @@ export function PaymentModal({ open, onOpenChange }: PaymentModalProps) {
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="serviceType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-black">Service Type *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {SERVICE_TYPES.map((serviceType) => (
+                        <SelectItem key={serviceType.value} value={serviceType.value}>
+                          {serviceType.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="campaignId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-black">Campaign</FormLabel>
+                  <Select onValueChange={handleCampaignSelect} value={field.value || "none"}>
+                    <FormControl>
+                      <SelectTrigger className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No campaign</SelectItem>
+                      {campaigns.map((campaign) => (
+                        <SelectItem key={campaign.id} value={campaign.id.toString()}>
+                          {campaign.name} ({campaign.brand})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {selectedCampaign && (
+              <div className={`border rounded-lg p-4 ${BUDGET_PANEL_STYLES[budgetWarning ?? "ok"]}`}>
+                <h4 className="font-medium text-black mb-3">Campaign Budget</h4>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Budget:</span>
+                    <span className="text-black">{formatCurrency(campaignBudget, selectedCampaign.currency)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Already committed:</span>
+                    <span className="text-black">{formatCurrency(selectedCampaign.committedAmount, selectedCampaign.currency)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">This payment (excl. VAT):</span>
+                    <span className="text-black">{formatCurrency(parseFloat(watchedAmount) || 0, selectedCampaign.currency)}</span>
+                  </div>
+                  <div className="border-t pt-2 flex justify-between font-medium">
+                    <span className="text-black">Remaining after this payment:</span>
+                    <span className={budgetWarning === "over" ? "text-red-700" : "text-black"}>
+                      {formatCurrency(
+                        campaignBudget - selectedCampaign.committedAmount - (parseFloat(watchedAmount) || 0),
+                        selectedCampaign.currency,
+                      )}
+                    </span>
+                  </div>
+                  {budgetWarning && (
+                    <p className={`flex items-center ${budgetWarning === "over" ? "text-red-700" : "text-yellow-800"}`}>
+                      <AlertTriangle className="mr-2 shrink-0" size={16} />
+                      {budgetWarning === "over"
+                        ? "This payment takes the campaign over its budget."
+                        : "This payment uses up most of the remaining budget."}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="description"
@@ -190,6 +418,81 @@ export function PaymentModal({ open, onOpenChange }: PaymentModalProps) {
               )}
             />
 
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="payInInstallments"
+                  checked={installmentFields.fields.length > 0}
+                  onCheckedChange={(checked) => toggleInstallments(checked === true)}
+                />
+                <Label htmlFor="payInInstallments" className="text-sm font-medium text-black">Pay in installments</Label>
+              </div>
+              {installmentFields.fields.map((installment, index) => (
+                <div key={installment.id} className="grid grid-cols-[auto_1fr_1fr_auto] gap-3 items-start">
+                  <span className="text-sm text-gray-600 pt-2">#{index + 1}</span>
+                  <FormField
+                    control={form.control}
+                    name={`installments.${index}.amount`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="number"
+                            step={getCurrencyDecimals(watchedCurrency) === 0 ? "1" : "0.01"}
+                            placeholder="Amount excl. VAT"
+                            className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`installments.${index}.dueDate`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="date"
+                            className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => installmentFields.remove(index)}
+                    disabled={installmentFields.fields.length <= 2}
+                    aria-label={`Remove installment ${index + 1}`}
+                  >
+                    <X size={16} />
+                  </Button>
+                </div>
+              ))}
+              {installmentFields.fields.length > 0 && (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => installmentFields.append({ amount: "", dueDate: "" })}
+                    disabled={installmentFields.fields.length >= MAX_INSTALLMENTS}
+                    className="border-gray-300 text-black hover:bg-gray-50"
+                  >
+                    <Plus size={16} className="mr-1" /> Add Installment
+                  </Button>
+                  <p className="text-sm font-medium text-destructive">{form.formState.errors.installments?.root?.message ?? form.formState.errors.installments?.message}</p>
+                </>
+              )}
+            </div>
+
             {selectedCreatorInfo && (
               <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                 <div className="flex items-center mb-3">
@@ -211,16 +514,28 @@ export function PaymentModal({ open, onOpenChange }: PaymentModalProps) {
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
                     <span className="text-gray-600">Base Amount:</span>
-                    <span className="text-black">{formatCurrency(parseFloat(watchedAmount))}</span>
+                    <span className="text-black">{formatCurrency(parseFloat(watchedAmount), watchedCurrency)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">VAT ({vatCalculation.note}):</span>
-                    <span className="text-black">{formatCurrency(vatCalculation.amount)}</span>
+                    <span className="text-gray-600">VAT {formatPercent(vatCalculation.rate)} ({vatCalculation.note}):</span>
+                    <span className="text-black">{formatCurrency(vatCalculation.amount, watchedCurrency)}</span>
                   </div>
                   <div className="border-t pt-2 flex justify-between font-medium">
                     <span className="text-black">Total Amount:</span>
-                    <span className="text-black">{formatCurrency(totalAmount)}</span>
+                    <span className="text-black">{formatCurrency(totalAmount, watchedCurrency)}</span>
                   </div>
+                  {installmentPreview.map((installment) => (
+                    <div key={installment.number} className="flex justify-between text-gray-600">
+                      <span>Installment {installment.number} (incl. VAT):</span>
+                      <span>{formatCurrency(installment.totalAmount, watchedCurrency)}</span>
+                    </div>
+                  ))}
+                  {selectedCreatorInfo && vatCalculation.isEUVATShift && (
+                    <p className="text-xs text-gray-600">
+                      VAT ID {selectedCreatorInfo.vatId}:{" "}
+                      {VAT_ID_STATUS_NOTES[selectedCreatorInfo.vatIdStatus ?? ""] || "will be checked with VIES when the payment is created"}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -0,0 +1,385 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getCountryCurrency, getCurrencyDecimals, SUPPORTED_CURRENCIES } from "@shared/vat-utils";
+import { SERVICE_TYPES, type ServiceType } from "@shared/vat-rules";
+import {
+  DESCRIPTION_PLACEHOLDERS,
+  formatRecurringDescription,
+  getFirstPeriodFrom,
+  RECURRING_FREQUENCIES,
+  type RecurringFrequency,
+} from "@shared/recurring-payments";
+import type { RecurringPayment } from "@shared/schema";
+
+const recurringPaymentSchema = z.object({
+  creatorId: z.string().min(1, "Please select a creator"),
+  amount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
+    message: "Amount must be a positive number",
+  }),
+  currency: z.string().min(1, "Please select a currency"),
+  serviceType: z.enum(SERVICE_TYPES.map(serviceType => serviceType.value) as [ServiceType, ...ServiceType[]]),
+  descriptionTemplate: z.string().trim().min(1, "A description is required"),
+  frequency: z.enum(RECURRING_FREQUENCIES.map(frequency => frequency.value) as [RecurringFrequency, ...RecurringFrequency[]]),
+  startDate: z.string().min(1, "Please pick a start date"),
+  endDate: z.string().optional(),
+  dueInDays: z.string().optional(),
+}).refine((data) => !data.endDate || data.endDate >= data.startDate, {
+  message: "End date must not be before the start date",
+  path: ["endDate"],
+});
+
+type RecurringPaymentFormData = z.infer<typeof recurringPaymentSchema>;
+
+const toDateInput = (value: Date | string | null) => value ? new Date(value).toISOString().slice(0, 10) : "";
+
+function getDefaultValues(series?: RecurringPayment | null): RecurringPaymentFormData {
+  return {
+    creatorId: series ? series.creatorId.toString() : "",
+    amount: series?.amount ?? "",
+    currency: series?.currency ?? "EUR",
+    serviceType: (series?.serviceType ?? "general") as ServiceType,
+    descriptionTemplate: series?.descriptionTemplate ?? "Retainer {period}",
+    frequency: (series?.frequency ?? "monthly") as RecurringFrequency,
+    startDate: series ? toDateInput(series.startDate) : toDateInput(new Date()),
+    endDate: series ? toDateInput(series.endDate) : "",
+    dueInDays: series?.dueInDays?.toString() ?? "",
+  };
+}
+
+interface RecurringPaymentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  series?: RecurringPayment | null; // Edits the series instead of creating one
+}
+
+export function RecurringPaymentModal({ open, onOpenChange, series }: RecurringPaymentModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = !!series;
+
+  const form = useForm<RecurringPaymentFormData>({
+    resolver: zodResolver(recurringPaymentSchema),
+    defaultValues: getDefaultValues(series),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(series));
+    }
+  }, [open, series]);
+
+  const { data: creators = [] } = useQuery<any[]>({
+    queryKey: ["/api/creators"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: RecurringPaymentFormData) => {
+      const fields = {
+        amount: data.amount,
+        currency: data.currency,
+        serviceType: data.serviceType,
+        descriptionTemplate: data.descriptionTemplate,
+        endDate: data.endDate || null,
+        dueInDays: data.dueInDays ? parseInt(data.dueInDays) : null,
+      };
+      const response = isEditing
+        ? await apiRequest("PATCH", `/api/recurring-payments/${series.id}`, fields)
+        : await apiRequest("POST", "/api/recurring-payments", {
+          ...fields,
+          creatorId: parseInt(data.creatorId),
+          frequency: data.frequency,
+          startDate: data.startDate,
+        });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: isEditing ? "Recurring Payment Updated" : "Recurring Payment Created",
+        description: isEditing
+          ? "Changes apply from the next payment request on."
+          : "Payment requests will be created automatically every period.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-payments"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreatorSelect = (creatorId: string) => {
+    form.setValue("creatorId", creatorId);
+    // Suggest the creator's local currency
+    const creator = creators.find((c: any) => c.id.toString() === creatorId);
+    if (creator) {
+      form.setValue("currency", getCountryCurrency(creator.country));
+    }
+  };
+
+  const watchedCurrency = form.watch("currency");
+  const watchedTemplate = form.watch("descriptionTemplate");
+  const watchedFrequency = form.watch("frequency");
+  const watchedStartDate = form.watch("startDate");
+
+  // Description of the next request, as the scheduler will fill it in
+  const startDate = watchedStartDate ? new Date(watchedStartDate) : null;
+  const preview = startDate && !isNaN(startDate.getTime()) && watchedTemplate
+    ? formatRecurringDescription(
+      watchedTemplate,
+      startDate,
+      watchedFrequency,
+      series ? series.nextPeriod : getFirstPeriodFrom(startDate, watchedFrequency, new Date(toDateInput(new Date()))),
+    )
+    : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-black">
+            {isEditing ? "Edit Recurring Payment" : "New Recurring Payment"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="creatorId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-black">Creator *</FormLabel>
+                  <Select onValueChange={handleCreatorSelect} value={field.value} disabled={isEditing}>
+                    <FormControl>
+                      <SelectTrigger className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent">
+                        <SelectValue placeholder="Search and select a creator..." />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {creators.map((creator: any) => (
+                        <SelectItem key={creator.id} value={creator.id.toString()}>
+                          {creator.fullName} ({creator.email})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Amount per Period *</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        step={getCurrencyDecimals(watchedCurrency) === 0 ? "1" : "0.01"}
+                        placeholder="0.00"
+                        className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Currency *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SUPPORTED_CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="serviceType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Service Type *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SERVICE_TYPES.map((serviceType) => (
+                          <SelectItem key={serviceType.value} value={serviceType.value}>
+                            {serviceType.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="descriptionTemplate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-black">Description *</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Placeholders: {DESCRIPTION_PLACEHOLDERS.map((placeholder) => placeholder.value).join(", ")}
+                    {preview && <span className="block">Next request: {preview}</span>}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Frequency *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isEditing}>
+                      <FormControl>
+                        <SelectTrigger className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {RECURRING_FREQUENCIES.map((frequency) => (
+                          <SelectItem key={frequency.value} value={frequency.value}>
+                            {frequency.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Start Date *</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="date"
+                        disabled={isEditing}
+                        className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">End Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="date"
+                        className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dueInDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-black">Due After (days)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min="0"
+                        step="1"
+                        placeholder="No due date"
+                        className="border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="border-gray-300 text-black hover:bg-gray-50"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="bg-[#28ce73] hover:bg-[#22b366] text-white font-medium"
+              >
+                {saveMutation.isPending ? "Saving..." : isEditing ? "Save Changes" : "Create Recurring Payment"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
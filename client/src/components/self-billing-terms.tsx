@@ -0,0 +1,14 @@
+import { SELF_BILLING_TERMS, SELF_BILLING_TERMS_VERSION } from "@shared/self-billing";
+
+export function SelfBillingTerms() {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 text-sm text-gray-700">
+      <p className="font-medium text-black mb-2">Self-billing agreement (version {SELF_BILLING_TERMS_VERSION})</p>
+      <ul className="list-disc pl-5 space-y-1">
+        {SELF_BILLING_TERMS.map((term) => (
+          <li key={term}>{term}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { SUPPORTED_COUNTRIES } from "@shared/vat-utils";
+import {
+  taxFormSchema,
+  TAX_FORM_DESCRIPTIONS,
+  W8BENE_CLASSIFICATIONS,
+  W9_CLASSIFICATIONS,
+  type TaxFormData,
+  type TaxFormType,
+} from "@shared/tax-forms";
+
+const COUNTRIES = SUPPORTED_COUNTRIES.map(country => ({ value: country.country, label: country.countryName }));
+
+interface TaxFormProps {
+  formType: TaxFormType;
+  defaultValues?: Partial<TaxFormData>;
+  onSubmit: (data: TaxFormData) => void;
+  isPending?: boolean;
+}
+
+export function TaxForm({ formType, defaultValues, onSubmit, isPending }: TaxFormProps) {
+  const form = useForm<TaxFormData>({
+    resolver: zodResolver(taxFormSchema),
+    defaultValues: {
+      legalName: "",
+      businessName: "",
+      taxClassification: "",
+      tin: "",
+      residenceCountry: "",
+      dateOfBirth: "",
+      address: "",
+      city: "",
+      postalCode: "",
+      country: "",
+      treatyCountry: "",
+      treatyRate: "",
+      signatureName: "",
+      ...defaultValues,
+      formType,
+      certified: false,
+    },
+  });
+
+  const isW9 = formType === 'W-9';
+  const classifications = isW9 ? W9_CLASSIFICATIONS : W8BENE_CLASSIFICATIONS;
+
+  const countrySelect = (name: "residenceCountry" | "country" | "treatyCountry", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a country" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {COUNTRIES.map((country) => (
+                <SelectItem key={country.value} value={country.value}>{country.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Form {TAX_FORM_DESCRIPTIONS[formType]}. Your details are stored encrypted and only used for tax reporting.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="legalName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{formType === 'W-8BEN-E' ? "Organization Name *" : "Legal Name *"}</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {isW9 && (
+            <FormField
+              control={form.control}
+              name="businessName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Business Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          {formType !== 'W-8BEN' && (
+            <FormField
+              control={form.control}
+              name="taxClassification"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{isW9 ? "Federal Tax Classification *" : "Chapter 3 Status *"}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select..." />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {classifications.map((classification) => (
+                        <SelectItem key={classification.value} value={classification.value}>{classification.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <FormField
+            control={form.control}
+            name="tin"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{isW9 ? "SSN or EIN *" : "Foreign Tax ID"}</FormLabel>
+                <FormControl>
+                  <Input {...field} autoComplete="off" placeholder={isW9 ? "123-45-6789" : ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {!isW9 && countrySelect("residenceCountry", formType === 'W-8BEN' ? "Country of Citizenship *" : "Country of Incorporation *")}
+          {formType === 'W-8BEN' && (
+            <FormField
+              control={form.control}
+              name="dateOfBirth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date of Birth *</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="date" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <FormField
+            control={form.control}
+            name="address"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>{isW9 ? "Address *" : "Permanent Residence Address *"}</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="postalCode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Postal Code *</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="city"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>City *</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {countrySelect("country", "Country *")}
+          {!isW9 && (
+            <>
+              {countrySelect("treatyCountry", "Treaty Country")}
+              <FormField
+                control={form.control}
+                name="treatyRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Treaty Withholding Rate (%)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min="0" max="30" step="0.1" />
+                    </FormControl>
+                    <FormDescription>Only if you claim a reduced rate under a tax treaty.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
+          )}
+          <FormField
+            control={form.control}
+            name="signatureName"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Signature (type your full name) *</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="certified"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2 flex items-start space-x-3 space-y-0">
+                <FormControl>
+                  <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                </FormControl>
+                <div className="space-y-1">
+                  <FormLabel>
+                    Under penalties of perjury, I certify that the information on this form is true, correct and complete.
+                  </FormLabel>
+                  <FormMessage />
+                </div>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            type="submit"
+            disabled={isPending}
+            className="bg-[#28ce73] hover:bg-[#22b366] text-white"
+          >
+            {isPending ? "Submitting..." : `Submit ${formType}`}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
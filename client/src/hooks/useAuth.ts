@@ -1,7 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { User } from "@shared/schema";
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery({
+  const { data: user, isLoading } = useQuery<User>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -10,5 +12,7 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
+    // UI only; the server checks permissions on every route
+    can: (permission: Permission) => hasPermission(user?.role, permission),
   };
 }
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Search } from "lucide-react";
+import { format } from "date-fns";
+
+interface AuditLogEntry {
+  id: number;
+  actorType: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  ip: string | null;
+  createdAt: string;
+}
+
+const ENTITY_TYPES = [
+  { value: "creator", label: "Creators" },
+  { value: "payment_request", label: "Payment requests" },
+  { value: "recurring_payment", label: "Recurring payments" },
+  { value: "campaign", label: "Campaigns" },
+  { value: "invoice", label: "Invoices" },
+  { value: "stripe_event", label: "Stripe events" },
+  { value: "user", label: "Users" },
+];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export default function AuditLog() {
+  const [actor, setActor] = useState("");
+  const [action, setAction] = useState("");
+  const [entityType, setEntityType] = useState("all");
+  const [entityId, setEntityId] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [expandedEntry, setExpandedEntry] = useState<number | null>(null);
+
+  const params = new URLSearchParams();
+  if (actor) params.set("actor", actor);
+  if (action) params.set("action", action);
+  if (entityType !== "all") params.set("entityType", entityType);
+  if (entityId) params.set("entityId", entityId);
+  if (dateFrom) params.set("from", dateFrom);
+  if (dateTo) params.set("to", dateTo);
+
+  const { data: entries = [], isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: [`/api/audit-logs?${params.toString()}`],
+  });
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-black">Audit Log</h1>
+        <p className="mt-2 text-gray-600">Every change made to creators, payments and invoices</p>
+      </div>
+
+      <Card className="border-gray-200">
+        <div className="p-6 border-b border-gray-200 flex flex-wrap items-center gap-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+            <Input
+              placeholder="Actor email or ID..."
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              className="pl-10 w-56 border-gray-300"
+            />
+          </div>
+          <Input
+            placeholder="Action, e.g. payment_request.process"
+            value={action}
+            onChange={(e) => setAction(e.target.value)}
+            className="w-64 border-gray-300"
+          />
+          <Select value={entityType} onValueChange={setEntityType}>
+            <SelectTrigger className="w-44 border-gray-300">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All entities</SelectItem>
+              {ENTITY_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Entity ID"
+            value={entityId}
+            onChange={(e) => setEntityId(e.target.value)}
+            className="w-28 border-gray-300"
+          />
+          <Input
+            type="date"
+            aria-label="From"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="w-40 border-gray-300"
+          />
+          <Input
+            type="date"
+            aria-label="To"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="w-40 border-gray-300"
+          />
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="text-gray-600 font-medium">When</TableHead>
+              <TableHead className="text-gray-600 font-medium">Actor</TableHead>
+              <TableHead className="text-gray-600 font-medium">Action</TableHead>
+              <TableHead className="text-gray-600 font-medium">Entity</TableHead>
+              <TableHead className="text-gray-600 font-medium">Changes</TableHead>
+              <TableHead className="text-gray-600 font-medium">IP</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-gray-600">Loading...</TableCell>
+              </TableRow>
+            ) : entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-gray-600">
+                  No audit entries found
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry) => {
+                const changes = Object.entries(entry.changes ?? {});
+                const expanded = expandedEntry === entry.id;
+
+                return (
+                  <TableRow key={entry.id} className="align-top hover:bg-gray-50">
+                    <TableCell className="text-sm text-gray-600 whitespace-nowrap">
+                      {format(new Date(entry.createdAt), "d MMM yyyy HH:mm:ss")}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm text-black">{entry.actorEmail || entry.actorId || "—"}</div>
+                      <Badge className="bg-gray-100 text-gray-800 capitalize">{entry.actorType}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm font-mono text-black">{entry.action}</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {entry.entityType} #{entry.entityId}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {changes.length === 0 ? (
+                        <span className="text-gray-500">—</span>
+                      ) : (
+                        <div className="space-y-1">
+                          <button
+                            onClick={() => setExpandedEntry(expanded ? null : entry.id)}
+                            className="text-[#28ce73] hover:text-[#22b366]"
+                          >
+                            {expanded ? "Hide" : "Show"} {changes.length} field{changes.length === 1 ? "" : "s"}
+                          </button>
+                          {expanded && changes.map(([field, change]) => (
+                            <div key={field} className="text-xs">
+                              <span className="font-medium text-black">{field}: </span>
+                              <span className="text-red-700 line-through">{formatValue(change.before)}</span>
+                              {" → "}
+                              <span className="text-green-700">{formatValue(change.after)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600 font-mono">{entry.ip || "—"}</TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+}
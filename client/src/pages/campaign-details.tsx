@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Link, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CampaignModal } from "@/components/campaign-modal";
+import { CampaignBudget } from "@/components/campaign-budget";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@shared/vat-utils";
+import type { CampaignPayment, CampaignSummary } from "@shared/campaigns";
+import { ArrowLeft } from "lucide-react";
+
+type CampaignWithPayments = CampaignSummary & { payments: CampaignPayment[] };
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  claimed: "bg-blue-100 text-blue-800",
+  approved: "bg-indigo-100 text-indigo-800",
+  processing: "bg-purple-100 text-purple-800",
+  partially_paid: "bg-teal-100 text-teal-800",
+  paid: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+  rejected: "bg-red-100 text-red-800",
+  expired: "bg-gray-100 text-gray-800",
+};
+
+export default function CampaignDetails() {
+  const [, params] = useRoute("/campaigns/:id");
+  const { can } = useAuth();
+  const [modalOpen, setModalOpen] = useState(false);
+
+  const { data: campaign, isLoading } = useQuery<CampaignWithPayments>({
+    queryKey: [`/api/campaigns/${params?.id}`],
+    enabled: !!params?.id,
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-600">Loading...</div>;
+  }
+
+  if (!campaign) {
+    return <div className="text-center py-8 text-gray-600">Campaign not found</div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <Link href="/campaigns" className="inline-flex items-center text-sm text-gray-600 hover:text-black">
+            <ArrowLeft className="mr-1" size={14} />
+            Campaigns
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-black">{campaign.name}</h1>
+          <p className="mt-2 text-gray-600">
+            {campaign.brand} · {format(new Date(campaign.startDate), "d MMM yyyy")} – {format(new Date(campaign.endDate), "d MMM yyyy")}
+          </p>
+        </div>
+        {can("payments:create") && (
+          <Button
+            variant="outline"
+            onClick={() => setModalOpen(true)}
+            className="border-gray-300 text-black hover:bg-gray-50"
+          >
+            Edit Campaign
+          </Button>
+        )}
+      </div>
+
+      <Card className="border-gray-200">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-black">Budget</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CampaignBudget
+            budget={parseFloat(campaign.budget)}
+            committedAmount={campaign.committedAmount}
+            paidAmount={campaign.paidAmount}
+            currency={campaign.currency}
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="border-gray-200">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="text-gray-600 font-medium">Creator</TableHead>
+              <TableHead className="text-gray-600 font-medium">Description</TableHead>
+              <TableHead className="text-gray-600 font-medium">Amount</TableHead>
+              <TableHead className="text-gray-600 font-medium">Paid Out</TableHead>
+              <TableHead className="text-gray-600 font-medium">Status</TableHead>
+              <TableHead className="text-gray-600 font-medium">Created</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {campaign.payments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-gray-600">No payment requests in this campaign yet</TableCell>
+              </TableRow>
+            ) : (
+              campaign.payments.map((payment) => (
+                <TableRow key={payment.id} className="hover:bg-gray-50">
+                  <TableCell>
+                    <div className="text-sm font-medium text-black">{payment.creator.fullName}</div>
+                    <div className="text-sm text-gray-600">{payment.creator.email}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-black">{payment.description || "—"}</TableCell>
+                  <TableCell className="text-sm font-medium text-black">
+                    {formatCurrency(parseFloat(payment.amount), payment.currency)}
+                    <span className="text-xs text-gray-600 font-normal"> excl. VAT</span>
+                    {payment.committedAmount !== parseFloat(payment.amount) && (
+                      <div className="text-xs text-gray-600 font-normal">
+                        {formatCurrency(payment.committedAmount, payment.currency)} counts against the budget
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {payment.paidAmount > 0 ? formatCurrency(payment.paidAmount, payment.currency) : "—"}
+                    {payment.paidAt && <div className="text-xs">{format(new Date(payment.paidAt), "d MMM yyyy")}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={`${STATUS_STYLES[payment.status] ?? STATUS_STYLES.pending} capitalize`}>
+                      {payment.status.replace("_", " ")}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {payment.createdAt ? format(new Date(payment.createdAt), "d MMM yyyy") : "—"}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <CampaignModal
+        open={modalOpen}
+        onOpenChange={setModalOpen}
+        campaign={campaign}
+        hasPayments={campaign.payments.length > 0}
+      />
+    </div>
+  );
+}
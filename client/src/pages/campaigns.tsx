@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CampaignModal } from "@/components/campaign-modal";
+import { CampaignBudget } from "@/components/campaign-budget";
+import { useAuth } from "@/hooks/useAuth";
+import type { CampaignSummary } from "@shared/campaigns";
+import { Plus } from "lucide-react";
+
+export default function Campaigns() {
+  const { can } = useAuth();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editing, setEditing] = useState<CampaignSummary | null>(null);
+
+  const { data: campaigns = [], isLoading } = useQuery<CampaignSummary[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const openModal = (campaign: CampaignSummary | null) => {
+    setEditing(campaign);
+    setModalOpen(true);
+  };
+
+  const canManage = can("payments:create");
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-black">Campaigns</h1>
+          <p className="mt-2 text-gray-600">Brand campaigns and how much of their budget is spent</p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openModal(null)} className="bg-[#28ce73] hover:bg-[#22b366] text-white font-medium">
+            <Plus className="mr-2" size={16} />
+            New Campaign
+          </Button>
+        )}
+      </div>
+
+      <Card className="border-gray-200">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="text-gray-600 font-medium">Campaign</TableHead>
+              <TableHead className="text-gray-600 font-medium">Dates</TableHead>
+              <TableHead className="text-gray-600 font-medium w-1/3">Budget</TableHead>
+              <TableHead className="text-gray-600 font-medium">Payments</TableHead>
+              {canManage && <TableHead className="text-gray-600 font-medium">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-gray-600">Loading...</TableCell>
+              </TableRow>
+            ) : campaigns.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-gray-600">No campaigns yet</TableCell>
+              </TableRow>
+            ) : (
+              campaigns.map((campaign) => (
+                <TableRow key={campaign.id} className="hover:bg-gray-50">
+                  <TableCell>
+                    <Link href={`/campaigns/${campaign.id}`} className="text-sm font-medium text-black hover:underline">
+                      {campaign.name}
+                    </Link>
+                    <div className="text-sm text-gray-600">{campaign.brand}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {format(new Date(campaign.startDate), "d MMM yyyy")} – {format(new Date(campaign.endDate), "d MMM yyyy")}
+                  </TableCell>
+                  <TableCell>
+                    <CampaignBudget
+                      budget={parseFloat(campaign.budget)}
+                      committedAmount={campaign.committedAmount}
+                      paidAmount={campaign.paidAmount}
+                      currency={campaign.currency}
+                    />
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">{campaign.paymentCount}</TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openModal(campaign)}
+                        className="border-gray-300 text-black hover:bg-gray-50"
+                      >
+                        Edit
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <CampaignModal
+        open={modalOpen}
+        onOpenChange={setModalOpen}
+        campaign={editing}
+        hasPayments={!!editing && editing.paymentCount > 0}
+      />
+    </div>
+  );
+}
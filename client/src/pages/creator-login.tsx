@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertCircle, Mail } from "lucide-react";
+
+export default function CreatorLogin() {
+  const expired = new URLSearchParams(window.location.search).get('expired');
+  const [email, setEmail] = useState("");
+  const { toast } = useToast();
+
+  const loginMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/creator/login", { email });
+      return response.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-[#f5f5f5] flex items-center justify-center p-4">
+      <Card className="max-w-md w-full border border-gray-200">
+        <CardContent className="p-8">
+          <div className="w-16 h-16 bg-[#28ce73] rounded-full flex items-center justify-center mx-auto mb-6">
+            <Mail className="text-white" size={32} />
+          </div>
+          <h1 className="text-2xl font-bold text-black text-center mb-2">Creator Portal</h1>
+
+          {loginMutation.isSuccess ? (
+            <p className="text-gray-600 text-center">
+              Check your inbox. If <strong>{email}</strong> belongs to a creator account, we've sent
+              a login link. It can be used once and expires in 15 minutes.
+            </p>
+          ) : (
+            <>
+              <p className="text-gray-600 text-center mb-6">
+                Enter the email address your payments are sent to and we'll email you a login link.
+              </p>
+
+              {expired && (
+                <Alert className="bg-yellow-50 border-yellow-200 mb-4">
+                  <AlertCircle className="text-yellow-600" size={16} />
+                  <AlertDescription className="text-yellow-800">
+                    This login link has expired or was already used. Request a new one below.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  loginMutation.mutate();
+                }}
+                className="space-y-4"
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email Address</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="your@email.com"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  disabled={loginMutation.isPending || !email}
+                  className="w-full bg-[#28ce73] hover:bg-[#22b366] text-white"
+                >
+                  {loginMutation.isPending ? "Sending..." : "Email Me a Login Link"}
+                </Button>
+              </form>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,4 @@
 import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -14,7 +13,10 @@ import { z } from "zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { VAT_RATES } from "@shared/vat-utils";
+import { SUPPORTED_COUNTRIES, requiresVatIdCheck, validateVatId } from "@shared/vat-utils";
+import { TaxForm } from "@/components/tax-form";
+import type { TaxFormData, TaxFormSummary, TaxFormType } from "@shared/tax-forms";
+import type { Creator } from "@shared/schema";
 
 const businessDetailsSchema = z.object({
   companyName: z.string().min(1, "Company name is required"),
@@ -25,28 +27,35 @@ const businessDetailsSchema = z.object({
   address: z.string().min(1, "Address is required"),
   city: z.string().min(1, "City is required"),
   postalCode: z.string().min(1, "Postal code is required"),
-  vatNumber: z.string().optional(),
-  invoiceMethod: z.enum(["upload", "generate"], {
+  vatId: z.string().optional(),
+  invoiceMethod: z.enum(["auto", "manual"], {
     required_error: "Please select an invoice method",
   }),
 }).refine((data) => {
-  if (data.businessType === 'vat_registered' && !data.vatNumber) {
+  if (data.businessType === 'vat_registered' && !data.vatId) {
     return false;
   }
   return true;
 }, {
   message: "VAT number is required for VAT registered businesses",
-  path: ["vatNumber"],
+  path: ["vatId"],
+}).superRefine((data, ctx) => {
+  if (!data.vatId || !requiresVatIdCheck(data.country, data.businessType)) {
+    return;
+  }
+  const result = validateVatId(data.vatId, data.country);
+  if (!result.valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.reason, path: ["vatId"] });
+  }
 });
 
 type BusinessDetailsFormData = z.infer<typeof businessDetailsSchema>;
 
 export default function CreatorOnboarding() {
-  const [location] = useLocation();
-  const urlParams = new URLSearchParams(location.split('?')[1] || '');
+  const urlParams = new URLSearchParams(window.location.search);
   const success = urlParams.get('success');
   const refresh = urlParams.get('refresh');
-  const creatorId = urlParams.get('creator');
+  // Access token from the onboarding link; it identifies the creator
   const token = urlParams.get('token');
   
   const [currentStep, setCurrentStep] = useState(1);
@@ -63,17 +72,25 @@ export default function CreatorOnboarding() {
       address: "",
       city: "",
       postalCode: "",
-      vatNumber: "",
-      invoiceMethod: "generate",
+      vatId: "",
+      invoiceMethod: "auto",
     },
   });
 
   // Check if creator exists and load their data
-  const { data: creator } = useQuery({
-    queryKey: [`/api/creators/${creatorId}`],
-    enabled: !!creatorId,
+  const { data: creator } = useQuery<Creator>({
+    queryKey: [`/api/creator/profile?token=${token}`],
+    enabled: !!token,
   });
 
+  const { data: taxFormStatus } = useQuery<{ requiredFormType: TaxFormType | null; taxForm: TaxFormSummary | null }>({
+    queryKey: [`/api/creator/tax-form?token=${token}`],
+    enabled: !!token,
+  });
+
+  // Non-EU creators submit a W-9 or W-8 before setting up payouts
+  const needsTaxForm = !!taxFormStatus?.requiredFormType && !taxFormStatus.taxForm;
+
   useEffect(() => {
     if (creator && creator.companyName) {
       // If creator already has business details, skip to Stripe setup
@@ -83,7 +100,7 @@ export default function CreatorOnboarding() {
 
   const updateCreatorMutation = useMutation({
     mutationFn: async (data: BusinessDetailsFormData) => {
-      const response = await apiRequest("PATCH", `/api/creators/${creatorId}`, data);
+      const response = await apiRequest("PATCH", `/api/creator/profile?token=${token}`, data);
       return response.json();
     },
     onSuccess: () => {
@@ -92,7 +109,7 @@ export default function CreatorOnboarding() {
         description: "Your information has been saved successfully.",
       });
       setCurrentStep(2);
-      queryClient.invalidateQueries({ queryKey: [`/api/creators/${creatorId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/creator/profile?token=${token}`] });
     },
     onError: (error: any) => {
       toast({
@@ -103,11 +120,32 @@ export default function CreatorOnboarding() {
     },
   });
 
+  const submitTaxFormMutation = useMutation({
+    mutationFn: async (data: TaxFormData) => {
+      const response = await apiRequest("POST", `/api/creator/tax-form?token=${token}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Tax form submitted",
+        description: "Your tax information has been saved securely.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/creator/tax-form?token=${token}`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to submit tax form",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmitBusinessDetails = (data: BusinessDetailsFormData) => {
-    if (!creatorId) {
+    if (!token) {
       toast({
         title: "Error",
-        description: "Creator ID is missing from the URL",
+        description: "The onboarding link is missing its access token",
         variant: "destructive",
       });
       return;
@@ -140,27 +178,29 @@ export default function CreatorOnboarding() {
 
   const steps = [
     {
-      number: 1,
       title: "Business Details",
       description: "Provide your company information and VAT details",
       status: currentStep === 1 ? "current" : currentStep > 1 ? "completed" : "pending"
     },
+    ...(taxFormStatus?.requiredFormType ? [{
+      title: "Tax Information",
+      description: `Complete form ${taxFormStatus.requiredFormType} for US tax reporting`,
+      status: taxFormStatus.taxForm ? "completed" : currentStep === 2 ? "current" : "pending"
+    }] : []),
     {
-      number: 2,
       title: "Stripe Account",
       description: "Create your secure payment account",
-      status: currentStep === 2 ? "current" : success ? "completed" : "pending"
+      status: currentStep === 2 && !needsTaxForm ? "current" : success ? "completed" : "pending"
     },
     {
-      number: 3,
       title: "Ready to Receive",
       description: "Start receiving payments from your clients",
       status: success ? "current" : "pending"
     }
-  ];
+  ].map((step, index) => ({ ...step, number: index + 1 }));
 
-  // If no creator ID is provided, show the "Start Onboarding Process" button with proper handler
-  if (!creatorId) {
+  // Without an access token there is no creator to onboard, so only show the overview
+  if (!token) {
     return (
       <div className="min-h-screen bg-[#f5f5f5]">
         <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -321,15 +361,15 @@ export default function CreatorOnboarding() {
             </p>
             <div className="bg-[#28ce73]/10 border border-[#28ce73]/20 rounded-lg p-4 mb-6">
               <p className="text-sm text-black">
-                <strong>Next steps:</strong> You'll receive an email with your creator dashboard access 
-                and payment claim instructions.
+                <strong>Next steps:</strong> Sign in to the creator portal with your email address to follow 
+                your payment requests, download invoices and keep your business details up to date.
               </p>
             </div>
             <Button 
+              asChild
               className="bg-[#28ce73] hover:bg-[#22b366] text-white"
-              onClick={() => window.close()}
             >
-              Continue
+              <a href="/portal">Go to Creator Portal</a>
             </Button>
           </CardContent>
         </Card>
@@ -351,7 +391,7 @@ export default function CreatorOnboarding() {
             </p>
             <Button 
               className="bg-[#28ce73] hover:bg-[#22b366] text-white"
-              onClick={() => window.location.reload()}
+              onClick={() => { window.location.href = `/api/creator/stripe-onboard?token=${token}`; }}
             >
               Continue Setup
             </Button>
@@ -391,6 +431,28 @@ export default function CreatorOnboarding() {
           ))}
         </div>
 
+        {needsTaxForm && (
+          <Card className="border border-gray-200 mb-8">
+            <CardHeader>
+              <CardTitle className="text-xl font-semibold text-black">Tax Information</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TaxForm
+                formType={taxFormStatus!.requiredFormType!}
+                defaultValues={creator ? {
+                  legalName: creator.companyName || "",
+                  address: creator.address || "",
+                  city: creator.city || "",
+                  postalCode: creator.postalCode || "",
+                  country: creator.country,
+                } : undefined}
+                onSubmit={(data) => submitTaxFormMutation.mutate(data)}
+                isPending={submitTaxFormMutation.isPending}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Main Content */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Onboarding Steps */}
@@ -461,13 +523,26 @@ export default function CreatorOnboarding() {
                 </AlertDescription>
               </Alert>
 
-              <Button 
-                className="w-full bg-[#28ce73] hover:bg-[#22b366] text-white font-medium"
-                size="lg"
-              >
-                Start Onboarding Process
-                <ExternalLink className="ml-2" size={16} />
-              </Button>
+              {needsTaxForm ? (
+                <Button
+                  className="w-full bg-[#28ce73] hover:bg-[#22b366] text-white font-medium"
+                  size="lg"
+                  disabled
+                >
+                  Complete your tax information first
+                </Button>
+              ) : (
+                <Button 
+                  asChild
+                  className="w-full bg-[#28ce73] hover:bg-[#22b366] text-white font-medium"
+                  size="lg"
+                >
+                  <a href={`/api/creator/stripe-onboard?token=${token}`}>
+                    Start Onboarding Process
+                    <ExternalLink className="ml-2" size={16} />
+                  </a>
+                </Button>
+              )}
               
               <p className="text-xs text-gray-500 text-center">
                 By continuing, you agree to our Terms of Service and Privacy Policy
@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Redirect } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BusinessDetailsForm, type BusinessDetailsFormData } from "@/components/business-details-form";
+import { TaxForm } from "@/components/tax-form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { formatCurrency, formatPercent } from "@shared/vat-utils";
+import { getNetPayoutAmount, TAX_FORM_DESCRIPTIONS, type TaxFormData, type TaxFormSummary, type TaxFormType } from "@shared/tax-forms";
+import type { Creator, Invoice, PaymentRequest } from "@shared/schema";
+import { Download, LogOut } from "lucide-react";
+import { format } from "date-fns";
+
+type CreatorProfile = Omit<Creator, "accessToken" | "accessTokenExpiresAt" | "stripeAccountId">;
+
+type PortalPaymentRequest = Omit<PaymentRequest, "createdBy" | "approvedBy" | "rejectedBy"> & {
+  invoices: Invoice[];
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  claimed: "bg-blue-100 text-blue-800",
+  approved: "bg-blue-100 text-blue-800",
+  processing: "bg-purple-100 text-purple-800",
+  partially_paid: "bg-teal-100 text-teal-800",
+  paid: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+  rejected: "bg-red-100 text-red-800",
+  expired: "bg-gray-100 text-gray-800",
+};
+
+function formatDate(date: string | Date | null) {
+  return date ? format(new Date(date), "d MMM yyyy") : "—";
+}
+
+export default function CreatorPortal() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: creator, isLoading } = useQuery<CreatorProfile | null>({
+    queryKey: ["/api/creator/profile"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { data: requests = [] } = useQuery<PortalPaymentRequest[]>({
+    queryKey: ["/api/creator/payment-requests"],
+    enabled: !!creator,
+  });
+
+  const { data: taxFormStatus } = useQuery<{ requiredFormType: TaxFormType | null; taxForm: TaxFormSummary | null }>({
+    queryKey: ["/api/creator/tax-form"],
+    enabled: !!creator,
+  });
+  const [isEditingTaxForm, setIsEditingTaxForm] = useState(false);
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (data: BusinessDetailsFormData) => {
+      const response = await apiRequest("PATCH", "/api/creator/profile", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/creator/profile"] });
+      toast({
+        title: "Details Saved",
+        description: "Your business details have been updated.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitTaxFormMutation = useMutation({
+    mutationFn: async (data: TaxFormData) => {
+      const response = await apiRequest("POST", "/api/creator/tax-form", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/creator/tax-form"] });
+      setIsEditingTaxForm(false);
+      toast({
+        title: "Tax Form Submitted",
+        description: "Your tax information has been saved securely.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/creator/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/creator/profile"], null);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-[#f5f5f5] flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-[#28ce73] border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!creator) {
+    return <Redirect to="/portal/login" />;
+  }
+
+  const invoices = requests.flatMap((request) => request.invoices);
+  const payouts = requests.filter((request) => request.paidAt);
+
+  return (
+    <div className="min-h-screen bg-[#f5f5f5]">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-black">Hi {creator.fullName}</h1>
+            <p className="mt-2 text-gray-600">Your payments, invoices and payouts</p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => logoutMutation.mutate()}
+            className="border-gray-300 text-black hover:bg-gray-50"
+          >
+            <LogOut size={16} className="mr-2" />
+            Sign Out
+          </Button>
+        </div>
+
+        <Card className="border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-black">Payment Requests</h2>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className="text-gray-600 font-medium">Description</TableHead>
+                <TableHead className="text-gray-600 font-medium">Amount</TableHead>
+                <TableHead className="text-gray-600 font-medium">Status</TableHead>
+                <TableHead className="text-gray-600 font-medium">Created</TableHead>
+                <TableHead className="text-right text-gray-600 font-medium">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-gray-600">
+                    No payment requests yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                requests.map((request) => (
+                  <TableRow key={request.id} className="hover:bg-gray-50">
+                    <TableCell className="text-sm text-black">{request.description || `Payment #${request.id}`}</TableCell>
+                    <TableCell className="text-sm font-medium text-black">
+                      {formatCurrency(parseFloat(request.totalAmount), request.currency)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={`${STATUS_STYLES[request.status] ?? STATUS_STYLES.pending} capitalize`}>
+                        {request.status.replace('_', ' ')}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{formatDate(request.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      {request.status === "pending" && request.claimToken && (
+                        <Button asChild size="sm" className="bg-[#28ce73] hover:bg-[#22b366] text-white">
+                          <a href={`/claim/${request.claimToken}`}>Claim</a>
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Card className="border-gray-200">
+            <div className="p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-black">Invoices</h2>
+            </div>
+            <div className="p-6 space-y-3">
+              {invoices.length === 0 ? (
+                <p className="text-sm text-gray-600">No invoices yet</p>
+              ) : (
+                invoices.map((invoice) => (
+                  <div key={invoice.id} className="flex items-center justify-between">
+                    <div>
+                      <div className="text-sm font-medium text-black">
+                        {invoice.invoiceNumber || invoice.filename || `Invoice #${invoice.id}`}
+                      </div>
+                      <div className="text-xs text-gray-600 capitalize">
+                        {invoice.type.replace('_', ' ')} · {formatDate(invoice.createdAt)}
+                      </div>
+                    </div>
+                    {invoice.fileUrl && (
+                      <Button asChild variant="outline" size="sm" className="border-gray-300 text-black hover:bg-gray-50">
+                        <a href={`/api/creator/invoices/${invoice.id}/download`}>
+                          <Download size={14} className="mr-1" />
+                          Download
+                        </a>
+                      </Button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </Card>
+
+          <Card className="border-gray-200">
+            <div className="p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-black">Payout History</h2>
+            </div>
+            <div className="p-6 space-y-3">
+              {payouts.length === 0 ? (
+                <p className="text-sm text-gray-600">No payouts yet</p>
+              ) : (
+                payouts.map((payout) => (
+                  <div key={payout.id} className="flex items-center justify-between">
+                    <div>
+                      <div className="text-sm font-medium text-black">
+                        {formatCurrency(getNetPayoutAmount(payout), payout.currency)}
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        {payout.description || `Payment #${payout.id}`} · {formatDate(payout.paidAt)}
+                      </div>
+                    </div>
+                    <Badge className={`${STATUS_STYLES[payout.status] ?? STATUS_STYLES.paid} capitalize`}>
+                      {payout.status}
+                    </Badge>
+                  </div>
+                ))
+              )}
+            </div>
+          </Card>
+        </div>
+
+        <Card className="border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-black">Business Details</h2>
+            <p className="text-sm text-gray-600">Used on your invoices and for VAT. Contact us to change your email address.</p>
+          </div>
+          <div className="p-6">
+            <BusinessDetailsForm
+              defaultValues={{
+                fullName: creator.fullName,
+                country: creator.country,
+                businessType: creator.businessType as BusinessDetailsFormData["businessType"],
+                vatId: creator.vatId || "",
+                smallBusinessScheme: creator.smallBusinessScheme,
+                companyName: creator.companyName || "",
+                address: creator.address || "",
+                city: creator.city || "",
+                postalCode: creator.postalCode || "",
+                invoiceMethod: creator.invoiceMethod as BusinessDetailsFormData["invoiceMethod"],
+                selfBillingConsent: !!creator.selfBillingConsentAt,
+                language: creator.language,
+              }}
+              onSubmit={(data) => updateProfileMutation.mutate(data)}
+              isPending={updateProfileMutation.isPending}
+            />
+          </div>
+        </Card>
+
+        {taxFormStatus?.requiredFormType && (
+          <Card className="border-gray-200">
+            <div className="p-6 border-b border-gray-200 flex items-start justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-black">Tax Information</h2>
+                <p className="text-sm text-gray-600">
+                  Form {TAX_FORM_DESCRIPTIONS[taxFormStatus.requiredFormType]}. Without it, tax is withheld from your payouts.
+                </p>
+              </div>
+              {taxFormStatus.taxForm && !isEditingTaxForm && (
+                <Button
+                  variant="outline"
+                  onClick={() => setIsEditingTaxForm(true)}
+                  className="border-gray-300 text-black hover:bg-gray-50"
+                >
+                  Submit New Form
+                </Button>
+              )}
+            </div>
+            <div className="p-6">
+              {taxFormStatus.taxForm && !isEditingTaxForm ? (
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="text-gray-600">Form:</span>
+                    <div className="font-medium text-black">{taxFormStatus.taxForm.formType}</div>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Name:</span>
+                    <div className="font-medium text-black">{taxFormStatus.taxForm.legalName}</div>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Tax ID:</span>
+                    <div className="font-medium text-black">
+                      {taxFormStatus.taxForm.tinLast4 ? `•••• ${taxFormStatus.taxForm.tinLast4}` : "—"}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Treaty Rate:</span>
+                    <div className="font-medium text-black">
+                      {taxFormStatus.taxForm.treatyRate !== null ? formatPercent(parseFloat(taxFormStatus.taxForm.treatyRate)) : "—"}
+                    </div>
+                  </div>
+                  <div className="col-span-2">
+                    <span className="text-gray-600">Signed:</span>
+                    <div className="font-medium text-black">
+                      {taxFormStatus.taxForm.signatureName} · {formatDate(taxFormStatus.taxForm.signedAt)}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <TaxForm
+                  formType={taxFormStatus.requiredFormType}
+                  defaultValues={{
+                    legalName: creator.companyName || creator.fullName,
+                    address: creator.address || "",
+                    city: creator.city || "",
+                    postalCode: creator.postalCode || "",
+                    country: creator.country,
+                  }}
+                  onSubmit={(data) => submitTaxFormMutation.mutate(data)}
+                  isPending={submitTaxFormMutation.isPending}
+                />
+              )}
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
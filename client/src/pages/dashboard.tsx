@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -7,14 +7,22 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Euro, Users, Clock, CheckCircle, Search, Filter, Download, Send } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { PaymentDetailsModal } from "@/components/payment-details-modal";
+import { BatchPayoutModal, type BatchPayoutReport } from "@/components/batch-payout-modal";
+import { ApprovalQueue } from "@/components/approval-queue";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { Wallet, Users, Clock, CheckCircle, Search, Filter, Download, Send, Loader2, Bell } from "lucide-react";
 import { formatCurrency } from "@shared/vat-utils";
 import { formatDistanceToNow } from "date-fns";
 
 interface DashboardStats {
-  totalPayouts: string;
+  totalPayouts: Record<string, string>; // Paid totals per currency
   activeCreators: number;
   pendingPayments: number;
+  overduePayments: number;
   successRate: string;
 }
 
@@ -23,21 +31,38 @@ interface PaymentWithCreator {
   amount: string;
   vatAmount: string;
   totalAmount: string;
+  withholdingRate: string;
+  withholdingAmount: string;
+  currency: string;
+  stripeTransferId: string | null;
   status: string;
   description: string;
   createdAt: string;
+  claimToken: string | null;
+  claimLinkState: "active" | "expired" | "revoked";
+  claimTokenExpiresAt: string;
+  dueDate: string | null;
+  isOverdue: boolean;
   creator: {
     id: number;
     fullName: string;
     email: string;
     country: string;
+    selfBillingConsentAt: string | null;
   };
 }
 
 export default function Dashboard() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [searchTerm, setSearchTerm] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
   const [selectedPayments, setSelectedPayments] = useState<number[]>([]);
+  const [detailsPayment, setDetailsPayment] = useState<PaymentWithCreator | null>(null);
+  const [batchReport, setBatchReport] = useState<BatchPayoutReport | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
 
   const { data: stats, isLoading: statsLoading } = useQuery<DashboardStats>({
     queryKey: ["/api/dashboard/stats"],
@@ -51,20 +76,85 @@ export default function Dashboard() {
     const matchesStatus = statusFilter === "all" || payment.status === statusFilter;
     const matchesSearch = payment.creator.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          payment.creator.email.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesStatus && matchesSearch;
+    const createdDate = payment.createdAt.slice(0, 10);
+    const matchesDate = (!dateFrom || createdDate >= dateFrom) && (!dateTo || createdDate <= dateTo);
+    return matchesStatus && matchesSearch && matchesDate;
   });
 
+  // The export uses the same filters as the table
+  const handleExport = (format: "csv" | "xlsx") => {
+    const params = new URLSearchParams({ format });
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    if (searchTerm) params.set("search", searchTerm);
+    if (dateFrom) params.set("from", dateFrom);
+    if (dateTo) params.set("to", dateTo);
+    window.location.href = `/api/payment-requests/export?${params.toString()}`;
+  };
+
+  const batchPayoutMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const response = await apiRequest("POST", "/api/payment-requests/batch-process", { ids });
+      return response.json() as Promise<BatchPayoutReport>;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setSelectedPayments([]);
+      setBatchReport(report);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const remindersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/reminders/run");
+      return response.json() as Promise<{ sent: number }>;
+    },
+    onSuccess: ({ sent }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-requests"] });
+      toast({
+        title: "Reminders Sent",
+        description: sent > 0 ? `${sent} reminder(s) queued.` : "No reminders were due.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const creatorNames = Object.fromEntries(
+    paymentRequests.map((payment) => [payment.id, payment.creator.fullName]),
+  );
+
   const getStatusBadge = (status: string) => {
     const variants = {
       pending: "bg-yellow-100 text-yellow-800",
       claimed: "bg-blue-100 text-blue-800", 
+      approved: "bg-indigo-100 text-indigo-800",
+      processing: "bg-purple-100 text-purple-800",
+      partially_paid: "bg-teal-100 text-teal-800",
       paid: "bg-green-100 text-green-800",
       failed: "bg-red-100 text-red-800",
+      cancelled: "bg-gray-100 text-gray-800",
+      rejected: "bg-red-100 text-red-800",
+      expired: "bg-gray-100 text-gray-800",
     };
 
     const icons = {
       pending: <Clock size={12} className="mr-1" />,
       claimed: <Send size={12} className="mr-1" />,
+      approved: <CheckCircle size={12} className="mr-1" />,
+      processing: <Loader2 size={12} className="mr-1 animate-spin" />,
       paid: <CheckCircle size={12} className="mr-1" />,
       failed: <span className="mr-1">✗</span>,
     };
@@ -72,7 +162,7 @@ export default function Dashboard() {
     return (
       <Badge className={`${variants[status as keyof typeof variants] || variants.pending} capitalize`}>
         {icons[status as keyof typeof icons]}
-        {status}
+        {status.replace('_', ' ')}
       </Badge>
     );
   };
@@ -102,10 +192,32 @@ export default function Dashboard() {
           <p className="mt-2 text-gray-600">Manage creator payouts and track payment status</p>
         </div>
         <div className="mt-4 sm:mt-0 flex space-x-3">
-          <Button variant="outline" className="border-gray-300 text-black hover:bg-gray-50">
-            <Download className="mr-2" size={16} />
-            Export
-          </Button>
+          {/* Runs the reminder job for every due request and onboarding, not just the selection */}
+          {can("payments:create") && (
+            <Button
+              variant="outline"
+              onClick={() => remindersMutation.mutate()}
+              disabled={remindersMutation.isPending}
+              className="border-gray-300 text-black hover:bg-gray-50"
+            >
+              <Bell className="mr-2" size={16} />
+              {remindersMutation.isPending ? "Sending..." : "Send Due Reminders"}
+            </Button>
+          )}
+          {can("payments:export") && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="border-gray-300 text-black hover:bg-gray-50">
+                  <Download className="mr-2" size={16} />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport("csv")}>Export as CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("xlsx")}>Export as Excel (XLSX)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
       </div>
 
@@ -116,12 +228,18 @@ export default function Dashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-gray-600 text-sm font-medium">Total Payouts</p>
-                <p className="text-2xl font-bold text-black mt-1">
-                  {stats ? formatCurrency(parseFloat(stats.totalPayouts)) : "€0.00"}
-                </p>
+                {stats && Object.keys(stats.totalPayouts).length > 0 ? (
+                  Object.entries(stats.totalPayouts).map(([currency, total]) => (
+                    <p key={currency} className="text-2xl font-bold text-black mt-1">
+                      {formatCurrency(parseFloat(total), currency)}
+                    </p>
+                  ))
+                ) : (
+                  <p className="text-2xl font-bold text-black mt-1">{formatCurrency(0)}</p>
+                )}
               </div>
               <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
-                <Euro className="text-green-600" size={20} />
+                <Wallet className="text-green-600" size={20} />
               </div>
             </div>
             <div className="flex items-center mt-4 text-sm">
@@ -160,6 +278,12 @@ export default function Dashboard() {
                 <Clock className="text-yellow-600" size={20} />
               </div>
             </div>
+            {!!stats?.overduePayments && (
+              <div className="flex items-center mt-4 text-sm">
+                <span className="text-red-600">{stats.overduePayments}</span>
+                <span className="text-gray-600 ml-2">overdue</span>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -178,6 +302,8 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {can("payments:approve") && <ApprovalQueue />}
+
       {/* Payment Requests Table */}
       <Card className="border-gray-200">
         <div className="p-6 border-b border-gray-200">
@@ -193,16 +319,36 @@ export default function Dashboard() {
                   className="pl-10 w-64 border-gray-300 focus:ring-[#28ce73] focus:border-transparent"
                 />
               </div>
+              <Input
+                type="date"
+                aria-label="Created from"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="w-40 border-gray-300"
+              />
+              <Input
+                type="date"
+                aria-label="Created to"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="w-40 border-gray-300"
+              />
               <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger className="w-32 border-gray-300">
+                <SelectTrigger className="w-36 border-gray-300">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="claimed">Claimed</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="processing">Processing</SelectItem>
+                  <SelectItem value="partially_paid">Partially Paid</SelectItem>
                   <SelectItem value="paid">Paid</SelectItem>
                   <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="expired">Expired</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -257,14 +403,17 @@ export default function Dashboard() {
                   </TableCell>
                   <TableCell>
                     <div className="text-sm font-medium text-black">
-                      {formatCurrency(parseFloat(payment.totalAmount))}
+                      {formatCurrency(parseFloat(payment.totalAmount), payment.currency)}
                     </div>
                     <div className="text-sm text-gray-600">
-                      VAT: {formatCurrency(parseFloat(payment.vatAmount))}
+                      VAT: {formatCurrency(parseFloat(payment.vatAmount), payment.currency)}
                     </div>
                   </TableCell>
                   <TableCell>
                     {getStatusBadge(payment.status)}
+                    {payment.isOverdue && (
+                      <Badge className="ml-2 bg-red-100 text-red-800">Overdue</Badge>
+                    )}
                   </TableCell>
                   <TableCell className="text-sm text-gray-600">
                     {formatDistanceToNow(new Date(payment.createdAt), { addSuffix: true })}
@@ -273,7 +422,12 @@ export default function Dashboard() {
                     {payment.creator.country}
                   </TableCell>
                   <TableCell className="text-right">
-                    <Button variant="ghost" size="sm" className="text-[#28ce73] hover:text-[#22b366]">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDetailsPayment(payment)}
+                      className="text-[#28ce73] hover:text-[#22b366]"
+                    >
                       View Details
                     </Button>
                   </TableCell>
@@ -286,12 +440,15 @@ export default function Dashboard() {
         {selectedPayments.length > 0 && (
           <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
             <div className="flex items-center space-x-2">
-              <Button className="bg-[#28ce73] hover:bg-[#22b366] text-white">
-                Process Selected ({selectedPayments.length})
-              </Button>
-              <Button variant="outline" className="border-gray-300 text-black hover:bg-gray-50">
-                Send Reminders
-              </Button>
+              {can("payments:process") && (
+                <Button
+                  onClick={() => batchPayoutMutation.mutate(selectedPayments)}
+                  disabled={batchPayoutMutation.isPending}
+                  className="bg-[#28ce73] hover:bg-[#22b366] text-white"
+                >
+                  {batchPayoutMutation.isPending ? "Processing..." : `Pay Selected (${selectedPayments.length})`}
+                </Button>
+              )}
             </div>
             <div className="flex items-center space-x-2 text-sm text-gray-600">
               <span>Page 1 of {Math.ceil(filteredPayments.length / 10)}</span>
@@ -305,6 +462,17 @@ export default function Dashboard() {
           </div>
         )}
       </Card>
+
+      <PaymentDetailsModal
+        payment={detailsPayment}
+        onOpenChange={(open) => !open && setDetailsPayment(null)}
+      />
+
+      <BatchPayoutModal
+        report={batchReport}
+        creatorNames={creatorNames}
+        onOpenChange={(open) => !open && setBatchReport(null)}
+      />
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useRoute } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -13,10 +13,14 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SelfBillingTerms } from "@/components/self-billing-terms";
+import { InstallmentSchedule, type InstallmentEntry } from "@/components/installment-schedule";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { formatCurrency, calculateVAT, VAT_RATES } from "@shared/vat-utils";
+import { formatCurrency, formatPercent, SUPPORTED_COUNTRIES, requiresVatIdCheck, validateVatId } from "@shared/vat-utils";
+import { calculateVAT } from "@shared/vat-rules";
 import { 
   CheckCircle, 
   AlertCircle, 
@@ -29,7 +33,8 @@ import {
   FileText,
   Download,
   ArrowRight,
-  Info
+  Info,
+  Clock
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
@@ -42,6 +47,10 @@ const creatorInfoSchema = z.object({
   vatId: z.string().optional(),
   companyName: z.string().optional(),
   invoiceMethod: z.enum(["auto", "manual"]),
+  selfBillingConsent: z.boolean(),
+}).refine((data) => data.invoiceMethod !== 'auto' || data.selfBillingConsent, {
+  message: "Agree to self-billing to have invoices generated for you",
+  path: ["selfBillingConsent"],
 }).refine((data) => {
   if (data.businessType === 'vat_registered' && !data.vatId) {
     return false;
@@ -50,11 +59,43 @@ const creatorInfoSchema = z.object({
 }, {
   message: "VAT ID is required for VAT registered businesses",
   path: ["vatId"],
+}).superRefine((data, ctx) => {
+  if (!data.vatId || !requiresVatIdCheck(data.country, data.businessType)) {
+    return;
+  }
+  const result = validateVatId(data.vatId, data.country);
+  if (!result.valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.reason, path: ["vatId"] });
+  }
 });
 
 type CreatorInfoFormData = z.infer<typeof creatorInfoSchema>;
 
-const COUNTRIES = VAT_RATES.map(rate => ({ value: rate.country, label: rate.countryName }));
+interface ClaimInvoice {
+  id: number;
+  type: string;
+  invoiceNumber: string | null;
+  filename: string | null;
+  aiValidationStatus: string | null;
+  createdAt: string;
+}
+
+interface ClaimData {
+  paymentRequest: any;
+  creator: any;
+  invoices: ClaimInvoice[];
+  installments: InstallmentEntry[];
+}
+
+// Expired and revoked claim links come back as a 410 with the reason
+function getClaimLinkProblem(error: Error | null): "expired" | "revoked" | null {
+  if (!error?.message.startsWith("410:")) {
+    return null;
+  }
+  return error.message.includes('"revoked"') ? "revoked" : "expired";
+}
+
+const COUNTRIES = SUPPORTED_COUNTRIES.map(country => ({ value: country.country, label: country.countryName }));
 
 const BUSINESS_TYPES = [
   { value: "individual", label: "Individual/Freelancer", description: "Personal freelancer or individual" },
@@ -68,6 +109,7 @@ export default function PaymentClaim() {
   const [step, setStep] = useState<'info' | 'claim' | 'complete'>('info');
   const [creatorInfo, setCreatorInfo] = useState<CreatorInfoFormData | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const form = useForm<CreatorInfoFormData>({
     resolver: zodResolver(creatorInfoSchema),
@@ -79,18 +121,20 @@ export default function PaymentClaim() {
       vatId: "",
       companyName: "",
       invoiceMethod: "auto",
+      selfBillingConsent: false,
     },
   });
+  const [selfBillingConsent, setSelfBillingConsent] = useState(false);
 
-  const { data: claimData, isLoading, error } = useQuery({
+  const { data: claimData, isLoading, error } = useQuery<ClaimData>({
     queryKey: [`/api/claim/${params?.token}`],
     enabled: !!params?.token,
   });
 
   const submitCreatorInfoMutation = useMutation({
     mutationFn: async (data: CreatorInfoFormData) => {
-      // Create or update creator with the information
-      const response = await apiRequest("POST", "/api/creators", data);
+      // Update the creator's business details for this claim
+      const response = await apiRequest("PATCH", `/api/claim/${params?.token}/creator`, data);
       return response.json();
     },
     onSuccess: (data) => {
@@ -112,11 +156,12 @@ export default function PaymentClaim() {
 
   const claimPaymentMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", `/api/claim/${params?.token}`);
+      const response = await apiRequest("POST", `/api/claim/${params?.token}`, { selfBillingConsent });
       return response.json();
     },
     onSuccess: () => {
       setStep('complete');
+      queryClient.invalidateQueries({ queryKey: [`/api/claim/${params?.token}`] });
       toast({
         title: "Payment Claimed",
         description: "You have successfully claimed this payment. You'll receive it once processed.",
@@ -131,11 +176,25 @@ export default function PaymentClaim() {
     },
   });
 
+  const renewLinkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/claim/${params?.token}/renew`);
+      return response.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const uploadInvoiceMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append('invoice', file);
-      const response = await fetch(`/api/payment-requests/${claimData?.paymentRequest.id}/invoice`, {
+      const response = await fetch(`/api/claim/${params?.token}/invoice`, {
         method: 'POST',
         body: formData,
         credentials: 'include',
@@ -146,6 +205,7 @@ export default function PaymentClaim() {
       return response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/claim/${params?.token}`] });
       toast({
         title: "Invoice Uploaded",
         description: "Your invoice has been uploaded and will be validated.",
@@ -182,6 +242,54 @@ export default function PaymentClaim() {
     );
   }
 
+  const claimLinkProblem = getClaimLinkProblem(error);
+  if (claimLinkProblem) {
+    return (
+      <div className="min-h-screen bg-[#f5f5f5] flex items-center justify-center p-4">
+        <Card className="max-w-md w-full border border-gray-200">
+          <CardContent className="p-6 text-center">
+            <Clock className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            {claimLinkProblem === "expired" ? (
+              <>
+                <h1 className="text-xl font-bold text-black mb-2">This Link Has Expired</h1>
+                {renewLinkMutation.isSuccess ? (
+                  <p className="text-gray-600">
+                    We've emailed you a new link. Check your inbox and use the new link to continue.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-gray-600 mb-6">
+                      For your security, claim links only work for a limited time. Request a new link
+                      and we'll email it to the address we have on file.
+                    </p>
+                    <Button
+                      onClick={() => renewLinkMutation.mutate()}
+                      disabled={renewLinkMutation.isPending}
+                      className="w-full bg-[#28ce73] hover:bg-[#22b366] text-white"
+                    >
+                      {renewLinkMutation.isPending ? "Sending..." : "Email Me a New Link"}
+                    </Button>
+                  </>
+                )}
+              </>
+            ) : (
+              <>
+                <h1 className="text-xl font-bold text-black mb-2">This Link Is No Longer Valid</h1>
+                <p className="text-gray-600">
+                  This claim link has been revoked. Please contact the sender of the payment for a new link.
+                </p>
+              </>
+            )}
+            <p className="text-sm text-gray-600 mt-6">
+              You can also see all your payments in the{" "}
+              <a href="/portal/login" className="text-[#28ce73] hover:text-[#22b366]">creator portal</a>.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (error || !claimData) {
     return (
       <div className="min-h-screen bg-[#f5f5f5] flex items-center justify-center p-4">
@@ -198,7 +306,7 @@ export default function PaymentClaim() {
     );
   }
 
-  const { paymentRequest, creator } = claimData;
+  const { paymentRequest, creator, invoices, installments } = claimData;
 
   // Check if creator already exists - if so, skip info step
   useEffect(() => {
@@ -211,6 +319,7 @@ export default function PaymentClaim() {
         vatId: creator.vatId || "",
         companyName: creator.companyName || "",
         invoiceMethod: creator.invoiceMethod,
+        selfBillingConsent: !!creator.selfBillingConsentAt,
       });
       setStep('claim');
     }
@@ -227,24 +336,42 @@ export default function PaymentClaim() {
     vatId: creator.vatId || "",
     companyName: creator.companyName || "",
     invoiceMethod: creator.invoiceMethod,
+    selfBillingConsent: !!creator.selfBillingConsentAt,
   } : null);
 
+  // Rules in force when the request was created, so the preview matches its stored rate
+  const vatContext = {
+    serviceType: paymentRequest.serviceType,
+    smallBusinessScheme: creator?.smallBusinessScheme,
+    date: new Date(paymentRequest.createdAt),
+  };
   const vatCalculation = activeCreatorInfo 
-    ? calculateVAT(parseFloat(paymentRequest.amount), activeCreatorInfo.country, activeCreatorInfo.businessType)
+    ? calculateVAT(parseFloat(paymentRequest.amount), { ...vatContext, country: activeCreatorInfo.country, businessType: activeCreatorInfo.businessType })
     : watchedCountry && watchedBusinessType
-    ? calculateVAT(parseFloat(paymentRequest.amount), watchedCountry, watchedBusinessType)
+    ? calculateVAT(parseFloat(paymentRequest.amount), { ...vatContext, country: watchedCountry, businessType: watchedBusinessType })
     : null;
 
   const totalAmount = vatCalculation 
     ? parseFloat(paymentRequest.amount) + vatCalculation.amount 
     : parseFloat(paymentRequest.amount);
+  const withholdingAmount = parseFloat(paymentRequest.withholdingAmount);
+
+  // Generated invoices are self-billed, which needs the creator's agreement
+  const needsSelfBillingConsent = paymentRequest.status === 'pending' &&
+    activeCreatorInfo?.invoiceMethod === 'auto' && !activeCreatorInfo.selfBillingConsent;
 
   const getStatusBadge = (status: string) => {
     const variants = {
       pending: { className: "bg-yellow-100 text-yellow-800", icon: AlertCircle },
       claimed: { className: "bg-blue-100 text-blue-800", icon: CheckCircle },
+      approved: { className: "bg-blue-100 text-blue-800", icon: CheckCircle },
+      processing: { className: "bg-purple-100 text-purple-800", icon: Clock },
+      partially_paid: { className: "bg-teal-100 text-teal-800", icon: Clock },
       paid: { className: "bg-green-100 text-green-800", icon: CheckCircle },
       failed: { className: "bg-red-100 text-red-800", icon: AlertCircle },
+      cancelled: { className: "bg-gray-100 text-gray-800", icon: AlertCircle },
+      rejected: { className: "bg-red-100 text-red-800", icon: AlertCircle },
+      expired: { className: "bg-gray-100 text-gray-800", icon: AlertCircle },
     };
 
     const variant = variants[status as keyof typeof variants] || variants.pending;
@@ -253,7 +380,7 @@ export default function PaymentClaim() {
     return (
       <Badge className={`${variant.className} capitalize`}>
         <Icon size={12} className="mr-1" />
-        {status}
+        {status.replace('_', ' ')}
       </Badge>
     );
   };
@@ -465,7 +592,7 @@ export default function PaymentClaim() {
                               <FormItem>
                                 <FormLabel>VAT ID *</FormLabel>
                                 <FormControl>
-                                  <Input {...field} placeholder="e.g., NL123456789B01" />
+                                  <Input {...field} placeholder="e.g., NL004495445B01" />
                                 </FormControl>
                                 <FormMessage />
                               </FormItem>
@@ -514,6 +641,26 @@ export default function PaymentClaim() {
                         </FormItem>
                       )}
                     />
+                    {form.watch("invoiceMethod") === 'auto' && (
+                      <FormField
+                        control={form.control}
+                        name="selfBillingConsent"
+                        render={({ field }) => (
+                          <FormItem className="space-y-3">
+                            <SelfBillingTerms />
+                            <div className="flex items-start space-x-3">
+                              <FormControl>
+                                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                              </FormControl>
+                              <div className="space-y-1">
+                                <FormLabel>I agree that invoices are issued on my behalf (self-billing)</FormLabel>
+                                <FormMessage />
+                              </div>
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                    )}
                   </div>
 
                   {/* VAT Preview */}
@@ -522,7 +669,7 @@ export default function PaymentClaim() {
                       <Info className="text-blue-600" size={16} />
                       <AlertDescription className="text-blue-800">
                         <strong>VAT Calculation Preview:</strong> {vatCalculation.note}<br />
-                        Payment: {formatCurrency(parseFloat(paymentRequest.amount))} + VAT: {formatCurrency(vatCalculation.amount)} = Total: {formatCurrency(totalAmount)}
+                        Payment: {formatCurrency(parseFloat(paymentRequest.amount), paymentRequest.currency)} + VAT: {formatCurrency(vatCalculation.amount, paymentRequest.currency)} = Total: {formatCurrency(totalAmount, paymentRequest.currency)}
                       </AlertDescription>
                     </Alert>
                   )}
@@ -738,6 +885,51 @@ export default function PaymentClaim() {
                 </CardContent>
               </Card>
             )}
+
+            {/* Installments */}
+            {installments.length > 0 && (
+              <Card className="border border-gray-200">
+                <CardHeader>
+                  <CardTitle>Payment Schedule</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-gray-600 mb-4">
+                    This payment is paid out in {installments.length} installments, each transferred separately.
+                  </p>
+                  <InstallmentSchedule installments={installments} currency={paymentRequest.currency} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Invoices */}
+            {invoices.length > 0 && (
+              <Card className="border border-gray-200">
+                <CardHeader>
+                  <CardTitle>Invoices</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {invoices.map((invoice) => (
+                    <div key={invoice.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center">
+                        <FileText className="mr-2 text-gray-600" size={16} />
+                        <div>
+                          <p className="text-sm text-black">{invoice.invoiceNumber || invoice.filename}</p>
+                          <p className="text-xs text-gray-600">
+                            {invoice.type === 'generated' ? 'Generated for you' : 'Uploaded'}
+                          </p>
+                        </div>
+                      </div>
+                      <Button asChild variant="outline" size="sm" className="border-gray-300 text-black hover:bg-gray-50">
+                        <a href={`/api/claim/${params?.token}/invoices/${invoice.id}/download`}>
+                          Download
+                          <Download className="ml-2" size={14} />
+                        </a>
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Sidebar */}
@@ -752,14 +944,14 @@ export default function PaymentClaim() {
                   <div className="flex justify-between">
                     <span className="text-gray-600">Base Amount:</span>
                     <span className="text-black font-medium">
-                      {formatCurrency(parseFloat(paymentRequest.amount))}
+                      {formatCurrency(parseFloat(paymentRequest.amount), paymentRequest.currency)}
                     </span>
                   </div>
                   {vatCalculation && (
                     <div className="flex justify-between">
-                      <span className="text-gray-600">VAT ({vatCalculation.rate}%):</span>
+                      <span className="text-gray-600">VAT ({formatPercent(vatCalculation.rate)}):</span>
                       <span className="text-black font-medium">
-                        {formatCurrency(vatCalculation.amount)}
+                        {formatCurrency(vatCalculation.amount, paymentRequest.currency)}
                       </span>
                     </div>
                   )}
@@ -767,15 +959,50 @@ export default function PaymentClaim() {
                   <div className="flex justify-between text-lg font-semibold">
                     <span className="text-black">Total Amount:</span>
                     <span className="text-black">
-                      {formatCurrency(totalAmount)}
+                      {formatCurrency(totalAmount, paymentRequest.currency)}
                     </span>
                   </div>
+                  {withholdingAmount > 0 && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Tax Withholding ({formatPercent(parseFloat(paymentRequest.withholdingRate))}):</span>
+                        <span className="text-black font-medium">
+                          -{formatCurrency(withholdingAmount, paymentRequest.currency)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between font-semibold">
+                        <span className="text-black">Payout:</span>
+                        <span className="text-black">
+                          {formatCurrency(totalAmount - withholdingAmount, paymentRequest.currency)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        US tax withheld on the amount before VAT, based on your tax form.
+                      </p>
+                    </>
+                  )}
                 </div>
 
+                {needsSelfBillingConsent && (
+                  <div className="space-y-3">
+                    <SelfBillingTerms />
+                    <div className="flex items-start space-x-3">
+                      <Checkbox
+                        id="selfBillingConsent"
+                        checked={selfBillingConsent}
+                        onCheckedChange={(checked) => setSelfBillingConsent(checked === true)}
+                      />
+                      <Label htmlFor="selfBillingConsent" className="text-sm">
+                        I agree that invoices are issued on my behalf (self-billing)
+                      </Label>
+                    </div>
+                  </div>
+                )}
+
                 {paymentRequest.status === 'pending' && (
                   <Button
                     onClick={() => claimPaymentMutation.mutate()}
-                    disabled={claimPaymentMutation.isPending}
+                    disabled={claimPaymentMutation.isPending || (needsSelfBillingConsent && !selfBillingConsent)}
                     className="w-full bg-[#28ce73] hover:bg-[#22b366] text-white font-medium"
                     size="lg"
                   >
@@ -783,7 +1010,7 @@ export default function PaymentClaim() {
                   </Button>
                 )}
 
-                {paymentRequest.status === 'claimed' && (
+                {['claimed', 'approved', 'processing', 'partially_paid'].includes(paymentRequest.status) && (
                   <Alert className="bg-blue-50 border-blue-200">
                     <CheckCircle className="text-blue-600" size={16} />
                     <AlertDescription className="text-blue-800">
@@ -800,6 +1027,25 @@ export default function PaymentClaim() {
                     </AlertDescription>
                   </Alert>
                 )}
+
+                {paymentRequest.status === 'rejected' && (
+                  <Alert className="bg-red-50 border-red-200">
+                    <AlertCircle className="text-red-600" size={16} />
+                    <AlertDescription className="text-red-800">
+                      This payment request was rejected{paymentRequest.rejectionReason && `: ${paymentRequest.rejectionReason}`}.
+                      Please contact us if you have questions.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {['cancelled', 'expired'].includes(paymentRequest.status) && (
+                  <Alert className="bg-gray-50 border-gray-200">
+                    <AlertCircle className="text-gray-600" size={16} />
+                    <AlertDescription className="text-gray-800">
+                      This payment request is {paymentRequest.status} and can no longer be claimed.
+                    </AlertDescription>
+                  </Alert>
+                )}
               </CardContent>
             </Card>
 
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RecurringPaymentModal } from "@/components/recurring-payment-modal";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@shared/vat-utils";
+import { RECURRING_FREQUENCIES } from "@shared/recurring-payments";
+import type { Creator, RecurringPayment } from "@shared/schema";
+import { Plus } from "lucide-react";
+
+type RecurringPaymentWithCreator = RecurringPayment & { creator: Creator };
+
+const STATUS_STYLES: Record<string, string> = {
+  active: "bg-green-100 text-green-800",
+  paused: "bg-yellow-100 text-yellow-800",
+  ended: "bg-gray-100 text-gray-800",
+};
+
+export default function RecurringPayments() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editing, setEditing] = useState<RecurringPayment | null>(null);
+
+  const { data: series = [], isLoading } = useQuery<RecurringPaymentWithCreator[]>({
+    queryKey: ["/api/recurring-payments"],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "pause" | "resume" | "end" }) => {
+      const response = await apiRequest("POST", `/api/recurring-payments/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-payments"] });
+      toast({
+        title: {
+          pause: "Recurring Payment Paused",
+          resume: "Recurring Payment Resumed",
+          end: "Recurring Payment Ended",
+        }[action],
+        description: {
+          pause: "No payment requests are created until it is resumed.",
+          resume: "Payment requests are created again from the next period on.",
+          end: "No further payment requests will be created.",
+        }[action],
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openModal = (item: RecurringPayment | null) => {
+    setEditing(item);
+    setModalOpen(true);
+  };
+
+  const canManage = can("payments:create");
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-black">Recurring Payments</h1>
+          <p className="mt-2 text-gray-600">Payment requests created automatically every period, e.g. monthly retainers</p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openModal(null)} className="bg-[#28ce73] hover:bg-[#22b366] text-white font-medium">
+            <Plus className="mr-2" size={16} />
+            New Recurring Payment
+          </Button>
+        )}
+      </div>
+
+      <Card className="border-gray-200">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="text-gray-600 font-medium">Creator</TableHead>
+              <TableHead className="text-gray-600 font-medium">Description</TableHead>
+              <TableHead className="text-gray-600 font-medium">Amount</TableHead>
+              <TableHead className="text-gray-600 font-medium">Frequency</TableHead>
+              <TableHead className="text-gray-600 font-medium">Next Request</TableHead>
+              <TableHead className="text-gray-600 font-medium">Status</TableHead>
+              {canManage && <TableHead className="text-gray-600 font-medium">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-600">Loading...</TableCell>
+              </TableRow>
+            ) : series.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-600">No recurring payments yet</TableCell>
+              </TableRow>
+            ) : (
+              series.map((item) => (
+                <TableRow key={item.id} className="hover:bg-gray-50">
+                  <TableCell>
+                    <div className="text-sm font-medium text-black">{item.creator.fullName}</div>
+                    <div className="text-sm text-gray-600">{item.creator.email}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-black">
+                    {item.descriptionTemplate}
+                    {item.lastError && <p className="text-xs text-red-700 mt-1">Last run failed: {item.lastError}</p>}
+                  </TableCell>
+                  <TableCell className="text-sm font-medium text-black">
+                    {formatCurrency(parseFloat(item.amount), item.currency)}
+                    <span className="text-xs text-gray-600 font-normal"> excl. VAT</span>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {RECURRING_FREQUENCIES.find((frequency) => frequency.value === item.frequency)?.label ?? item.frequency}
+                    {item.endDate && <div className="text-xs">until {format(new Date(item.endDate), "d MMM yyyy")}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {item.status === "active" && item.nextRunAt ? format(new Date(item.nextRunAt), "d MMM yyyy") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={`${STATUS_STYLES[item.status] ?? STATUS_STYLES.ended} capitalize`}>{item.status}</Badge>
+                  </TableCell>
+                  {canManage && (
+                    <TableCell>
+                      {item.status !== "ended" && (
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openModal(item)}
+                            className="border-gray-300 text-black hover:bg-gray-50"
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => actionMutation.mutate({ id: item.id, action: item.status === "active" ? "pause" : "resume" })}
+                            disabled={actionMutation.isPending}
+                            className="border-gray-300 text-black hover:bg-gray-50"
+                          >
+                            {item.status === "active" ? "Pause" : "Resume"}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => actionMutation.mutate({ id: item.id, action: "end" })}
+                            disabled={actionMutation.isPending}
+                            className="border-red-300 text-red-700 hover:bg-red-50"
+                          >
+                            End
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <RecurringPaymentModal open={modalOpen} onOpenChange={setModalOpen} series={editing} />
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { PaymentRequest } from "@shared/schema";
+
+// Payment requests with a total above the threshold need four-eyes approval:
+// the approver must be a different admin than the one who created the
+// request. APPROVAL_THRESHOLD applies to every currency unless overridden
+// with APPROVAL_THRESHOLD_<CURRENCY> (e.g. APPROVAL_THRESHOLD_JPY=750000).
+// Without any configuration every request needs four-eyes approval.
+export function getApprovalThreshold(currency: string): number {
+  const value = process.env[`APPROVAL_THRESHOLD_${currency.toUpperCase()}`] ?? process.env.APPROVAL_THRESHOLD;
+  const threshold = value ? parseFloat(value) : 0;
+  return isNaN(threshold) ? 0 : threshold;
+}
+
+export function requiresFourEyes(request: PaymentRequest): boolean {
+  return parseFloat(request.totalAmount) > getApprovalThreshold(request.currency);
+}
+
+// Why the given admin may not approve the request, or null if they may
+export function getApprovalBlocker(request: PaymentRequest, userId: string): string | null {
+  if (requiresFourEyes(request) && request.createdBy === userId) {
+    return 'Payments above the approval threshold must be approved by a different admin than the one who created them';
+  }
+  return null;
+}
+
+// Checked again right before the transfer, so a payout can never skip approval
+export function hasValidApproval(request: PaymentRequest): boolean {
+  if (!request.approvedBy) {
+    return false;
+  }
+  return !requiresFourEyes(request) || request.approvedBy !== request.createdBy;
+}
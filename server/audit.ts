@@ -0,0 +1,87 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditActor {
+  type: 'admin' | 'creator' | 'anonymous';
+  id?: string | null;
+  email?: string | null;
+}
+
+export interface AuditEntry {
+  action: string; // <entity>.<verb>, e.g. payment_request.approve
+  entityType: string;
+  entityId?: string | number | null;
+  before?: object | null;
+  after?: object | null;
+  actor?: AuditActor; // Defaults to the logged-in admin, if any
+}
+
+// Bookkeeping columns that change on every update
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+// Credentials and encrypted data: the log records that they changed, never
+// their values, so audit:read does not grant access to creator links or forms
+const SECRET_FIELDS = new Set(['accessToken', 'claimToken', 'tokenHash', 'encryptedData']);
+
+const REDACTED = '[redacted]';
+
+function redact(field: string, value: unknown): unknown {
+  return SECRET_FIELDS.has(field) && value != null ? REDACTED : value ?? null;
+}
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value ?? null);
+}
+
+// Field-level diff between two versions of an entity. Creations have no
+// "before" and deletions no "after", so every field shows up as changed.
+export function diffChanges(before?: object | null, after?: object | null): AuditChanges {
+  const beforeValues = (before ?? {}) as Record<string, unknown>;
+  const afterValues = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  const fields = Array.from(new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)]));
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+
+    if (serialize(beforeValues[field]) !== serialize(afterValues[field])) {
+      changes[field] = { before: redact(field, beforeValues[field]), after: redact(field, afterValues[field]) };
+    }
+  }
+
+  return changes;
+}
+
+export function getAuditActor(req: Request): AuditActor {
+  const claims = (req.user as any)?.claims;
+  if (claims?.sub) {
+    return { type: 'admin', id: claims.sub, email: claims.email ?? null };
+  }
+
+  return { type: 'anonymous' };
+}
+
+// Append an entry to the audit log. Failures are logged rather than thrown:
+// the action itself has already happened by the time it is audited.
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  const actor = entry.actor ?? getAuditActor(req);
+
+  try {
+    await storage.createAuditLog({
+      actorType: actor.type,
+      actorId: actor.id ?? null,
+      actorEmail: actor.email ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId != null ? entry.entityId.toString() : null,
+      changes: diffChanges(entry.before, entry.after),
+      ip: req.ip ?? null,
+    });
+  } catch (error) {
+    console.error(`Error recording audit entry ${entry.action}:`, error);
+  }
+}
@@ -0,0 +1,120 @@
+import { storage } from "./storage";
+import { roundToCurrency, SUPPORTED_CURRENCIES } from "@shared/vat-utils";
+import {
+  getBudgetWarning,
+  UNCOMMITTED_STATUSES,
+  type CampaignPayment,
+  type CampaignSummary,
+} from "@shared/campaigns";
+import type { Campaign } from "@shared/schema";
+
+// Error that maps onto an HTTP status in the campaign routes
+export class CampaignError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'CampaignError';
+  }
+}
+
+export interface CampaignInput {
+  name: string;
+  brand: string;
+  budget: number; // Excluding VAT
+  currency: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export type CampaignUpdate = Partial<CampaignInput>;
+
+function checkCampaign(campaign: Pick<CampaignInput, 'currency' | 'startDate' | 'endDate'>) {
+  if (!SUPPORTED_CURRENCIES.includes(campaign.currency)) {
+    throw new CampaignError(`Unsupported currency: ${campaign.currency}`);
+  }
+  if (campaign.endDate.getTime() < campaign.startDate.getTime()) {
+    throw new CampaignError('End date must not be before the start date');
+  }
+}
+
+export async function createCampaign(input: CampaignInput, createdBy?: string | null): Promise<Campaign> {
+  checkCampaign(input);
+  return await storage.createCampaign({ ...input, budget: input.budget.toString(), createdBy });
+}
+
+// The currency is fixed once payment requests count against the budget,
+// since their amounts would no longer add up
+export async function updateCampaign(campaign: Campaign, updates: CampaignUpdate): Promise<Campaign> {
+  const { budget, ...rest } = updates;
+  checkCampaign({
+    currency: updates.currency ?? campaign.currency,
+    startDate: updates.startDate ?? campaign.startDate,
+    endDate: updates.endDate ?? campaign.endDate,
+  });
+
+  if (updates.currency && updates.currency !== campaign.currency) {
+    const payments = await storage.getPaymentRequestsByCampaigns([campaign.id]);
+    if (payments.length > 0) {
+      throw new CampaignError('Currency cannot change once the campaign has payment requests', 409);
+    }
+  }
+
+  const changes: Partial<Campaign> = { ...rest };
+  if (budget !== undefined) {
+    changes.budget = budget.toString();
+  }
+  return await storage.updateCampaign(campaign.id, changes);
+}
+
+export async function getCampaignPayments(campaignIds: number[]): Promise<CampaignPayment[]> {
+  const requests = await storage.getPaymentRequestsByCampaigns(campaignIds);
+  const requestIds = requests.map(request => request.id);
+  const [creditNotes, installments] = await Promise.all([
+    storage.getCreditNotesByPaymentRequests(requestIds),
+    storage.getPaymentInstallmentsByPaymentRequests(requestIds),
+  ]);
+
+  return requests.map(request => {
+    if (UNCOMMITTED_STATUSES.includes(request.status)) {
+      return { ...request, committedAmount: 0, paidAmount: 0 };
+    }
+
+    const credited = creditNotes
+      .filter(creditNote => creditNote.paymentRequestId === request.id)
+      .reduce((sum, creditNote) => sum + parseFloat(creditNote.amount), 0);
+    const committedAmount = roundToCurrency(Math.max(parseFloat(request.amount) - credited, 0), request.currency);
+
+    let paidAmount = 0;
+    if (request.status === 'paid') {
+      paidAmount = committedAmount;
+    } else if (request.status === 'partially_paid') {
+      const paidInstallments = installments
+        .filter(installment => installment.paymentRequestId === request.id && installment.status === 'paid')
+        .reduce((sum, installment) => sum + parseFloat(installment.amount), 0);
+      paidAmount = Math.min(roundToCurrency(paidInstallments, request.currency), committedAmount);
+    }
+
+    return { ...request, committedAmount, paidAmount };
+  });
+}
+
+export function summarizeCampaign(campaign: Campaign, payments: CampaignPayment[]): CampaignSummary {
+  const own = payments.filter(payment => payment.campaignId === campaign.id);
+  const budget = parseFloat(campaign.budget);
+  const committedAmount = roundToCurrency(own.reduce((sum, payment) => sum + payment.committedAmount, 0), campaign.currency);
+  const paidAmount = roundToCurrency(own.reduce((sum, payment) => sum + payment.paidAmount, 0), campaign.currency);
+
+  return {
+    ...campaign,
+    committedAmount,
+    paidAmount,
+    remainingAmount: roundToCurrency(budget - committedAmount, campaign.currency),
+    paymentCount: own.length,
+    budgetWarning: getBudgetWarning(budget, committedAmount),
+  };
+}
+
+export async function listCampaignSummaries(): Promise<CampaignSummary[]> {
+  const campaigns = await storage.listCampaigns();
+  const payments = await getCampaignPayments(campaigns.map(campaign => campaign.id));
+  return campaigns.map(campaign => summarizeCampaign(campaign, payments));
+}
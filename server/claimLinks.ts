@@ -0,0 +1,83 @@
+import type { RequestHandler } from "express";
+import { nanoid } from "nanoid";
+import { storage } from "./storage";
+import type { PaymentRequest } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      claim?: PaymentRequest; // Set by requireClaim
+    }
+  }
+}
+
+export type ClaimLinkState = 'active' | 'expired' | 'revoked';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a claim link works, configurable with CLAIM_LINK_TTL_DAYS
+export function getClaimLinkTtlMs(): number {
+  const days = parseFloat(process.env.CLAIM_LINK_TTL_DAYS || '30');
+  return (isNaN(days) || days <= 0 ? 30 : days) * DAY_MS;
+}
+
+export function createClaimToken(): Pick<PaymentRequest, 'claimToken' | 'claimTokenExpiresAt' | 'claimTokenRevokedAt'> {
+  return {
+    claimToken: nanoid(32),
+    claimTokenExpiresAt: new Date(Date.now() + getClaimLinkTtlMs()),
+    claimTokenRevokedAt: null,
+  };
+}
+
+// Requests created before claim links expired have no expiry date; their
+// links expire one TTL after the request was created
+export function getClaimTokenExpiry(request: PaymentRequest): Date {
+  return request.claimTokenExpiresAt ?? new Date((request.createdAt ?? new Date()).getTime() + getClaimLinkTtlMs());
+}
+
+export function getClaimLinkState(request: PaymentRequest): ClaimLinkState {
+  if (request.claimTokenRevokedAt) {
+    return 'revoked';
+  }
+  return getClaimTokenExpiry(request).getTime() <= Date.now() ? 'expired' : 'active';
+}
+
+// Emails sent from the background (reminders, recurring payments) have no
+// incoming request to take the host from
+export function getAppBaseUrl(): string {
+  if (process.env.APP_URL) {
+    return process.env.APP_URL.replace(/\/$/, '');
+  }
+  const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+  return domain ? `https://${domain}` : 'http://localhost:5000';
+}
+
+export function getClaimUrl(baseUrl: string, claimToken: string): string {
+  return `${baseUrl}/claim/${claimToken}`;
+}
+
+// Authorizes the claim routes. A claim token only ever grants access to its
+// own payment request. Expired and revoked links get a 410 with the reason,
+// so the claim page can offer a new link.
+export const requireClaim: RequestHandler = async (req, res, next) => {
+  try {
+    const request = await storage.getPaymentRequestByToken(req.params.token);
+
+    if (!request) {
+      return res.status(404).json({ message: 'Payment request not found' });
+    }
+
+    const state = getClaimLinkState(request);
+    if (state !== 'active') {
+      return res.status(410).json({
+        message: state === 'revoked' ? 'This claim link has been revoked' : 'This claim link has expired',
+        reason: state,
+      });
+    }
+
+    req.claim = request;
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to load payment claim' });
+  }
+};
@@ -0,0 +1,123 @@
+import type { RequestHandler } from "express";
+import { createHash } from "crypto";
+import { nanoid } from "nanoid";
+import { storage } from "./storage";
+import type { Creator } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      creator?: Creator; // Set by requireCreator
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    creatorId?: number; // Set after a creator signs in with a magic link
+  }
+}
+
+const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long an onboarding link works, configurable with ACCESS_TOKEN_TTL_DAYS
+function getAccessTokenTtlMs(): number {
+  const days = parseFloat(process.env.ACCESS_TOKEN_TTL_DAYS || '30');
+  return (isNaN(days) || days <= 0 ? 30 : days) * DAY_MS;
+}
+
+export function createAccessToken(): Pick<Creator, 'accessToken' | 'accessTokenExpiresAt'> {
+  return {
+    accessToken: nanoid(32),
+    accessTokenExpiresAt: new Date(Date.now() + getAccessTokenTtlMs()),
+  };
+}
+
+// Tokens issued before access tokens expired count from the creator's creation
+function getAccessTokenExpiry(creator: Creator): Date {
+  return creator.accessTokenExpiresAt ?? new Date((creator.createdAt ?? new Date()).getTime() + getAccessTokenTtlMs());
+}
+
+function hasValidAccessToken(creator: Creator): boolean {
+  return !!creator.accessToken && getAccessTokenExpiry(creator).getTime() > Date.now();
+}
+
+// Creators never see their own access token or internal Stripe state
+export function toCreatorProfile(creator: Creator) {
+  const { accessToken, accessTokenExpiresAt, stripeAccountId, ...profile } = creator;
+  return profile;
+}
+
+// Admins see everything except the access token, which would let them (or
+// anyone with read access) act as the creator
+export function toAdminCreator(creator: Creator) {
+  const { accessToken, accessTokenExpiresAt, ...details } = creator;
+  return details;
+}
+
+// Same, for rows that carry their creator along
+export function withAdminCreator<T extends { creator: Creator }>(row: T) {
+  return { ...row, creator: toAdminCreator(row.creator) };
+}
+
+// Replaces the creator's access token, so earlier onboarding links stop working
+export async function rotateAccessToken(creator: Creator): Promise<string> {
+  const updatedCreator = await storage.updateCreator(creator.id, createAccessToken());
+  return updatedCreator.accessToken!;
+}
+
+// Make sure the creator has a working access token, e.g. before sending a reminder
+export async function ensureAccessToken(creator: Creator): Promise<string> {
+  if (hasValidAccessToken(creator)) {
+    return creator.accessToken!;
+  }
+  return await rotateAccessToken(creator);
+}
+
+export function getOnboardingUrl(baseUrl: string, accessToken: string): string {
+  return `${baseUrl}/onboarding?token=${accessToken}`;
+}
+
+function hashLoginToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Creates a single-use portal login link for the creator
+export async function createLoginLink(creator: Creator, baseUrl: string): Promise<string> {
+  const token = nanoid(32);
+  await storage.createCreatorLoginToken({
+    creatorId: creator.id,
+    tokenHash: hashLoginToken(token),
+    expiresAt: new Date(Date.now() + LOGIN_TOKEN_TTL_MS),
+  });
+  return `${baseUrl}/api/creator/login/${token}`;
+}
+
+// Returns the creator the link belongs to, or undefined if it is unknown,
+// expired or already used
+export async function redeemLoginToken(token: string): Promise<Creator | undefined> {
+  const loginToken = await storage.consumeCreatorLoginToken(hashLoginToken(token));
+  return loginToken ? await storage.getCreator(loginToken.creatorId) : undefined;
+}
+
+// Authorizes creator-scoped routes. Creators are signed in to the portal via
+// a magic link, or identify themselves with the access token from their
+// onboarding link (?token=...).
+export const requireCreator: RequestHandler = async (req, res, next) => {
+  try {
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+    const creator = token
+      ? await storage.getCreatorByAccessToken(token)
+      : req.session.creatorId ? await storage.getCreator(req.session.creatorId) : undefined;
+
+    if (!creator || (token && !hasValidAccessToken(creator))) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    req.creator = creator;
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: error.message || 'Failed to authorize creator' });
+  }
+};
@@ -0,0 +1,141 @@
+import { stripe } from "./stripe";
+import { storage } from "./storage";
+import { SelfBillingConsentRequiredError, writeCreditNotePdf } from "./invoiceGenerator";
+import { roundToCurrency, toMinorUnits } from "@shared/vat-utils";
+import type { CreditNote, PaymentRequest } from "@shared/schema";
+
+// Error that maps onto an HTTP status in the credit note routes
+export class CreditNoteError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'CreditNoteError';
+  }
+}
+
+export interface CreditNoteInput {
+  amount?: number; // Excluding VAT; omitted credits everything not credited yet
+  reason: string;
+  reverseTransfer: boolean;
+}
+
+// Credits (part of) a paid payment request. VAT and withholding are credited
+// in proportion to the amount; the last credit takes whatever is left, so the
+// credits never drift from the original amounts through rounding. With
+// `reverseTransfer` the net amount is reversed from the creator's Stripe
+// transfer before the credit note is stored. The amounts are worked out with
+// the payment request locked, against the credit notes issued so far.
+//
+// The reversal is keyed on the credit note's position among the request's
+// credit notes. Should storing the credit note fail after Stripe reversed the
+// transfer, retrying gets the same reversal back instead of a second one, and
+// Stripe refuses a retry with a different amount under the same key.
+export async function issueCreditNote(
+  request: PaymentRequest,
+  input: CreditNoteInput,
+  createdBy?: string | null,
+): Promise<CreditNote> {
+  if (request.status !== 'paid') {
+    throw new CreditNoteError('Only paid payment requests can be credited', 409);
+  }
+
+  const creator = await storage.getCreator(request.creatorId);
+  if (!creator) {
+    throw new CreditNoteError('Creator not found', 404);
+  }
+  // Credit notes are self-billed in the creator's invoice series; creators
+  // who invoice themselves have to issue their own
+  if (!creator.selfBillingConsentAt) {
+    throw new SelfBillingConsentRequiredError();
+  }
+
+  if (input.reverseTransfer) {
+    if (!request.stripeTransferId) {
+      throw new CreditNoteError('Payment request has no Stripe transfer to reverse');
+    }
+    // Installments were paid out in separate transfers, while the request
+    // only keeps the last one, which may be smaller than the credit
+    const installments = await storage.getPaymentInstallmentsByPaymentRequests([request.id]);
+    if (installments.length > 0) {
+      throw new CreditNoteError('Transfers of payments made in installments cannot be reversed with a credit note', 409);
+    }
+  }
+
+  const invoices = await storage.getInvoicesByPaymentRequest(request.id);
+  const correctedInvoice = invoices.find(invoice => invoice.type === 'generated')
+    ?? invoices.find(invoice => invoice.type === 'uploaded');
+
+  let reversal: { id: string; amount: number } | undefined;
+  try {
+    return await storage.createCreditNote(creator.id, request.id, async (current, issued) => {
+      if (current.status !== 'paid') {
+        throw new CreditNoteError('Only paid payment requests can be credited', 409);
+      }
+
+      const credited = (field: 'amount' | 'vatAmount' | 'withholdingAmount') =>
+        issued.reduce((sum, creditNote) => sum + parseFloat(creditNote[field]), 0);
+      const remaining = (original: string, field: 'amount' | 'vatAmount' | 'withholdingAmount') =>
+        roundToCurrency(parseFloat(original) - credited(field), current.currency);
+
+      const remainingAmount = remaining(current.amount, 'amount');
+      const amount = input.amount === undefined ? remainingAmount : roundToCurrency(input.amount, current.currency);
+      if (amount <= 0) {
+        throw new CreditNoteError(remainingAmount > 0 ? 'Credit amount must be positive' : 'Payment request has been credited in full');
+      }
+      if (amount > remainingAmount) {
+        throw new CreditNoteError(`Credit amount exceeds the ${remainingAmount.toFixed(2)} not yet credited`);
+      }
+
+      const isFinalCredit = amount === remainingAmount;
+      const vatAmount = isFinalCredit
+        ? remaining(current.vatAmount, 'vatAmount')
+        : roundToCurrency(amount * parseFloat(current.vatRate), current.currency);
+      const withholdingAmount = isFinalCredit
+        ? remaining(current.withholdingAmount, 'withholdingAmount')
+        : roundToCurrency(amount * parseFloat(current.withholdingRate), current.currency);
+      const totalAmount = roundToCurrency(amount + vatAmount, current.currency);
+
+      if (input.reverseTransfer && current.stripeTransferId) {
+        const creditNoteKey = `payment-request-${current.id}-credit-note-${issued.length + 1}`;
+        // Withholding was never transferred, so only the net part comes back
+        const reversedAmount = roundToCurrency(totalAmount - withholdingAmount, current.currency);
+        try {
+          const transferReversal = await stripe.transfers.createReversal(current.stripeTransferId, {
+            amount: toMinorUnits(reversedAmount, current.currency),
+            description: input.reason,
+            // Tells the transfer.reversed webhook this is a correction, not a failed payout. The
+            // stored event keeps the key, even when the credit note itself is rolled back.
+            metadata: { paymentRequestId: current.id.toString(), creditNote: 'true', creditNoteKey },
+          }, {
+            idempotencyKey: creditNoteKey,
+          });
+          reversal = { id: transferReversal.id, amount: reversedAmount };
+        } catch (error: any) {
+          throw new CreditNoteError(`Transfer reversal failed: ${error.message}`, 502);
+        }
+      }
+
+      return {
+        amount: amount.toString(),
+        vatAmount: vatAmount.toString(),
+        totalAmount: totalAmount.toString(),
+        withholdingAmount: withholdingAmount.toString(),
+        reason: input.reason,
+        stripeReversalId: reversal?.id ?? null,
+        reversedAmount: reversal ? reversal.amount.toString() : null,
+        createdBy,
+      };
+    }, (sequence, creditNote) => writeCreditNotePdf(sequence, creator, request, {
+      amount: parseFloat(creditNote.amount),
+      vatAmount: parseFloat(creditNote.vatAmount),
+      totalAmount: parseFloat(creditNote.totalAmount),
+      reason: input.reason,
+      correctedInvoiceNumber: correctedInvoice?.invoiceNumber ?? null,
+    }));
+  } catch (error) {
+    if (reversal) {
+      console.error(`Credit note for payment request ${request.id} not stored after transfer reversal ${reversal.id}:`, error);
+      throw new CreditNoteError(`The transfer was reversed (${reversal.id}), but the credit note could not be stored; retry to record it`, 500);
+    }
+    throw error;
+  }
+}
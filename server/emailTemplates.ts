@@ -0,0 +1,335 @@
+import { DEFAULT_LANGUAGE, isLanguage, type Language } from "@shared/languages";
+
+// Data each template is rendered with. Amounts are preformatted, e.g. "€1,210.00".
+export interface EmailTemplateData {
+  payment_request_created: { name: string; amount: string; description: string | null; claimUrl: string };
+  onboarding_invite: { name: string; onboardingUrl: string };
+  invoice_rejected: { name: string; amount: string; reasons: string[]; claimUrl: string };
+  payout_sent: { name: string; amount: string; description: string | null };
+  creator_login: { name: string; loginUrl: string };
+  payment_reminder: {
+    name: string;
+    amount: string;
+    dueDate: Date;
+    overdue: boolean;
+    final: boolean; // Last reminder in the schedule
+    claimUrl: string;
+  };
+  onboarding_reminder: { name: string; onboardingUrl: string; final: boolean };
+}
+
+export type EmailTemplate = keyof EmailTemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Content of one email in one language; the layout adds greeting and sign-off
+interface EmailContent {
+  subject: string;
+  paragraphs: string[];
+  list?: string[];
+  action?: { label: string; url: string };
+}
+
+type Translations = {
+  [T in EmailTemplate]: Record<Language, (data: EmailTemplateData[T]) => EmailContent>;
+};
+
+const GREETINGS: Record<Language, (name: string) => string> = {
+  en: (name) => `Hi ${name},`,
+  nl: (name) => `Hallo ${name},`,
+  de: (name) => `Hallo ${name},`,
+};
+
+const SIGN_OFFS: Record<Language, string> = {
+  en: 'Kind regards,\nThe payouts team',
+  nl: 'Met vriendelijke groet,\nHet payouts-team',
+  de: 'Mit freundlichen Grüßen,\nDas Payouts-Team',
+};
+
+const DATE_LOCALES: Record<Language, string> = {
+  en: 'en-GB',
+  nl: 'nl-NL',
+  de: 'de-DE',
+};
+
+function formatDate(language: Language, date: Date): string {
+  return new Intl.DateTimeFormat(DATE_LOCALES[language], { dateStyle: 'long' }).format(date);
+}
+
+const TRANSLATIONS: Translations = {
+  payment_request_created: {
+    en: ({ amount, description, claimUrl }) => ({
+      subject: `You have a new payment of ${amount}`,
+      paragraphs: [
+        `A payment of ${amount} is waiting for you${description ? ` for "${description}"` : ''}.`,
+        'Claim it with the link below to receive it in your account.',
+      ],
+      action: { label: 'Claim payment', url: claimUrl },
+    }),
+    nl: ({ amount, description, claimUrl }) => ({
+      subject: `Er staat een nieuwe betaling van ${amount} voor je klaar`,
+      paragraphs: [
+        `Er staat een betaling van ${amount} voor je klaar${description ? ` voor "${description}"` : ''}.`,
+        'Claim de betaling via de link hieronder om hem op je rekening te ontvangen.',
+      ],
+      action: { label: 'Betaling claimen', url: claimUrl },
+    }),
+    de: ({ amount, description, claimUrl }) => ({
+      subject: `Eine neue Zahlung über ${amount} wartet auf dich`,
+      paragraphs: [
+        `Eine Zahlung über ${amount} wartet auf dich${description ? ` für "${description}"` : ''}.`,
+        'Fordere sie über den Link unten an, um sie auf dein Konto zu erhalten.',
+      ],
+      action: { label: 'Zahlung anfordern', url: claimUrl },
+    }),
+  },
+  onboarding_invite: {
+    en: ({ onboardingUrl }) => ({
+      subject: 'Set up your account to receive payments',
+      paragraphs: [
+        'You have been invited to receive payments through our creator payout platform.',
+        'Add your business details and connect a payout account to get started. It takes about five minutes.',
+      ],
+      action: { label: 'Start onboarding', url: onboardingUrl },
+    }),
+    nl: ({ onboardingUrl }) => ({
+      subject: 'Stel je account in om betalingen te ontvangen',
+      paragraphs: [
+        'Je bent uitgenodigd om betalingen te ontvangen via ons uitbetalingsplatform voor creators.',
+        'Vul je bedrijfsgegevens in en koppel een uitbetalingsrekening om te beginnen. Dat duurt ongeveer vijf minuten.',
+      ],
+      action: { label: 'Onboarding starten', url: onboardingUrl },
+    }),
+    de: ({ onboardingUrl }) => ({
+      subject: 'Richte dein Konto ein, um Zahlungen zu erhalten',
+      paragraphs: [
+        'Du wurdest eingeladen, Zahlungen über unsere Auszahlungsplattform für Creator zu erhalten.',
+        'Gib deine Geschäftsdaten ein und verbinde ein Auszahlungskonto. Das dauert etwa fünf Minuten.',
+      ],
+      action: { label: 'Onboarding starten', url: onboardingUrl },
+    }),
+  },
+  invoice_rejected: {
+    en: ({ amount, reasons, claimUrl }) => ({
+      subject: `Your invoice for ${amount} needs another look`,
+      paragraphs: [
+        `We couldn't accept the invoice you uploaded for your payment of ${amount}:`,
+        'Please upload a corrected invoice so we can pay you.',
+      ],
+      list: reasons,
+      action: { label: 'Upload a new invoice', url: claimUrl },
+    }),
+    nl: ({ amount, reasons, claimUrl }) => ({
+      subject: `Je factuur voor ${amount} moet worden aangepast`,
+      paragraphs: [
+        `We konden de factuur die je hebt geüpload voor je betaling van ${amount} niet accepteren:`,
+        'Upload een gecorrigeerde factuur zodat we je kunnen uitbetalen.',
+      ],
+      list: reasons,
+      action: { label: 'Nieuwe factuur uploaden', url: claimUrl },
+    }),
+    de: ({ amount, reasons, claimUrl }) => ({
+      subject: `Deine Rechnung über ${amount} muss überarbeitet werden`,
+      paragraphs: [
+        `Wir konnten die Rechnung, die du für deine Zahlung über ${amount} hochgeladen hast, nicht akzeptieren:`,
+        'Bitte lade eine korrigierte Rechnung hoch, damit wir dich auszahlen können.',
+      ],
+      list: reasons,
+      action: { label: 'Neue Rechnung hochladen', url: claimUrl },
+    }),
+  },
+  payout_sent: {
+    en: ({ amount, description }) => ({
+      subject: `Your payout of ${amount} is on its way`,
+      paragraphs: [
+        `We've sent ${amount}${description ? ` for "${description}"` : ''} to your payout account.`,
+        'Depending on your bank it can take a few business days to arrive.',
+      ],
+    }),
+    nl: ({ amount, description }) => ({
+      subject: `Je uitbetaling van ${amount} is onderweg`,
+      paragraphs: [
+        `We hebben ${amount}${description ? ` voor "${description}"` : ''} naar je uitbetalingsrekening overgemaakt.`,
+        'Afhankelijk van je bank kan het een paar werkdagen duren voordat het bedrag binnen is.',
+      ],
+    }),
+    de: ({ amount, description }) => ({
+      subject: `Deine Auszahlung über ${amount} ist unterwegs`,
+      paragraphs: [
+        `Wir haben ${amount}${description ? ` für "${description}"` : ''} an dein Auszahlungskonto überwiesen.`,
+        'Je nach Bank kann es einige Werktage dauern, bis der Betrag eingeht.',
+      ],
+    }),
+  },
+  payment_reminder: {
+    en: ({ amount, dueDate, overdue, final, claimUrl }) => ({
+      subject: final
+        ? `Final reminder: your payment of ${amount} is still unclaimed`
+        : overdue
+        ? `Your payment of ${amount} is overdue`
+        : `Reminder: claim your payment of ${amount}`,
+      paragraphs: [
+        overdue
+          ? `Your payment of ${amount} was due on ${formatDate('en', dueDate)} and hasn't been claimed yet.`
+          : `Your payment of ${amount} is due on ${formatDate('en', dueDate)} and hasn't been claimed yet.`,
+        final
+          ? "This is our last reminder. If you don't claim it, please get in touch so we can sort it out."
+          : 'Claiming takes a couple of minutes.',
+      ],
+      action: { label: 'Claim payment', url: claimUrl },
+    }),
+    nl: ({ amount, dueDate, overdue, final, claimUrl }) => ({
+      subject: final
+        ? `Laatste herinnering: je betaling van ${amount} is nog niet geclaimd`
+        : overdue
+        ? `Je betaling van ${amount} is verlopen`
+        : `Herinnering: claim je betaling van ${amount}`,
+      paragraphs: [
+        overdue
+          ? `Je betaling van ${amount} moest uiterlijk ${formatDate('nl', dueDate)} worden geclaimd en is nog niet geclaimd.`
+          : `Je betaling van ${amount} moet uiterlijk ${formatDate('nl', dueDate)} worden geclaimd en is nog niet geclaimd.`,
+        final
+          ? 'Dit is onze laatste herinnering. Claim je de betaling niet, neem dan contact met ons op zodat we het kunnen oplossen.'
+          : 'Claimen duurt maar een paar minuten.',
+      ],
+      action: { label: 'Betaling claimen', url: claimUrl },
+    }),
+    de: ({ amount, dueDate, overdue, final, claimUrl }) => ({
+      subject: final
+        ? `Letzte Erinnerung: deine Zahlung über ${amount} wurde noch nicht angefordert`
+        : overdue
+        ? `Deine Zahlung über ${amount} ist überfällig`
+        : `Erinnerung: fordere deine Zahlung über ${amount} an`,
+      paragraphs: [
+        overdue
+          ? `Deine Zahlung über ${amount} war am ${formatDate('de', dueDate)} fällig und wurde noch nicht angefordert.`
+          : `Deine Zahlung über ${amount} ist am ${formatDate('de', dueDate)} fällig und wurde noch nicht angefordert.`,
+        final
+          ? 'Dies ist unsere letzte Erinnerung. Wenn du sie nicht anforderst, melde dich bitte bei uns, damit wir das klären können.'
+          : 'Das Anfordern dauert nur ein paar Minuten.',
+      ],
+      action: { label: 'Zahlung anfordern', url: claimUrl },
+    }),
+  },
+  onboarding_reminder: {
+    en: ({ onboardingUrl, final }) => ({
+      subject: final ? 'Final reminder: finish setting up your account' : 'Finish setting up your account to get paid',
+      paragraphs: [
+        "Your account setup isn't finished yet, so we can't send you any payouts.",
+        final
+          ? "This is our last reminder. Finish it with the link below, or reply if something's blocking you."
+          : 'Finish it with the link below; it only takes a few minutes.',
+      ],
+      action: { label: 'Continue onboarding', url: onboardingUrl },
+    }),
+    nl: ({ onboardingUrl, final }) => ({
+      subject: final ? 'Laatste herinnering: rond je accountinstellingen af' : 'Rond je accountinstellingen af om betaald te worden',
+      paragraphs: [
+        'Je account is nog niet volledig ingesteld, dus we kunnen nog niets aan je uitbetalen.',
+        final
+          ? 'Dit is onze laatste herinnering. Rond het af via de link hieronder, of laat het ons weten als iets je tegenhoudt.'
+          : 'Rond het af via de link hieronder; het duurt maar een paar minuten.',
+      ],
+      action: { label: 'Onboarding hervatten', url: onboardingUrl },
+    }),
+    de: ({ onboardingUrl, final }) => ({
+      subject: final ? 'Letzte Erinnerung: schließe die Einrichtung deines Kontos ab' : 'Schließe die Einrichtung deines Kontos ab, um bezahlt zu werden',
+      paragraphs: [
+        'Dein Konto ist noch nicht vollständig eingerichtet, daher können wir dir noch nichts auszahlen.',
+        final
+          ? 'Dies ist unsere letzte Erinnerung. Schließe sie über den Link unten ab oder melde dich, falls dich etwas aufhält.'
+          : 'Schließe sie über den Link unten ab; das dauert nur ein paar Minuten.',
+      ],
+      action: { label: 'Onboarding fortsetzen', url: onboardingUrl },
+    }),
+  },
+  creator_login: {
+    en: ({ loginUrl }) => ({
+      subject: 'Your login link for the creator portal',
+      paragraphs: [
+        'Use the link below to sign in to the creator portal. It can be used once and expires in 15 minutes.',
+        "If you didn't ask for this email, you can ignore it.",
+      ],
+      action: { label: 'Sign in', url: loginUrl },
+    }),
+    nl: ({ loginUrl }) => ({
+      subject: 'Je inloglink voor het creatorportaal',
+      paragraphs: [
+        'Gebruik de link hieronder om in te loggen op het creatorportaal. De link werkt één keer en verloopt na 15 minuten.',
+        'Heb je deze e-mail niet aangevraagd? Dan kun je hem negeren.',
+      ],
+      action: { label: 'Inloggen', url: loginUrl },
+    }),
+    de: ({ loginUrl }) => ({
+      subject: 'Dein Login-Link für das Creator-Portal',
+      paragraphs: [
+        'Mit dem Link unten meldest du dich im Creator-Portal an. Er funktioniert einmal und läuft nach 15 Minuten ab.',
+        'Falls du diese E-Mail nicht angefordert hast, kannst du sie ignorieren.',
+      ],
+      action: { label: 'Anmelden', url: loginUrl },
+    }),
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderText(greeting: string, content: EmailContent, signOff: string): string {
+  return [
+    greeting,
+    content.paragraphs[0],
+    ...(content.list?.length ? [content.list.map(item => `- ${item}`).join('\n')] : []),
+    ...content.paragraphs.slice(1),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    signOff,
+  ].join('\n\n');
+}
+
+function renderHtml(greeting: string, content: EmailContent, signOff: string): string {
+  const paragraph = (text: string) => `<p style="margin:0 0 16px">${escapeHtml(text).replace(/\n/g, '<br>')}</p>`;
+
+  return [
+    '<div style="font-family:Arial,sans-serif;font-size:15px;line-height:1.5;color:#000;max-width:560px">',
+    paragraph(greeting),
+    paragraph(content.paragraphs[0]),
+    ...(content.list?.length
+      ? [`<ul style="margin:0 0 16px">${content.list.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`]
+      : []),
+    ...content.paragraphs.slice(1).map(paragraph),
+    ...(content.action
+      ? [`<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="background:#28ce73;color:#fff;padding:12px 20px;border-radius:6px;text-decoration:none;font-weight:bold">${escapeHtml(content.action.label)}</a></p>`]
+      : []),
+    paragraph(signOff),
+    '</div>',
+  ].join('\n');
+}
+
+// Renders the template in the given language, falling back to English for
+// unknown languages
+export function renderEmail<T extends EmailTemplate>(
+  template: T,
+  language: string,
+  data: EmailTemplateData[T],
+): RenderedEmail & { language: Language } {
+  const emailLanguage = isLanguage(language) ? language : DEFAULT_LANGUAGE;
+  const content = TRANSLATIONS[template][emailLanguage](data);
+  const greeting = GREETINGS[emailLanguage]((data as { name: string }).name);
+  const signOff = SIGN_OFFS[emailLanguage];
+
+  return {
+    language: emailLanguage,
+    subject: content.subject,
+    text: renderText(greeting, content, signOff),
+    html: renderHtml(greeting, content, signOff),
+  };
+}
@@ -1,9 +1,24 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { schedulePayoutRecovery } from "./payouts";
+import { scheduleEmailDelivery } from "./notifications";
+import { scheduleReminders } from "./reminders";
+import { scheduleRecurringPayments } from "./recurringPayments";
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody: unknown;
+  }
+}
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body around for Stripe webhook signature verification
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -66,5 +81,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    schedulePayoutRecovery();
+    scheduleEmailDelivery();
+    scheduleReminders();
+    scheduleRecurringPayments();
   });
 })();
@@ -0,0 +1,206 @@
+import PDFDocument from "pdfkit";
+import path from "path";
+import fs from "fs";
+import { storage } from "./storage";
+import { formatCurrency, formatPercent, SUPPORTED_COUNTRIES } from "@shared/vat-utils";
+import { findVatRule, getVatRule, isServiceType } from "@shared/vat-rules";
+import { SELF_BILLING_INVOICE_NOTE, SELF_BILLING_TERMS_VERSION } from "@shared/self-billing";
+import type { Creator, Invoice, PaymentRequest } from "@shared/schema";
+
+const INVOICE_DIR = path.join('uploads', 'invoices');
+
+// The agency is the recipient of every creator invoice
+function getAgencyDetails() {
+  if (!process.env.AGENCY_NAME || !process.env.AGENCY_VAT_ID) {
+    throw new Error('AGENCY_NAME and AGENCY_VAT_ID must be set to generate invoices');
+  }
+
+  return {
+    name: process.env.AGENCY_NAME,
+    address: process.env.AGENCY_ADDRESS || '',
+    vatId: process.env.AGENCY_VAT_ID,
+  };
+}
+
+// Raised when an invoice would be self-billed for a creator who hasn't agreed
+// to self-billing
+export class SelfBillingConsentRequiredError extends Error {
+  status = 400;
+
+  constructor() {
+    super('The creator has not agreed to self-billing');
+    this.name = 'SelfBillingConsentRequiredError';
+  }
+}
+
+// Creator updates for agreeing to (or withdrawing from) self-billing
+export function getSelfBillingConsentUpdate(creator: Creator, consent: boolean): Partial<Creator> {
+  if (!consent) {
+    return { selfBillingConsentAt: null, selfBillingTermsVersion: null };
+  }
+  if (creator.selfBillingConsentAt && creator.selfBillingTermsVersion === SELF_BILLING_TERMS_VERSION) {
+    return {};
+  }
+  return { selfBillingConsentAt: new Date(), selfBillingTermsVersion: SELF_BILLING_TERMS_VERSION };
+}
+
+// Each creator has their own series: SB-<creator>-<sequence>
+function getInvoiceNumber(creatorId: number, sequence: number): string {
+  return `SB-${creatorId.toString().padStart(6, '0')}-${sequence.toString().padStart(5, '0')}`;
+}
+
+function getCountryName(countryCode: string): string {
+  return SUPPORTED_COUNTRIES.find(country => country.country === countryCode)?.countryName || countryCode;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// What a credit note takes off the original invoice; amounts are positive
+export interface CreditNoteDetails {
+  amount: number;
+  vatAmount: number;
+  totalAmount: number;
+  reason: string;
+  correctedInvoiceNumber: string | null;
+}
+
+function renderInvoicePdf(
+  invoiceNumber: string,
+  issueDate: Date,
+  creator: Creator,
+  paymentRequest: PaymentRequest,
+  credit?: CreditNoteDetails,
+): Promise<Buffer> {
+  const agency = getAgencyDetails();
+  // Credit notes show their amounts negated
+  const sign = credit ? -1 : 1;
+  const amount = sign * (credit?.amount ?? parseFloat(paymentRequest.amount));
+  const vatAmount = sign * (credit?.vatAmount ?? parseFloat(paymentRequest.vatAmount));
+  const totalAmount = sign * (credit?.totalAmount ?? parseFloat(paymentRequest.totalAmount));
+  // The rule the request was created with, so later rate changes don't alter old invoices
+  const vatRule = getVatRule(paymentRequest.vatRuleId) ?? findVatRule({
+    country: creator.country,
+    businessType: creator.businessType,
+    serviceType: isServiceType(paymentRequest.serviceType) ? paymentRequest.serviceType : 'general',
+    smallBusinessScheme: creator.smallBusinessScheme,
+    date: paymentRequest.createdAt ?? issueDate,
+  });
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(20).text(credit ? 'CREDIT NOTE' : 'INVOICE', { align: 'right' });
+    if (creator.selfBillingConsentAt) doc.fontSize(10).text(SELF_BILLING_INVOICE_NOTE, { align: 'right' });
+    doc.moveDown();
+
+    // Supplier (creator)
+    doc.fontSize(10).font('Helvetica-Bold').text('From');
+    doc.font('Helvetica').text(creator.companyName || creator.fullName);
+    if (creator.companyName) doc.text(`Attn. ${creator.fullName}`);
+    if (creator.address) doc.text(creator.address);
+    if (creator.postalCode || creator.city) doc.text([creator.postalCode, creator.city].filter(Boolean).join(' '));
+    doc.text(getCountryName(creator.country));
+    if (creator.vatId) doc.text(`VAT ID: ${creator.vatId}`);
+    doc.text(creator.email);
+    doc.moveDown();
+
+    // Customer (agency)
+    doc.font('Helvetica-Bold').text('Bill to');
+    doc.font('Helvetica').text(agency.name);
+    if (agency.address) doc.text(agency.address);
+    doc.text(`VAT ID: ${agency.vatId}`);
+    doc.moveDown();
+
+    if (credit) {
+      doc.text(`Credit note number: ${invoiceNumber}`);
+      doc.text(`Credit note date: ${formatDate(issueDate)}`);
+      if (credit.correctedInvoiceNumber) doc.text(`Corrects invoice: ${credit.correctedInvoiceNumber}`);
+      doc.text(`Reason: ${credit.reason}`);
+    } else {
+      doc.text(`Invoice number: ${invoiceNumber}`);
+      doc.text(`Invoice date: ${formatDate(issueDate)}`);
+    }
+    doc.text(`Date of supply: ${formatDate(paymentRequest.createdAt ?? issueDate)}`);
+    if (paymentRequest.dueDate && !credit) doc.text(`Due date: ${formatDate(paymentRequest.dueDate)}`);
+    doc.text(`Payment reference: #${paymentRequest.id}`);
+    doc.moveDown(2);
+
+    // Line item and totals
+    const description = paymentRequest.description || 'Creator services';
+    doc.font('Helvetica-Bold').text('Description', 50, doc.y, { continued: true });
+    doc.text('Amount', { align: 'right' });
+    doc.font('Helvetica').text(credit ? `Credit: ${description}` : description, 50, doc.y, { continued: true });
+    doc.text(formatCurrency(amount, paymentRequest.currency), { align: 'right' });
+    doc.moveDown();
+
+    doc.text('Subtotal', { continued: true }).text(formatCurrency(amount, paymentRequest.currency), { align: 'right' });
+    doc.text(`VAT (${formatPercent(parseFloat(paymentRequest.vatRate))})`, { continued: true })
+      .text(formatCurrency(vatAmount, paymentRequest.currency), { align: 'right' });
+    doc.font('Helvetica-Bold').text('Total', { continued: true })
+      .text(formatCurrency(totalAmount, paymentRequest.currency), { align: 'right' });
+    doc.moveDown(2);
+
+    doc.font('Helvetica').fontSize(9).text(vatRule.note);
+    if (vatRule.treatment === 'reverse_charge') {
+      doc.text('VAT reverse charged: VAT is to be accounted for by the recipient (Art. 196 Directive 2006/112/EC).');
+    }
+    if (creator.selfBillingConsentAt) {
+      doc.text(`${SELF_BILLING_INVOICE_NOTE}: issued by ${agency.name} on behalf of the supplier under the self-billing agreement of ${formatDate(creator.selfBillingConsentAt)}.`);
+    }
+
+    doc.end();
+  });
+}
+
+// Render a document and store its PDF, named after its number
+async function writeInvoicePdf(
+  invoiceNumber: string,
+  creator: Creator,
+  paymentRequest: PaymentRequest,
+  credit?: CreditNoteDetails,
+): Promise<{ invoiceNumber: string; filename: string; fileUrl: string }> {
+  const pdf = await renderInvoicePdf(invoiceNumber, new Date(), creator, paymentRequest, credit);
+
+  await fs.promises.mkdir(INVOICE_DIR, { recursive: true });
+  const filename = `${invoiceNumber}.pdf`;
+  const filePath = path.join(INVOICE_DIR, filename);
+  await fs.promises.writeFile(filePath, pdf);
+
+  return { invoiceNumber, filename, fileUrl: filePath };
+}
+
+// Generate the self-billed invoice for a claimed payment request on behalf of
+// a creator using the "auto" invoice method. Returns the existing invoice if
+// one was generated before.
+export async function generateInvoice(paymentRequest: PaymentRequest, creator: Creator): Promise<Invoice> {
+  const existingInvoices = await storage.getInvoicesByPaymentRequest(paymentRequest.id);
+  const existingInvoice = existingInvoices.find(invoice => invoice.type === 'generated');
+  if (existingInvoice) {
+    return existingInvoice;
+  }
+
+  if (!creator.selfBillingConsentAt) {
+    throw new SelfBillingConsentRequiredError();
+  }
+
+  // The number is only used once the invoice is stored, keeping the series gapless
+  return await storage.createSelfBilledInvoice(creator.id, paymentRequest.id, sequence =>
+    writeInvoicePdf(getInvoiceNumber(creator.id, sequence), creator, paymentRequest),
+  );
+}
+
+// Credit note documents are numbered in the same series as the creator's invoices
+export function writeCreditNotePdf(
+  sequence: number,
+  creator: Creator,
+  paymentRequest: PaymentRequest,
+  credit: CreditNoteDetails,
+): Promise<{ invoiceNumber: string; filename: string; fileUrl: string }> {
+  return writeInvoicePdf(getInvoiceNumber(creator.id, sequence), creator, paymentRequest, credit);
+}
@@ -0,0 +1,279 @@
+import fs from "fs";
+import { PDFParse } from "pdf-parse";
+import type { Creator, PaymentRequest } from "@shared/schema";
+import { normalizeVatId } from "@shared/vat-utils";
+
+export interface ExtractedInvoiceFields {
+  totals: number[];
+  vatAmounts: number[];
+  vatIds: string[];
+  supplierName?: string;
+  invoiceNumber?: string;
+  invoiceDate?: Date;
+  // Full invoice text, when available, for matching identifiers anywhere on the page
+  text?: string;
+}
+
+export type InvoiceField = 'total' | 'vatAmount' | 'vatId' | 'companyName' | 'invoiceNumber' | 'invoiceDate';
+
+export interface FieldVerdict {
+  field: InvoiceField;
+  verdict: 'match' | 'mismatch' | 'missing' | 'not_applicable';
+  expected?: string;
+  found?: string;
+  // Failure reason, set for mismatch and missing verdicts
+  reason?: string;
+}
+
+// Amounts may differ by rounding on the creator's side
+const AMOUNT_TOLERANCE = 0.01;
+
+const TOTAL_LABEL = /\b(?:total(?:\s+amount)?(?:\s+due)?|amount\s+due|totaal(?:bedrag)?|te\s+betalen|gesamtbetrag|summe|montant\s+total|importe\s+total)\b/i;
+const VAT_LABEL = /\b(?:vat|btw|mwst|ust|tva|iva)\b/i;
+const VAT_ID_LABEL = /\b(?:vat|btw|mwst|ust|tva|iva)[\s-]*(?:id|number|no\.?|nr\.?|reg(?:istration)?)\b|\bust-?idnr\b/i;
+// Country prefix followed by digit groups, e.g. "NL 0044.95.445 B01" or "DE123456789"
+const VAT_ID = /\b([A-Z]{2})[\s.\-]?([A-Z]?\d[\dA-Z]*(?:[\s.\-][A-Z]?\d[\dA-Z]*)*)/;
+const INVOICE_NUMBER = /(?:invoice\s*(?:number|no\.?|nr\.?|#)|factuur\s*(?:nummer|nr\.?)|factuurnummer|rechnungs\s*(?:nummer|nr\.?)|rechnungsnummer|n[°º]\s*de\s*facture)\s*[:#]?\s*([A-Z0-9][A-Z0-9\-\/._]*)/i;
+const DATE_LABEL = /\b(?:invoice\s+date|date|datum|factuurdatum|rechnungsdatum)\b/i;
+
+const MONTHS = [
+  'jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec',
+];
+
+export async function extractPdfText(filePath: string): Promise<string> {
+  const data = await fs.promises.readFile(filePath);
+  const parser = new PDFParse({ data });
+
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Parse "1.210,00", "1,210.00", "€ 1210" and similar into a number
+export function parseAmount(value: string): number | undefined {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) {
+    return undefined;
+  }
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  const decimalIndex = Math.max(lastComma, lastDot);
+  const decimals = decimalIndex >= 0 ? cleaned.length - decimalIndex - 1 : 0;
+
+  // A single separator followed by three digits is a thousands separator
+  let normalized: string;
+  if (decimalIndex >= 0 && decimals > 0 && decimals <= 2) {
+    normalized = cleaned.slice(0, decimalIndex).replace(/[.,]/g, '') + '.' + cleaned.slice(decimalIndex + 1);
+  } else {
+    normalized = cleaned.replace(/[.,]/g, '');
+  }
+
+  const amount = parseFloat(normalized);
+  return isNaN(amount) ? undefined : amount;
+}
+
+// Collect the VAT IDs following a VAT ID label, on the same or the next line
+function findVatIds(lines: string[]): string[] {
+  const vatIds: string[] = [];
+
+  lines.forEach((line, index) => {
+    if (!VAT_ID_LABEL.test(line)) {
+      return;
+    }
+
+    const match = line.replace(VAT_ID_LABEL, '').match(VAT_ID) ?? (lines[index + 1] || '').match(VAT_ID);
+    if (match) {
+      const vatId = normalizeVatId(match[1] + match[2]);
+      if (vatId.length >= 8 && !vatIds.includes(vatId)) {
+        vatIds.push(vatId);
+      }
+    }
+  });
+
+  return vatIds;
+}
+
+function findAmountInLine(line: string): number | undefined {
+  // Drop percentages so "VAT (21%)" does not read as an amount of 21
+  const withoutPercentages = line.replace(/\d+(?:[.,]\d+)?\s*%/g, '');
+  const matches = withoutPercentages.match(/-?\d[\d.,]*/g);
+  if (!matches) {
+    return undefined;
+  }
+
+  return parseAmount(matches[matches.length - 1]);
+}
+
+// Collect the amounts on lines carrying a label. Table layouts often put the
+// amount on the line after the label, so that line is tried as a fallback.
+function findLabelledAmounts(lines: string[], label: RegExp, exclude?: RegExp): number[] {
+  const amounts: number[] = [];
+
+  lines.forEach((line, index) => {
+    if (!label.test(line) || (exclude && exclude.test(line))) {
+      return;
+    }
+
+    const amount = findAmountInLine(line.replace(label, '')) ?? findAmountInLine(lines[index + 1] || '');
+    if (amount !== undefined) {
+      amounts.push(amount);
+    }
+  });
+
+  return amounts;
+}
+
+export function parseDate(value: string): Date | undefined {
+  const iso = value.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    return new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3]));
+  }
+
+  // European day-first notation: 31-12-2025, 31/12/2025, 31.12.2025
+  const numeric = value.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})\b/);
+  if (numeric) {
+    return new Date(Date.UTC(+numeric[3], +numeric[2] - 1, +numeric[1]));
+  }
+
+  const written = value.match(/\b(\d{1,2})\s+([a-z]{3})[a-z]*\.?\s+(\d{4})\b/i);
+  if (written) {
+    const month = MONTHS.indexOf(written[2].toLowerCase());
+    if (month >= 0) {
+      return new Date(Date.UTC(+written[3], month, +written[1]));
+    }
+  }
+
+  return undefined;
+}
+
+export function extractInvoiceFields(text: string): ExtractedInvoiceFields {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+
+  const labelledDateLine = lines.find(line => DATE_LABEL.test(line) && parseDate(line));
+  const invoiceDate = labelledDateLine
+    ? parseDate(labelledDateLine)
+    : lines.map(line => parseDate(line)).find(Boolean);
+
+  return {
+    totals: findLabelledAmounts(lines, TOTAL_LABEL, /\bsub\s*total\b|\bsubtotal\b/i),
+    vatAmounts: findLabelledAmounts(lines, VAT_LABEL, VAT_ID_LABEL),
+    vatIds: findVatIds(lines),
+    invoiceNumber: text.match(INVOICE_NUMBER)?.[1],
+    invoiceDate,
+    text,
+  };
+}
+
+function normalizeIdentifier(value: string): string {
+  return value.replace(/[\s.\-]/g, '').toUpperCase();
+}
+
+function formatAmounts(amounts: number[]): string {
+  return amounts.map(amount => amount.toFixed(2)).join(', ');
+}
+
+function matchesAmount(candidates: number[], expected: number): boolean {
+  return candidates.some(amount => Math.abs(amount - expected) <= AMOUNT_TOLERANCE);
+}
+
+function containsIdentifier(fields: ExtractedInvoiceFields, value: string): boolean {
+  const normalized = normalizeIdentifier(value);
+  return fields.vatIds.some(vatId => normalizeIdentifier(vatId) === normalized) ||
+    (!!fields.text && normalizeIdentifier(fields.text).includes(normalized));
+}
+
+function containsName(fields: ExtractedInvoiceFields, name: string): boolean {
+  const normalized = name.toLowerCase();
+  return (!!fields.supplierName && fields.supplierName.toLowerCase().includes(normalized)) ||
+    (!!fields.text && fields.text.toLowerCase().includes(normalized));
+}
+
+function compareAmount(
+  field: InvoiceField,
+  label: string,
+  candidates: number[],
+  expected: number,
+  optional = false,
+): FieldVerdict {
+  if (candidates.length === 0) {
+    return optional
+      ? { field, verdict: 'not_applicable', expected: expected.toFixed(2) }
+      : { field, verdict: 'missing', expected: expected.toFixed(2), reason: `${label} not found on the invoice` };
+  }
+
+  if (!matchesAmount(candidates, expected)) {
+    return {
+      field,
+      verdict: 'mismatch',
+      expected: expected.toFixed(2),
+      found: formatAmounts(candidates),
+      reason: `${label} ${formatAmounts(candidates)} does not match the expected ${expected.toFixed(2)}`,
+    };
+  }
+
+  return { field, verdict: 'match', expected: expected.toFixed(2), found: expected.toFixed(2) };
+}
+
+// Compare the extracted invoice fields against the payment request and the
+// creator, producing one verdict per field
+export function compareInvoiceFields(
+  fields: ExtractedInvoiceFields,
+  paymentRequest: PaymentRequest,
+  creator: Creator,
+): FieldVerdict[] {
+  const verdicts: FieldVerdict[] = [];
+  const expectedVat = parseFloat(paymentRequest.vatAmount);
+
+  verdicts.push(compareAmount('total', 'Total amount', fields.totals, parseFloat(paymentRequest.totalAmount)));
+  // Zero-rated invoices do not need to mention a VAT amount
+  verdicts.push(compareAmount('vatAmount', 'VAT amount', fields.vatAmounts, expectedVat, expectedVat === 0));
+
+  if (!creator.vatId) {
+    verdicts.push({ field: 'vatId', verdict: 'not_applicable' });
+  } else if (containsIdentifier(fields, creator.vatId)) {
+    verdicts.push({ field: 'vatId', verdict: 'match', expected: creator.vatId, found: creator.vatId });
+  } else {
+    verdicts.push({
+      field: 'vatId',
+      verdict: fields.vatIds.length > 0 ? 'mismatch' : 'missing',
+      expected: creator.vatId,
+      found: fields.vatIds.join(', ') || undefined,
+      reason: `VAT ID ${creator.vatId} not found on the invoice`,
+    });
+  }
+
+  if (!creator.companyName) {
+    verdicts.push({ field: 'companyName', verdict: 'not_applicable' });
+  } else if (containsName(fields, creator.companyName)) {
+    verdicts.push({ field: 'companyName', verdict: 'match', expected: creator.companyName, found: creator.companyName });
+  } else {
+    verdicts.push({
+      field: 'companyName',
+      verdict: fields.supplierName ? 'mismatch' : 'missing',
+      expected: creator.companyName,
+      found: fields.supplierName,
+      reason: `Company name "${creator.companyName}" not found on the invoice`,
+    });
+  }
+
+  if (!fields.invoiceNumber) {
+    verdicts.push({ field: 'invoiceNumber', verdict: 'missing', reason: 'Invoice number not found on the invoice' });
+  } else {
+    verdicts.push({ field: 'invoiceNumber', verdict: 'match', found: fields.invoiceNumber });
+  }
+
+  if (!fields.invoiceDate) {
+    verdicts.push({ field: 'invoiceDate', verdict: 'missing', reason: 'Invoice date not found on the invoice' });
+  } else {
+    const found = fields.invoiceDate.toISOString().slice(0, 10);
+    verdicts.push(fields.invoiceDate.getTime() > Date.now()
+      ? { field: 'invoiceDate', verdict: 'mismatch', found, reason: `Invoice date ${found} is in the future` }
+      : { field: 'invoiceDate', verdict: 'match', found });
+  }
+
+  return verdicts;
+}
@@ -0,0 +1,118 @@
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import type { Creator, PaymentRequest } from "@shared/schema";
+import {
+  GeminiInvoiceValidator,
+  LocalInvoiceValidator,
+  RecordedInvoiceValidator,
+  type InvoiceValidationInput,
+} from "./invoiceValidators";
+
+const FIXTURES = path.join(import.meta.dirname, 'fixtures', 'invoices');
+
+// fixture-invoice.pdf is a text-layer invoice over EUR 1,000 plus 21% VAT;
+// recordings.json holds the model response for it, keyed by its SHA-256
+function fixtureInput(requestOverrides: Partial<PaymentRequest> = {}): InvoiceValidationInput {
+  return {
+    filePath: path.join(FIXTURES, 'fixture-invoice.pdf'),
+    paymentRequest: { amount: '1000.00', vatAmount: '210.00', totalAmount: '1210.00', ...requestOverrides } as PaymentRequest,
+    creator: { vatId: 'NL004495445B01', companyName: 'Fixture Studio B.V.' } as Creator,
+  };
+}
+
+function verdicts(fields: { field: string; verdict: string }[]) {
+  return Object.fromEntries(fields.map(field => [field.field, field.verdict]));
+}
+
+const ALL_MATCH = {
+  total: 'match',
+  vatAmount: 'match',
+  vatId: 'match',
+  companyName: 'match',
+  invoiceNumber: 'match',
+  invoiceDate: 'match',
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('LocalInvoiceValidator', () => {
+  test('reads every field from the PDF text layer', async () => {
+    const result = await new LocalInvoiceValidator().validate(fixtureInput());
+
+    assert.equal(result.status, 'valid');
+    assert.equal(result.confidence, 'high');
+    assert.deepEqual(verdicts(result.fields), ALL_MATCH);
+    assert.equal(result.fields.find(field => field.field === 'vatId')?.found, 'NL004495445B01');
+  });
+
+  test('reports a total that does not match the payment request', async () => {
+    const result = await new LocalInvoiceValidator().validate(fixtureInput({ totalAmount: '1452.00' }));
+
+    assert.equal(result.status, 'invalid');
+    assert.equal(verdicts(result.fields).total, 'mismatch');
+    assert.match(result.notes, /Total amount 1210\.00 does not match the expected 1452\.00/);
+  });
+});
+
+describe('RecordedInvoiceValidator', () => {
+  test('replays the recorded response for the invoice', async () => {
+    const validator = RecordedInvoiceValidator.fromFile(path.join(FIXTURES, 'recordings.json'));
+    const result = await validator.validate(fixtureInput());
+
+    assert.equal(result.validator, 'recorded');
+    assert.equal(result.status, 'valid');
+    assert.deepEqual(verdicts(result.fields), ALL_MATCH);
+  });
+
+  test('fails for an invoice without a recording', async () => {
+    const validator = new RecordedInvoiceValidator({});
+    await assert.rejects(validator.validate(fixtureInput()), /No recorded response/);
+  });
+});
+
+describe('GeminiInvoiceValidator', () => {
+  function mockGemini(text: string, status = 200) {
+    mock.method(globalThis, 'fetch', async () =>
+      new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text }] } }] }), { status }));
+  }
+
+  test('compares the fields the model extracted', async () => {
+    mockGemini(JSON.stringify({
+      total: 1210,
+      vatAmount: 210,
+      vatId: 'NL004495445B01',
+      supplierName: 'Fixture Studio B.V.',
+      invoiceNumber: 'INV-2025-001',
+      invoiceDate: '2025-01-15',
+      confidence: 'medium',
+    }));
+    const result = await new GeminiInvoiceValidator('test-key', 'test-model').validate(fixtureInput());
+
+    assert.equal(result.validator, 'gemini:test-model');
+    assert.equal(result.confidence, 'medium');
+    assert.deepEqual(verdicts(result.fields), ALL_MATCH);
+  });
+
+  for (const [name, mockResponse] of [
+    ['an answer that is not JSON', () => mockGemini('The total is 1210')],
+    ['an answer that does not fit the schema', () => mockGemini(JSON.stringify({ total: 'EUR 1.210,00', confidence: 'sure' }))],
+    ['an HTTP error', () => mockGemini('', 503)],
+    ['a network error', () => mock.method(globalThis, 'fetch', async () => { throw new TypeError('fetch failed'); })],
+    ['a timeout', () => mock.method(globalThis, 'fetch', async (_url: string, init: RequestInit) => {
+      assert.ok(init.signal, 'Gemini requests need a timeout');
+      throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+    })],
+  ] as const) {
+    test(`falls back to the local validator on ${name}`, async () => {
+      mock.method(console, 'error', () => {});
+      mockResponse();
+      const result = await new GeminiInvoiceValidator('test-key', 'test-model').validate(fixtureInput());
+
+      assert.equal(result.validator, 'local');
+      assert.equal(result.status, 'valid');
+    });
+  }
+});
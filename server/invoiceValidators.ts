@@ -0,0 +1,218 @@
+import fs from "fs";
+import crypto from "crypto";
+import { z } from "zod";
+import type { Creator, PaymentRequest } from "@shared/schema";
+import {
+  compareInvoiceFields,
+  extractInvoiceFields,
+  extractPdfText,
+  parseDate,
+  type ExtractedInvoiceFields,
+  type FieldVerdict,
+} from "./invoiceValidation";
+
+export type ValidationConfidence = 'high' | 'medium' | 'low';
+
+export interface InvoiceValidationInput {
+  filePath: string;
+  paymentRequest: PaymentRequest;
+  creator: Creator;
+}
+
+export interface InvoiceValidationResult {
+  validator: string;
+  status: 'valid' | 'invalid';
+  confidence: ValidationConfidence;
+  fields: FieldVerdict[];
+  // One failure reason per line
+  notes: string;
+}
+
+export interface InvoiceValidator {
+  readonly name: string;
+  validate(input: InvoiceValidationInput): Promise<InvoiceValidationResult>;
+}
+
+function buildResult(
+  validator: string,
+  confidence: ValidationConfidence,
+  fields: FieldVerdict[],
+): InvoiceValidationResult {
+  const failures = fields.filter(field => field.reason).map(field => field.reason!);
+
+  return {
+    validator,
+    status: failures.length === 0 ? 'valid' : 'invalid',
+    confidence,
+    fields,
+    notes: failures.length === 0 ? 'All invoice checks passed' : failures.join('\n'),
+  };
+}
+
+function unreadableResult(validator: string, notes: string): InvoiceValidationResult {
+  return { validator, status: 'invalid', confidence: 'low', fields: [], notes };
+}
+
+// Rule-based validator working on the PDF text layer; needs no network access
+export class LocalInvoiceValidator implements InvoiceValidator {
+  readonly name = 'local';
+
+  async validate({ filePath, paymentRequest, creator }: InvoiceValidationInput): Promise<InvoiceValidationResult> {
+    let text: string;
+    try {
+      text = await extractPdfText(filePath);
+    } catch (error) {
+      return unreadableResult(this.name, 'Invoice file could not be read as a PDF');
+    }
+
+    if (!text.trim()) {
+      return unreadableResult(this.name, 'No readable text found in the invoice (scanned invoices are not supported)');
+    }
+
+    const fields = compareInvoiceFields(extractInvoiceFields(text), paymentRequest, creator);
+    const missing = fields.filter(field => field.verdict === 'missing').length;
+
+    return buildResult(this.name, missing === 0 ? 'high' : 'medium', fields);
+  }
+}
+
+// Fields as returned by the language model. The model's answer is untrusted,
+// so it is parsed with this schema rather than cast.
+export const llmInvoiceExtractionSchema = z.object({
+  total: z.number().nullable().default(null),
+  vatAmount: z.number().nullable().default(null),
+  vatId: z.string().nullable().default(null),
+  supplierName: z.string().nullable().default(null),
+  invoiceNumber: z.string().nullable().default(null),
+  invoiceDate: z.string().nullable().default(null),
+  confidence: z.enum(['high', 'medium', 'low']),
+});
+
+export type LlmInvoiceExtraction = z.infer<typeof llmInvoiceExtractionSchema>;
+
+const EXTRACTION_PROMPT = `Extract the following fields from this invoice and answer with JSON only:
+{"total": number|null, "vatAmount": number|null, "vatId": string|null, "supplierName": string|null,
+ "invoiceNumber": string|null, "invoiceDate": "YYYY-MM-DD"|null, "confidence": "high"|"medium"|"low"}
+"total" is the grand total including VAT, "vatId" and "supplierName" belong to the party issuing the invoice.
+Use null for anything not present on the invoice. "confidence" is how certain you are of the extraction.`;
+
+const GEMINI_TIMEOUT_MS = 30 * 1000;
+
+function toExtractedFields(extraction: LlmInvoiceExtraction): ExtractedInvoiceFields {
+  return {
+    totals: extraction.total !== null ? [extraction.total] : [],
+    vatAmounts: extraction.vatAmount !== null ? [extraction.vatAmount] : [],
+    vatIds: extraction.vatId ? [extraction.vatId] : [],
+    supplierName: extraction.supplierName ?? undefined,
+    invoiceNumber: extraction.invoiceNumber ?? undefined,
+    invoiceDate: extraction.invoiceDate ? parseDate(extraction.invoiceDate) : undefined,
+  };
+}
+
+function hashFile(contents: Buffer): string {
+  return crypto.createHash('sha256').update(contents).digest('hex');
+}
+
+// Gemini-backed validator: the model extracts the fields, the comparison with
+// the payment request stays deterministic. When the model can't be reached or
+// answers with something unusable, the local validator takes over.
+export class GeminiInvoiceValidator implements InvoiceValidator {
+  readonly name: string;
+  private fallback = new LocalInvoiceValidator();
+
+  constructor(private apiKey: string, private model: string) {
+    this.name = `gemini:${model}`;
+  }
+
+  async extract(contents: Buffer): Promise<LlmInvoiceExtraction> {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{
+            parts: [
+              { inline_data: { mime_type: 'application/pdf', data: contents.toString('base64') } },
+              { text: EXTRACTION_PROMPT },
+            ],
+          }],
+          generationConfig: { response_mime_type: 'application/json' },
+        }),
+        // The upload waits for the validation, so a hanging model falls back instead
+        signal: AbortSignal.timeout(GEMINI_TIMEOUT_MS),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Gemini request failed with status ${response.status}`);
+    }
+
+    const body = await response.json();
+    const text = body.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      throw new Error('Gemini returned no content');
+    }
+
+    return llmInvoiceExtractionSchema.parse(JSON.parse(text));
+  }
+
+  async validate(input: InvoiceValidationInput): Promise<InvoiceValidationResult> {
+    let extraction: LlmInvoiceExtraction;
+    try {
+      extraction = await this.extract(await fs.promises.readFile(input.filePath));
+    } catch (error) {
+      console.error('Gemini invoice extraction failed, validating locally:', error);
+      return await this.fallback.validate(input);
+    }
+
+    const fields = compareInvoiceFields(toExtractedFields(extraction), input.paymentRequest, input.creator);
+
+    return buildResult(this.name, extraction.confidence, fields);
+  }
+}
+
+// Replays recorded model responses keyed by the SHA-256 of the invoice file,
+// so the LLM path can be exercised offline and deterministically
+export class RecordedInvoiceValidator implements InvoiceValidator {
+  readonly name = 'recorded';
+
+  constructor(private recordings: Record<string, LlmInvoiceExtraction>) {}
+
+  static fromFile(recordingsPath: string): RecordedInvoiceValidator {
+    const recordings = z.record(llmInvoiceExtractionSchema).parse(JSON.parse(fs.readFileSync(recordingsPath, 'utf-8')));
+    return new RecordedInvoiceValidator(recordings);
+  }
+
+  async validate({ filePath, paymentRequest, creator }: InvoiceValidationInput): Promise<InvoiceValidationResult> {
+    const contents = await fs.promises.readFile(filePath);
+    const hash = hashFile(contents);
+    const extraction = this.recordings[hash];
+    if (!extraction) {
+      throw new Error(`No recorded response for invoice ${hash}`);
+    }
+
+    const fields = compareInvoiceFields(toExtractedFields(extraction), paymentRequest, creator);
+    return buildResult(this.name, extraction.confidence, fields);
+  }
+}
+
+// INVOICE_VALIDATOR selects the implementation: local (default), gemini or recorded
+export function createInvoiceValidator(): InvoiceValidator {
+  switch (process.env.INVOICE_VALIDATOR || 'local') {
+    case 'local':
+      return new LocalInvoiceValidator();
+    case 'gemini':
+      if (!process.env.GEMINI_API_KEY) {
+        throw new Error('GEMINI_API_KEY must be set when INVOICE_VALIDATOR=gemini');
+      }
+      return new GeminiInvoiceValidator(process.env.GEMINI_API_KEY, process.env.GEMINI_MODEL || 'gemini-2.0-flash');
+    case 'recorded':
+      if (!process.env.INVOICE_VALIDATOR_RECORDINGS) {
+        throw new Error('INVOICE_VALIDATOR_RECORDINGS must be set when INVOICE_VALIDATOR=recorded');
+      }
+      return RecordedInvoiceValidator.fromFile(process.env.INVOICE_VALIDATOR_RECORDINGS);
+    default:
+      throw new Error(`Unknown invoice validator: ${process.env.INVOICE_VALIDATOR}`);
+  }
+}
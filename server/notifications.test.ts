@@ -0,0 +1,198 @@
+import { after, afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import net from "net";
+import type { OutboxEmail } from "@shared/schema";
+
+interface CaughtEmail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+// Catch-all SMTP server in the spirit of Mailpit or MailHog: accepts every
+// email, except for recipients at bounce.test, and keeps what it received
+function startCatchAllSmtp(): Promise<{ server: net.Server; port: number; inbox: CaughtEmail[] }> {
+  const inbox: CaughtEmail[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let current: CaughtEmail = { from: '', to: [], data: '' };
+    let readingData = false;
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply('220 localhost ESMTP catch-all');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (readingData) {
+          if (line === '.') {
+            readingData = false;
+            inbox.push(current);
+            current = { from: '', to: [], data: '' };
+            reply('250 Queued');
+          } else {
+            current.data += `${line.startsWith('..') ? line.slice(1) : line}\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          reply('250 localhost');
+        } else if (command === 'MAIL') {
+          current.from = line.slice(line.indexOf('<') + 1, line.indexOf('>'));
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          const recipient = line.slice(line.indexOf('<') + 1, line.indexOf('>'));
+          if (recipient.endsWith('@bounce.test')) {
+            reply('550 Mailbox unavailable');
+          } else {
+            current.to.push(recipient);
+            reply('250 OK');
+          }
+        } else if (command === 'DATA') {
+          readingData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'RSET') {
+          current = { from: '', to: [], data: '' };
+          reply('250 OK');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port, inbox });
+    });
+  });
+}
+
+const smtp = await startCatchAllSmtp();
+
+// The transport is configured from the environment when the module loads.
+// Storage is mocked below, so the database is never connected to.
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+process.env.SMTP_HOST = '127.0.0.1';
+process.env.SMTP_PORT = smtp.port.toString();
+process.env.EMAIL_FROM = 'Creator Payouts <payouts@example.test>';
+
+const { storage } = await import("./storage");
+const { deliverDueEmails, MAX_EMAIL_ATTEMPTS, SmtpEmailTransport } = await import("./notifications");
+const { renderEmail } = await import("./emailTemplates");
+
+function outboxEmail(overrides: Partial<OutboxEmail> = {}): OutboxEmail {
+  const rendered = renderEmail('payout_sent', 'nl', { name: 'Sanne', amount: '€1.210,00', description: 'Spring launch' });
+  return {
+    id: 1,
+    template: 'payout_sent',
+    language: rendered.language,
+    recipient: 'sanne@example.test',
+    subject: rendered.subject,
+    text: rendered.text,
+    html: rendered.html,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    lastError: null,
+    sentAt: null,
+    entityType: 'payment_request',
+    entityId: '42',
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+// Storage holding a single due email; claiming it counts the attempt
+function mockOutbox(email: OutboxEmail) {
+  mock.method(storage, 'releaseExpiredOutboxLeases', async () => {});
+  mock.method(storage, 'getDueOutboxEmails', async () => [email]);
+  mock.method(storage, 'claimOutboxEmail', async () => ({ ...email, status: 'sending', attempts: email.attempts + 1 }));
+  return mock.method(storage, 'updateOutboxEmail', async (id: number, updates: Partial<OutboxEmail>) => ({ ...email, ...updates, id }));
+}
+
+beforeEach(() => {
+  smtp.inbox.length = 0;
+  mock.method(console, 'error', () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+after(() => {
+  smtp.server.close();
+});
+
+describe('SmtpEmailTransport', () => {
+  test('delivers to the local catch-all server', async () => {
+    await new SmtpEmailTransport('payouts@example.test').send({
+      to: 'sanne@example.test',
+      subject: 'Test email',
+      text: 'Hello Sanne',
+      html: '<p>Hello Sanne</p>',
+    });
+
+    assert.equal(smtp.inbox.length, 1);
+    assert.equal(smtp.inbox[0].from, 'payouts@example.test');
+    assert.deepEqual(smtp.inbox[0].to, ['sanne@example.test']);
+    assert.match(smtp.inbox[0].data, /^Subject: Test email$/m);
+  });
+});
+
+describe('deliverDueEmails', () => {
+  test('sends due emails and marks them as sent', async () => {
+    const updateOutboxEmail = mockOutbox(outboxEmail());
+    await deliverDueEmails();
+
+    assert.equal(smtp.inbox.length, 1);
+    assert.deepEqual(smtp.inbox[0].to, ['sanne@example.test']);
+    assert.match(smtp.inbox[0].data, /^From: Creator Payouts <payouts@example\.test>$/m);
+
+    const [id, updates] = updateOutboxEmail.mock.calls[0].arguments;
+    assert.equal(id, 1);
+    assert.equal(updates.status, 'sent');
+    assert.equal(updates.text, undefined);
+  });
+
+  test('drops the body of login emails once they are sent', async () => {
+    const rendered = renderEmail('creator_login', 'en', { name: 'Sanne', loginUrl: 'https://example.test/login/secret' });
+    const updateOutboxEmail = mockOutbox(outboxEmail({ template: 'creator_login', ...rendered }));
+    await deliverDueEmails();
+
+    assert.match(smtp.inbox[0].data, /login\/secret/);
+    const [, updates] = updateOutboxEmail.mock.calls[0].arguments;
+    assert.equal(updates.status, 'sent');
+    assert.equal(updates.text, '[redacted]');
+    assert.equal(updates.html, '[redacted]');
+  });
+
+  test('schedules a retry when the server refuses the email', async () => {
+    const updateOutboxEmail = mockOutbox(outboxEmail({ recipient: 'sanne@bounce.test' }));
+    await deliverDueEmails();
+
+    assert.equal(smtp.inbox.length, 0);
+    const [, updates] = updateOutboxEmail.mock.calls[0].arguments;
+    assert.equal(updates.status, 'pending');
+    assert.match(updates.lastError!, /550/);
+    assert.ok(updates.nextAttemptAt!.getTime() > Date.now());
+  });
+
+  test('gives up after the last attempt', async () => {
+    const updateOutboxEmail = mockOutbox(outboxEmail({ recipient: 'sanne@bounce.test', attempts: MAX_EMAIL_ATTEMPTS - 1 }));
+    await deliverDueEmails();
+
+    const [, updates] = updateOutboxEmail.mock.calls[0].arguments;
+    assert.equal(updates.status, 'failed');
+  });
+});
@@ -0,0 +1,216 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { storage } from "./storage";
+import { renderEmail, type EmailTemplate, type EmailTemplateData } from "./emailTemplates";
+import { formatCurrency } from "@shared/vat-utils";
+import { getNetPayoutAmount } from "@shared/tax-forms";
+import type { Creator, Invoice, OutboxEmail, PaymentRequest } from "@shared/schema";
+
+export const MAX_EMAIL_ATTEMPTS = 8;
+const DELIVERY_INTERVAL_MS = 60 * 1000;
+const SEND_LEASE_MS = 10 * 60 * 1000; // A send taking longer than this is assumed to have crashed
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+// Defaults to an unauthenticated server on localhost:1025, which is where
+// local catch-all SMTP servers such as Mailpit or MailHog listen
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(private from: string) {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '1025'),
+      secure: process.env.SMTP_SECURE === 'true',
+      ...(process.env.SMTP_USER && {
+        auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD },
+      }),
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...email });
+  }
+}
+
+export function createEmailTransport(): EmailTransport {
+  return new SmtpEmailTransport(process.env.EMAIL_FROM || 'Creator Payouts <payouts@localhost>');
+}
+
+const transport = createEmailTransport();
+
+interface EmailEntity {
+  entityType: string;
+  entityId: number | string;
+}
+
+// Renders the email and stores it in the outbox. Delivery happens in the
+// background, so callers never fail because the mail server is down.
+export async function queueEmail<T extends EmailTemplate>(
+  template: T,
+  recipient: Creator,
+  data: EmailTemplateData[T],
+  entity: EmailEntity,
+): Promise<OutboxEmail> {
+  const rendered = renderEmail(template, recipient.language, data);
+  const email = await storage.createOutboxEmail({
+    template,
+    language: rendered.language,
+    recipient: recipient.email,
+    subject: rendered.subject,
+    text: rendered.text,
+    html: rendered.html,
+    entityType: entity.entityType,
+    entityId: entity.entityId.toString(),
+  });
+
+  deliverDueEmails().catch(error => {
+    console.error('Error delivering emails:', error);
+  });
+
+  return email;
+}
+
+// Emails whose body is a credential (magic login links). Their body is only
+// kept until the email is sent or given up on; login tokens themselves are
+// only ever stored hashed.
+const SENSITIVE_TEMPLATES = new Set<string>(['creator_login']);
+
+function redactBody(email: OutboxEmail): Partial<OutboxEmail> {
+  return SENSITIVE_TEMPLATES.has(email.template) ? { text: '[redacted]', html: '[redacted]' } : {};
+}
+
+// 1 minute after the first failure, doubling up to 6 hours
+function getRetryDelay(attempts: number): number {
+  return Math.min(60 * 1000 * 2 ** (attempts - 1), 6 * 60 * 60 * 1000);
+}
+
+async function deliverEmail(email: OutboxEmail): Promise<void> {
+  const claimed = await storage.claimOutboxEmail(email.id, new Date(Date.now() + SEND_LEASE_MS));
+  if (!claimed) {
+    return; // Another worker got to it first
+  }
+
+  try {
+    await transport.send({
+      to: claimed.recipient,
+      subject: claimed.subject,
+      text: claimed.text,
+      html: claimed.html,
+    });
+    await storage.updateOutboxEmail(claimed.id, { status: 'sent', sentAt: new Date(), lastError: null, ...redactBody(claimed) });
+  } catch (error: any) {
+    const giveUp = claimed.attempts >= MAX_EMAIL_ATTEMPTS;
+    console.error(`Error sending email ${claimed.id} (attempt ${claimed.attempts}):`, error);
+    await storage.updateOutboxEmail(claimed.id, {
+      status: giveUp ? 'failed' : 'pending',
+      lastError: error.message || 'Unknown error',
+      nextAttemptAt: new Date(Date.now() + getRetryDelay(claimed.attempts)),
+      ...(giveUp && redactBody(claimed)),
+    });
+  }
+}
+
+let delivering = false;
+
+export async function deliverDueEmails(): Promise<void> {
+  if (delivering) {
+    return;
+  }
+
+  delivering = true;
+  try {
+    await storage.releaseExpiredOutboxLeases();
+    for (const email of await storage.getDueOutboxEmails()) {
+      await deliverEmail(email);
+    }
+  } finally {
+    delivering = false;
+  }
+}
+
+export function scheduleEmailDelivery() {
+  const run = () => deliverDueEmails().catch(error => {
+    console.error('Error delivering emails:', error);
+  });
+
+  run();
+  setInterval(run, DELIVERY_INTERVAL_MS).unref();
+}
+
+// Notifications. Failing to queue an email never fails the action that caused it.
+
+function formatAmount(request: PaymentRequest): string {
+  return formatCurrency(parseFloat(request.totalAmount), request.currency);
+}
+
+async function notify<T extends EmailTemplate>(
+  template: T,
+  recipient: Creator,
+  data: EmailTemplateData[T],
+  entity: EmailEntity,
+): Promise<void> {
+  try {
+    await queueEmail(template, recipient, data, entity);
+  } catch (error) {
+    console.error(`Error queueing ${template} email:`, error);
+  }
+}
+
+export async function notifyPaymentRequestCreated(request: PaymentRequest, creator: Creator, baseUrl: string) {
+  await notify('payment_request_created', creator, {
+    name: creator.fullName,
+    amount: formatAmount(request),
+    description: request.description,
+    claimUrl: `${baseUrl}/claim/${request.claimToken}`,
+  }, { entityType: 'payment_request', entityId: request.id });
+}
+
+export async function notifyOnboardingInvite(creator: Creator, onboardingUrl: string) {
+  await notify('onboarding_invite', creator, {
+    name: creator.fullName,
+    onboardingUrl,
+  }, { entityType: 'creator', entityId: creator.id });
+}
+
+export async function notifyInvoiceRejected(invoice: Invoice, request: PaymentRequest, creator: Creator, baseUrl: string) {
+  await notify('invoice_rejected', creator, {
+    name: creator.fullName,
+    amount: formatAmount(request),
+    reasons: (invoice.aiValidationNotes || '').split('\n').filter(Boolean),
+    claimUrl: `${baseUrl}/claim/${request.claimToken}`,
+  }, { entityType: 'invoice', entityId: invoice.id });
+}
+
+export async function notifyPayoutSent(request: PaymentRequest) {
+  const creator = await storage.getCreator(request.creatorId).catch(error => {
+    console.error('Error loading creator for payout_sent email:', error);
+    return undefined;
+  });
+  if (!creator) {
+    return;
+  }
+
+  await notify('payout_sent', creator, {
+    name: creator.fullName,
+    amount: formatCurrency(getNetPayoutAmount(request), request.currency),
+    description: request.description,
+  }, { entityType: 'payment_request', entityId: request.id });
+}
+
+export async function notifyCreatorLogin(creator: Creator, loginUrl: string) {
+  await notify('creator_login', creator, {
+    name: creator.fullName,
+    loginUrl,
+  }, { entityType: 'creator', entityId: creator.id });
+}
@@ -0,0 +1,89 @@
+import ExcelJS from "exceljs";
+import type { Creator, PaymentRequest } from "@shared/schema";
+import type { CreditNoteWithNumber } from "./storage";
+import { getNetPayoutAmount } from "@shared/tax-forms";
+
+type PaymentWithCreator = PaymentRequest & { creator: Creator; creditNotes: CreditNoteWithNumber[] };
+
+function sumCredited(payment: PaymentWithCreator, field: 'amount' | 'vatAmount' | 'totalAmount'): number {
+  return payment.creditNotes.reduce((sum, creditNote) => sum + parseFloat(creditNote[field]), 0);
+}
+
+interface ExportColumn {
+  header: string;
+  value: (payment: PaymentWithCreator) => string | number | Date | null;
+  width?: number;
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Payment ID', value: p => p.id, width: 12 },
+  { header: 'Creator', value: p => p.creator.fullName, width: 24 },
+  { header: 'Company', value: p => p.creator.companyName, width: 24 },
+  { header: 'Country', value: p => p.creator.country, width: 10 },
+  { header: 'Business Type', value: p => p.creator.businessType, width: 16 },
+  { header: 'VAT ID', value: p => p.creator.vatId, width: 18 },
+  { header: 'Description', value: p => p.description, width: 32 },
+  { header: 'Currency', value: p => p.currency, width: 10 },
+  { header: 'Amount', value: p => parseFloat(p.amount), width: 12 },
+  { header: 'Service Type', value: p => p.serviceType, width: 14 },
+  { header: 'VAT Rule', value: p => p.vatRuleId, width: 22 },
+  { header: 'VAT Rate', value: p => parseFloat(p.vatRate), width: 10 },
+  { header: 'VAT Amount', value: p => parseFloat(p.vatAmount), width: 12 },
+  { header: 'Total', value: p => parseFloat(p.totalAmount), width: 12 },
+  { header: 'Withholding Rate', value: p => parseFloat(p.withholdingRate), width: 16 },
+  { header: 'Withholding', value: p => parseFloat(p.withholdingAmount), width: 12 },
+  { header: 'Net Payout', value: p => getNetPayoutAmount(p), width: 12 },
+  { header: 'Credit Notes', value: p => p.creditNotes.map(creditNote => creditNote.invoiceNumber).join(' ') || null, width: 24 },
+  { header: 'Credited Amount', value: p => -sumCredited(p, 'amount'), width: 16 },
+  { header: 'Credited VAT', value: p => -sumCredited(p, 'vatAmount'), width: 14 },
+  { header: 'Credited Total', value: p => -sumCredited(p, 'totalAmount'), width: 14 },
+  { header: 'Status', value: p => p.status, width: 12 },
+  { header: 'Created', value: p => p.createdAt, width: 20 },
+  { header: 'Claimed', value: p => p.claimedAt, width: 20 },
+  { header: 'Paid', value: p => p.paidAt, width: 20 },
+];
+
+// Creator-editable text such as names and descriptions must not be run as a
+// formula when the export is opened in a spreadsheet. Numbers and dates are
+// written as they are.
+function escapeFormula(value: string | number | Date | null): string | number | Date | null {
+  return typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function toCsvField(value: string | number | Date | null): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const escaped = escapeFormula(value)!;
+  const text = escaped instanceof Date ? escaped.toISOString() : escaped.toString();
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportPaymentsToCsv(payments: PaymentWithCreator[]): string {
+  const lines = [
+    EXPORT_COLUMNS.map(column => toCsvField(column.header)).join(','),
+    ...payments.map(payment =>
+      EXPORT_COLUMNS.map(column => toCsvField(column.value(payment))).join(','),
+    ),
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+export async function exportPaymentsToXlsx(payments: PaymentWithCreator[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Payment Requests');
+
+  sheet.columns = EXPORT_COLUMNS.map(column => ({
+    header: column.header,
+    width: column.width,
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  payments.forEach(payment => {
+    sheet.addRow(EXPORT_COLUMNS.map(column => escapeFormula(column.value(payment))));
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
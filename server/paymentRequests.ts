@@ -0,0 +1,135 @@
+import { storage } from "./storage";
+import { createClaimToken } from "./claimLinks";
+import { getWithholding } from "./taxForms";
+import { getReverseChargeEvidence } from "./vatVerification";
+import type { StatusActor } from "./paymentStatus";
+import { roundToCurrency, SUPPORTED_CURRENCIES } from "@shared/vat-utils";
+import { calculateVAT, isServiceType } from "@shared/vat-rules";
+import { getInstallmentsError, splitInstallments, type InstallmentInput } from "@shared/installments";
+import type { Creator, PaymentRequest } from "@shared/schema";
+
+// Error that maps onto an HTTP status when a request cannot be created
+export class PaymentRequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'PaymentRequestError';
+  }
+}
+
+// What creators see of a payment request, through the portal or a claim
+// link: everything except the admins who handled it
+export type CreatorPaymentRequest = Omit<PaymentRequest, 'createdBy' | 'approvedBy' | 'rejectedBy'>;
+
+export function toCreatorPaymentRequest({ createdBy, approvedBy, rejectedBy, ...request }: PaymentRequest): CreatorPaymentRequest {
+  return request;
+}
+
+export interface NewPaymentRequest {
+  amount: number; // Excluding VAT
+  currency: string;
+  serviceType: string;
+  description?: string | null;
+  dueDate?: Date | null;
+  installments?: InstallmentInput[];
+  recurringPaymentId?: number; // Set with recurringPeriod for requests generated by a series
+  recurringPeriod?: number;
+  campaignId?: number | null; // Campaign whose budget the request counts against
+  createdBy?: string | null; // Admin who asked for the request; the four-eyes rule keeps them from approving it
+}
+
+// Prices and stores a new payment request for the creator, with a fresh claim
+// link and its creation event. Both the create route and recurring payments
+// go through here, so they always apply the same VAT and withholding rules.
+export async function createPaymentRequest(
+  creator: Creator,
+  input: NewPaymentRequest,
+  actor: StatusActor,
+): Promise<PaymentRequest> {
+  const { currency, serviceType } = input;
+  if (!SUPPORTED_CURRENCIES.includes(currency)) {
+    throw new PaymentRequestError(`Unsupported currency: ${currency}`);
+  }
+  if (!isServiceType(serviceType)) {
+    throw new PaymentRequestError(`Unsupported service type: ${serviceType}`);
+  }
+
+  // Going over budget is only warned about when the request is entered;
+  // a different currency would make the budget meaningless
+  if (input.campaignId) {
+    const campaign = await storage.getCampaign(input.campaignId);
+    if (!campaign) {
+      throw new PaymentRequestError('Campaign not found', 404);
+    }
+    if (campaign.currency !== currency) {
+      throw new PaymentRequestError(`Campaign ${campaign.name} is budgeted in ${campaign.currency}`);
+    }
+  }
+
+  // Calculate VAT, rounded to the currency's minor unit
+  const baseAmount = roundToCurrency(input.amount, currency);
+  const vat = calculateVAT(baseAmount, {
+    country: creator.country,
+    businessType: creator.businessType,
+    serviceType,
+    smallBusinessScheme: creator.smallBusinessScheme,
+  });
+  const vatAmount = roundToCurrency(vat.amount, currency);
+  const totalAmount = baseAmount + vatAmount;
+
+  const installmentsError = input.installments && getInstallmentsError(baseAmount, input.installments, currency);
+  if (installmentsError) {
+    throw new PaymentRequestError(installmentsError);
+  }
+
+  // The reverse charge is only applied with a VAT ID check to back it
+  const vatCheck = vat.isEUVATShift ? await getReverseChargeEvidence(creator) : undefined;
+
+  // Withholding is kept back from the payout and never changes the invoice total
+  const withholding = await getWithholding(creator);
+  const withholdingAmount = roundToCurrency(baseAmount * withholding.rate, currency);
+
+  const paymentRequest = await storage.createPaymentRequest({
+    creatorId: creator.id,
+    amount: baseAmount.toString(),
+    serviceType,
+    vatRuleId: vat.ruleId,
+    vatRate: vat.rate.toString(),
+    vatAmount: vatAmount.toString(),
+    totalAmount: totalAmount.toString(),
+    withholdingRate: withholding.rate.toString(),
+    withholdingAmount: withholdingAmount.toString(),
+    taxFormId: withholding.taxFormId,
+    currency,
+    description: input.description,
+    ...createClaimToken(),
+    dueDate: input.dueDate ?? null,
+    vatCheckId: vatCheck?.id ?? null,
+    recurringPaymentId: input.recurringPaymentId ?? null,
+    recurringPeriod: input.recurringPeriod ?? null,
+    campaignId: input.campaignId ?? null,
+    createdBy: input.createdBy ?? null,
+  });
+
+  if (input.installments) {
+    const schedule = splitInstallments({ amount: baseAmount, vatAmount, withholdingAmount, currency }, input.installments);
+    await storage.createPaymentInstallments(schedule.map(installment => ({
+      paymentRequestId: paymentRequest.id,
+      number: installment.number,
+      amount: installment.amount.toString(),
+      vatAmount: installment.vatAmount.toString(),
+      totalAmount: installment.totalAmount.toString(),
+      withholdingAmount: installment.withholdingAmount.toString(),
+      dueDate: installment.dueDate ? new Date(installment.dueDate) : null,
+    })));
+  }
+
+  await storage.createPaymentRequestEvent({
+    paymentRequestId: paymentRequest.id,
+    fromStatus: null,
+    toStatus: paymentRequest.status,
+    actorType: actor.type,
+    actorId: actor.id ?? null,
+  });
+
+  return paymentRequest;
+}
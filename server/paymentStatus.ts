@@ -0,0 +1,55 @@
+import { storage, type PaymentRequestUpdate } from "./storage";
+import { notifyPayoutSent } from "./notifications";
+import { canTransition, type PaymentStatus } from "@shared/payment-status";
+import type { PaymentRequest } from "@shared/schema";
+
+// Who caused a status change, as recorded in the payment request history
+export interface StatusActor {
+  type: 'admin' | 'creator' | 'stripe' | 'system';
+  id?: string | null; // User ID, creator ID or Stripe event ID
+}
+
+export const SYSTEM_ACTOR: StatusActor = { type: 'system' };
+
+export class InvalidTransitionError extends Error {
+  status = 409;
+
+  constructor(public from: string, public to: string) {
+    super(`Payment request cannot move from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+// The only way to change a payment request's status. Checks the transition
+// table, guards against concurrent changes and records the history entry.
+export async function transitionPaymentRequest(
+  request: PaymentRequest,
+  toStatus: PaymentStatus,
+  actor: StatusActor,
+  updates: PaymentRequestUpdate = {},
+  note?: string | null,
+): Promise<PaymentRequest> {
+  if (!canTransition(request.status, toStatus)) {
+    throw new InvalidTransitionError(request.status, toStatus);
+  }
+
+  const updatedRequest = await storage.updatePaymentRequestStatus(request.id, request.status, toStatus, updates, {
+    actorType: actor.type,
+    actorId: actor.id ?? null,
+    note: note ?? null,
+  });
+
+  // Someone else changed the status since the request was loaded
+  if (!updatedRequest) {
+    const current = await storage.getPaymentRequest(request.id);
+    throw new InvalidTransitionError(current?.status ?? request.status, toStatus);
+  }
+
+  // Whichever path marks the payout as paid (payout, reconciliation, webhook),
+  // the creator is told exactly once per successful transition
+  if (toStatus === 'paid') {
+    await notifyPayoutSent(updatedRequest);
+  }
+
+  return updatedRequest;
+}
@@ -0,0 +1,309 @@
+import type Stripe from "stripe";
+import { stripe } from "./stripe";
+import { storage } from "./storage";
+import { transitionPaymentRequest, InvalidTransitionError, SYSTEM_ACTOR, type StatusActor } from "./paymentStatus";
+import { hasValidApproval } from "./approvals";
+import { log } from "./vite";
+import { canTransition } from "@shared/payment-status";
+import { toMinorUnits } from "@shared/vat-utils";
+import { getNetPayoutAmount } from "@shared/tax-forms";
+import type { Creator, PaymentRequest } from "@shared/schema";
+
+// Error that maps onto an HTTP status in the payout routes
+export class PayoutError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'PayoutError';
+  }
+}
+
+export interface PayoutResult {
+  paymentRequest: PaymentRequest;
+  transfer: Stripe.Transfer;
+}
+
+export interface BatchPayoutItem {
+  paymentRequestId: number;
+  success: boolean;
+  message: string;
+  transferId?: string;
+  status?: string; // paid, or partially_paid after an installment
+}
+
+// Requests left in `processing` for longer than this are considered interrupted
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+// Every transfer for a request shares a transfer group, so it can be found
+// again in Stripe even when our database never learned about it
+function getTransferGroup(paymentRequestId: number): string {
+  return `payment_request_${paymentRequestId}`;
+}
+
+interface PreparedPayout {
+  request: PaymentRequest;
+  creator: Creator & { stripeAccountId: string };
+}
+
+async function preparePayout(
+  id: number,
+  accountCache = new Map<string, Promise<Stripe.Account>>(),
+): Promise<PreparedPayout> {
+  const request = await storage.getPaymentRequest(id);
+  if (!request) {
+    throw new PayoutError('Payment request not found', 404);
+  }
+
+  if (request.status === 'paid') {
+    throw new PayoutError('Payment request has already been paid', 409);
+  }
+  if (request.status === 'processing') {
+    throw new PayoutError('Payment request is already being processed', 409);
+  }
+  if (!canTransition(request.status, 'processing')) {
+    throw new PayoutError(`Payment request cannot be paid while ${request.status}`, 409);
+  }
+  if (!hasValidApproval(request)) {
+    throw new PayoutError('Payment request has not been approved by a second admin', 403);
+  }
+
+  const creator = await storage.getCreator(request.creatorId);
+  if (!creator || !creator.stripeAccountId) {
+    throw new PayoutError('Creator Stripe account not found');
+  }
+
+  // Creators with several requests in a batch are only checked once
+  let account = accountCache.get(creator.stripeAccountId);
+  if (!account) {
+    account = stripe.accounts.retrieve(creator.stripeAccountId);
+    accountCache.set(creator.stripeAccountId, account);
+  }
+
+  const { charges_enabled, payouts_enabled } = await account;
+  if (!charges_enabled || !payouts_enabled) {
+    throw new PayoutError('Creator Stripe account not ready for payments');
+  }
+
+  return { request, creator: creator as PreparedPayout['creator'] };
+}
+
+// Record a transfer that went through. A request paid in installments stays
+// partially paid until the transfer for its last installment.
+export async function completePayout(
+  request: PaymentRequest,
+  transfer: Stripe.Transfer,
+  actor: StatusActor,
+  paidAt: Date,
+  note: string,
+): Promise<PaymentRequest> {
+  const installments = await storage.getPaymentInstallmentsByPaymentRequests([request.id]);
+  const installment = installments.find(candidate => candidate.id === parseInt(transfer.metadata?.installmentId));
+  if (!installment) {
+    return await transitionPaymentRequest(request, 'paid', actor, {
+      paidAt,
+      stripeTransferId: transfer.id,
+      failureReason: null,
+    }, note);
+  }
+
+  if (installment.status !== 'paid') {
+    await storage.updatePaymentInstallment(installment.id, {
+      status: 'paid',
+      paidAt,
+      stripeTransferId: transfer.id,
+      failureReason: null,
+    });
+  }
+
+  const outstanding = installments.filter(candidate => candidate.status !== 'paid' && candidate.id !== installment.id);
+  return await transitionPaymentRequest(request, outstanding.length > 0 ? 'partially_paid' : 'paid', actor, {
+    paidAt: outstanding.length > 0 ? null : paidAt,
+    stripeTransferId: transfer.id,
+    failureReason: null,
+  }, `${note} (installment ${installment.number} of ${installments.length})`);
+}
+
+async function executePayout({ request, creator }: PreparedPayout, actor: StatusActor): Promise<PayoutResult> {
+  // Claim the request atomically; a concurrent click or retry loses here
+  // instead of creating a second transfer
+  const attempt = request.payoutAttempts + 1;
+  let processingRequest: PaymentRequest;
+  try {
+    processingRequest = await transitionPaymentRequest(request, 'processing', actor, {
+      payoutAttempts: attempt,
+      processingStartedAt: new Date(),
+      failureReason: null,
+    });
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      throw new PayoutError('Payment request is already being processed or has been paid', 409);
+    }
+    throw error;
+  }
+
+  // Requests with a schedule transfer one installment per payout
+  const installments = await storage.getPaymentInstallmentsByPaymentRequests([request.id]);
+  const installment = installments.find(candidate => candidate.status !== 'paid');
+  if (installment) {
+    await storage.updatePaymentInstallment(installment.id, { status: 'processing', failureReason: null });
+  }
+
+  const description = request.description || `Payment to ${creator.fullName}`;
+  let transfer: Stripe.Transfer;
+  try {
+    transfer = await stripe.transfers.create({
+      amount: toMinorUnits(getNetPayoutAmount(installment ?? request), request.currency),
+      currency: request.currency.toLowerCase(),
+      destination: creator.stripeAccountId,
+      description: installment ? `${description} (installment ${installment.number} of ${installments.length})` : description,
+      transfer_group: getTransferGroup(request.id),
+      metadata: installment
+        ? { paymentRequestId: request.id.toString(), installmentId: installment.id.toString() }
+        : { paymentRequestId: request.id.toString() },
+    }, {
+      // Retries of the same attempt (e.g. by the Stripe client on network
+      // errors) return the original transfer instead of creating another
+      idempotencyKey: `payment-request-${request.id}-attempt-${attempt}`,
+    });
+  } catch (error: any) {
+    // The transfer may still have gone through (e.g. a timeout after Stripe
+    // accepted it), so settle the request based on what Stripe has
+    let reconciled: Awaited<ReturnType<typeof reconcilePayout>>;
+    try {
+      reconciled = await reconcilePayout(processingRequest, error.message || 'Transfer failed', actor);
+    } catch (reconcileError) {
+      console.error(`Error reconciling payment request ${request.id}:`, reconcileError);
+      throw new PayoutError('Transfer outcome unknown; the payment will be reconciled automatically', 502);
+    }
+
+    if (reconciled.transfer) {
+      return { paymentRequest: reconciled.paymentRequest, transfer: reconciled.transfer };
+    }
+    throw error;
+  }
+
+  try {
+    const paymentRequest = await completePayout(processingRequest, transfer, actor, new Date(), `Transfer ${transfer.id}`);
+    return { paymentRequest, transfer };
+  } catch (error) {
+    // The transfer.created webhook may have settled the request first; the
+    // money has moved either way
+    if (error instanceof InvalidTransitionError) {
+      const paymentRequest = (await storage.getPaymentRequest(request.id))!;
+      if (paymentRequest.status === 'paid' || paymentRequest.status === 'partially_paid') {
+        return { paymentRequest, transfer };
+      }
+    }
+    throw error;
+  }
+}
+
+// Settle a request stuck in `processing` by looking its transfer up in
+// Stripe: a transfer in the request's group (for the installment being paid,
+// if any) means the money moved, no transfer means it did not and the
+// request can safely be retried.
+export async function reconcilePayout(
+  request: PaymentRequest,
+  failureReason = 'Payout was interrupted before a transfer was created',
+  actor = SYSTEM_ACTOR,
+): Promise<{ paymentRequest: PaymentRequest; transfer?: Stripe.Transfer }> {
+  const installments = await storage.getPaymentInstallmentsByPaymentRequests([request.id]);
+  const installment = installments.find(candidate => candidate.status === 'processing');
+  const transfers = await stripe.transfers.list({
+    transfer_group: getTransferGroup(request.id),
+    limit: 100,
+  });
+  const transfer = transfers.data.find(candidate => !candidate.reversed
+    && (!installment || candidate.metadata?.installmentId === installment.id.toString()));
+
+  try {
+    let paymentRequest: PaymentRequest;
+    if (transfer) {
+      paymentRequest = await completePayout(request, transfer, actor, new Date(transfer.created * 1000), `Reconciled with transfer ${transfer.id}`);
+    } else {
+      if (installment) {
+        await storage.updatePaymentInstallment(installment.id, { status: 'failed', failureReason });
+      }
+      paymentRequest = await transitionPaymentRequest(request, 'failed', actor, { failureReason }, failureReason);
+    }
+
+    return { paymentRequest, transfer };
+  } catch (error) {
+    // The transfer.created webhook may have settled the request in the meantime
+    if (error instanceof InvalidTransitionError) {
+      return { paymentRequest: (await storage.getPaymentRequest(request.id))!, transfer };
+    }
+    throw error;
+  }
+}
+
+// Reconcile every request that has been processing for too long, e.g.
+// because the server crashed between the Stripe call and the database update
+export async function recoverInterruptedPayouts(): Promise<void> {
+  const cutoff = Date.now() - STALE_PROCESSING_MS;
+  const processing = await storage.listPaymentRequests(1000, 0, 'processing');
+
+  for (const request of processing) {
+    if (request.processingStartedAt && request.processingStartedAt.getTime() > cutoff) {
+      continue;
+    }
+
+    try {
+      const { paymentRequest } = await reconcilePayout(request);
+      log(`Recovered payment request ${request.id}: ${paymentRequest.status}`, 'payouts');
+    } catch (error) {
+      console.error(`Error recovering payment request ${request.id}:`, error);
+    }
+  }
+}
+
+export function schedulePayoutRecovery() {
+  const run = () => recoverInterruptedPayouts().catch(error => {
+    console.error('Error recovering interrupted payouts:', error);
+  });
+
+  run();
+  setInterval(run, STALE_PROCESSING_MS).unref();
+}
+
+export async function processPaymentRequest(id: number, actor: StatusActor): Promise<PayoutResult> {
+  return await executePayout(await preparePayout(id), actor);
+}
+
+// Validate every request up front, then transfer the ones that passed.
+// Failures are reported per item and never abort the rest of the batch.
+export async function processPaymentRequests(ids: number[], actor: StatusActor): Promise<BatchPayoutItem[]> {
+  const accountCache = new Map<string, Promise<Stripe.Account>>();
+  const report = new Map<number, BatchPayoutItem>();
+  const prepared: PreparedPayout[] = [];
+
+  for (const id of ids) {
+    try {
+      prepared.push(await preparePayout(id, accountCache));
+    } catch (error: any) {
+      report.set(id, { paymentRequestId: id, success: false, message: error.message || 'Validation failed' });
+    }
+  }
+
+  for (const payout of prepared) {
+    try {
+      const { paymentRequest, transfer } = await executePayout(payout, actor);
+      report.set(payout.request.id, {
+        paymentRequestId: payout.request.id,
+        success: true,
+        message: 'Payment processed successfully',
+        transferId: transfer.id,
+        status: paymentRequest.status,
+      });
+    } catch (error: any) {
+      console.error(`Error processing payment request ${payout.request.id}:`, error);
+      report.set(payout.request.id, {
+        paymentRequestId: payout.request.id,
+        success: false,
+        message: error.message || 'Failed to process payment',
+      });
+    }
+  }
+
+  // Report in the order the requests were submitted
+  return ids.map(id => report.get(id)!);
+}
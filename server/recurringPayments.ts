@@ -0,0 +1,245 @@
+import { storage } from "./storage";
+import { createPaymentRequest } from "./paymentRequests";
+import { SYSTEM_ACTOR } from "./paymentStatus";
+import { notifyPaymentRequestCreated } from "./notifications";
+import { getAppBaseUrl } from "./claimLinks";
+import { log } from "./vite";
+import { SUPPORTED_CURRENCIES } from "@shared/vat-utils";
+import { isServiceType } from "@shared/vat-rules";
+import {
+  formatRecurringDescription,
+  getFirstPeriodFrom,
+  getPeriodStart,
+  type RecurringFrequency,
+} from "@shared/recurring-payments";
+import type { PaymentRequest, RecurringPayment } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Error that maps onto an HTTP status in the recurring payment routes
+export class RecurringPaymentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'RecurringPaymentError';
+  }
+}
+
+export interface RecurringPaymentInput {
+  creatorId: number;
+  amount: number;
+  currency: string;
+  serviceType: string;
+  descriptionTemplate: string;
+  frequency: RecurringFrequency;
+  startDate: Date;
+  endDate?: Date | null;
+  dueInDays?: number | null;
+}
+
+export type RecurringPaymentUpdate = Partial<Omit<RecurringPaymentInput, 'creatorId' | 'frequency' | 'startDate'>>;
+
+// How often the scheduler looks for due periods, configurable with
+// RECURRING_PAYMENTS_INTERVAL_MINUTES
+function getIntervalMs(): number {
+  const minutes = parseFloat(process.env.RECURRING_PAYMENTS_INTERVAL_MINUTES || '60');
+  return (isNaN(minutes) || minutes <= 0 ? 60 : minutes) * 60 * 1000;
+}
+
+function startOfToday(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function checkPricing(input: { currency?: string; serviceType?: string }) {
+  if (input.currency !== undefined && !SUPPORTED_CURRENCIES.includes(input.currency)) {
+    throw new RecurringPaymentError(`Unsupported currency: ${input.currency}`);
+  }
+  if (input.serviceType !== undefined && !isServiceType(input.serviceType)) {
+    throw new RecurringPaymentError(`Unsupported service type: ${input.serviceType}`);
+  }
+}
+
+// Schedule fields for the given next period; a period starting after the end
+// date ends the series instead
+function getSchedule(
+  series: Pick<RecurringPayment, 'startDate' | 'endDate' | 'frequency'>,
+  period: number,
+): Pick<RecurringPayment, 'nextPeriod' | 'nextRunAt'> & { status?: 'ended' } {
+  const nextRunAt = getPeriodStart(series.startDate, series.frequency as RecurringFrequency, period);
+  if (series.endDate && nextRunAt.getTime() > series.endDate.getTime()) {
+    return { nextPeriod: period, nextRunAt: null, status: 'ended' };
+  }
+  return { nextPeriod: period, nextRunAt };
+}
+
+// Periods that started before today are not generated retroactively
+export async function createRecurringPayment(
+  input: RecurringPaymentInput,
+  createdBy?: string | null,
+): Promise<RecurringPayment> {
+  checkPricing(input);
+  const creator = await storage.getCreator(input.creatorId);
+  if (!creator) {
+    throw new RecurringPaymentError('Creator not found', 404);
+  }
+
+  const series = { startDate: input.startDate, endDate: input.endDate ?? null, frequency: input.frequency };
+  const firstPeriod = getFirstPeriodFrom(input.startDate, input.frequency, startOfToday());
+
+  return await storage.createRecurringPayment({
+    ...input,
+    amount: input.amount.toString(),
+    endDate: input.endDate ?? null,
+    dueInDays: input.dueInDays ?? null,
+    status: 'active',
+    ...getSchedule(series, firstPeriod),
+    createdBy,
+  });
+}
+
+// Changes apply from the next generated request on; earlier requests keep
+// the amount and description they were created with
+export async function updateRecurringPayment(
+  series: RecurringPayment,
+  updates: RecurringPaymentUpdate,
+): Promise<RecurringPayment> {
+  if (series.status === 'ended') {
+    throw new RecurringPaymentError('Recurring payment has ended', 409);
+  }
+  checkPricing(updates);
+
+  const { amount, endDate, ...rest } = updates;
+  const changes: Partial<RecurringPayment> = { ...rest };
+  if (amount !== undefined) {
+    changes.amount = amount.toString();
+  }
+  if (endDate !== undefined) {
+    changes.endDate = endDate;
+    // Moving the end date before the next period ends the series
+    const schedule = getSchedule({ ...series, endDate }, series.nextPeriod);
+    if (schedule.status === 'ended') {
+      Object.assign(changes, schedule);
+    }
+  }
+
+  return await storage.updateRecurringPayment(series.id, changes);
+}
+
+export async function pauseRecurringPayment(series: RecurringPayment): Promise<RecurringPayment> {
+  if (series.status !== 'active') {
+    throw new RecurringPaymentError(`Recurring payment cannot be paused while ${series.status}`, 409);
+  }
+  return await storage.updateRecurringPayment(series.id, { status: 'paused' });
+}
+
+// Periods that started while the series was paused are skipped, not caught up
+export async function resumeRecurringPayment(series: RecurringPayment): Promise<RecurringPayment> {
+  if (series.status !== 'paused') {
+    throw new RecurringPaymentError(`Recurring payment cannot be resumed while ${series.status}`, 409);
+  }
+
+  const period = Math.max(
+    series.nextPeriod,
+    getFirstPeriodFrom(series.startDate, series.frequency as RecurringFrequency, startOfToday()),
+  );
+  return await storage.updateRecurringPayment(series.id, { status: 'active', ...getSchedule(series, period) });
+}
+
+export async function endRecurringPayment(series: RecurringPayment): Promise<RecurringPayment> {
+  if (series.status === 'ended') {
+    throw new RecurringPaymentError('Recurring payment has already ended', 409);
+  }
+  return await storage.updateRecurringPayment(series.id, { status: 'ended', nextRunAt: null });
+}
+
+// Generates the request for the series' next period and moves the series on.
+// The unique index on (series, period) makes a second run for the same
+// period fail instead of creating a duplicate; that period is simply skipped.
+async function generateNextPeriod(series: RecurringPayment): Promise<PaymentRequest | undefined> {
+  const creator = await storage.getCreator(series.creatorId);
+  if (!creator) {
+    throw new RecurringPaymentError('Creator not found', 404);
+  }
+
+  const frequency = series.frequency as RecurringFrequency;
+  const period = series.nextPeriod;
+  const periodStart = getPeriodStart(series.startDate, frequency, period);
+
+  let paymentRequest: PaymentRequest | undefined;
+  try {
+    paymentRequest = await createPaymentRequest(creator, {
+      amount: parseFloat(series.amount),
+      currency: series.currency,
+      serviceType: series.serviceType,
+      description: formatRecurringDescription(series.descriptionTemplate, series.startDate, frequency, period),
+      dueDate: series.dueInDays === null ? null : new Date(periodStart.getTime() + series.dueInDays * DAY_MS),
+      recurringPaymentId: series.id,
+      recurringPeriod: period,
+      createdBy: series.createdBy,
+    }, SYSTEM_ACTOR);
+  } catch (error: any) {
+    if (error?.code !== '23505') {
+      throw error;
+    }
+  }
+
+  await storage.advanceRecurringPayment(series.id, period, { ...getSchedule(series, period + 1), lastError: null });
+
+  if (paymentRequest) {
+    await notifyPaymentRequestCreated(paymentRequest, creator, getAppBaseUrl());
+  }
+  return paymentRequest;
+}
+
+let running = false;
+
+// Generates a request for every period that has started. A series that fell
+// behind (e.g. while the scheduler was down) catches up one period at a time.
+// Failures are recorded on the series and retried on the next run.
+export async function runRecurringPayments(now = new Date()): Promise<PaymentRequest[]> {
+  if (running) {
+    return [];
+  }
+
+  running = true;
+  try {
+    const generated: PaymentRequest[] = [];
+
+    for (let series of await storage.getDueRecurringPayments(now)) {
+      try {
+        while (series.status === 'active' && series.nextRunAt && series.nextRunAt.getTime() <= now.getTime()) {
+          const paymentRequest = await generateNextPeriod(series);
+          if (paymentRequest) {
+            generated.push(paymentRequest);
+          }
+          series = (await storage.getRecurringPayment(series.id))!;
+        }
+      } catch (error: any) {
+        console.error(`Error generating payment request for recurring payment ${series.id}:`, error);
+        await storage.updateRecurringPayment(series.id, {
+          lastError: error.message || 'Payment request could not be created',
+        }).catch(updateError => {
+          console.error(`Error recording failure of recurring payment ${series.id}:`, updateError);
+        });
+      }
+    }
+
+    return generated;
+  } finally {
+    running = false;
+  }
+}
+
+export function scheduleRecurringPayments() {
+  const run = () => runRecurringPayments()
+    .then(generated => {
+      if (generated.length > 0) {
+        log(`Generated ${generated.length} recurring payment request(s)`, 'recurring');
+      }
+    })
+    .catch(error => {
+      console.error('Error generating recurring payment requests:', error);
+    });
+
+  run();
+  setInterval(run, getIntervalMs()).unref();
+}
@@ -0,0 +1,216 @@
+import { storage } from "./storage";
+import { queueEmail } from "./notifications";
+import { createClaimToken, getAppBaseUrl, getClaimLinkState, getClaimUrl } from "./claimLinks";
+import { ensureAccessToken, getOnboardingUrl } from "./creatorAccess";
+import { log } from "./vite";
+import { formatCurrency } from "@shared/vat-utils";
+import type { Creator, PaymentRequest, Reminder } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReminderKind = 'due_soon' | 'overdue' | 'onboarding';
+
+// Each kind escalates through its stages, one reminder per stage:
+//   REMINDER_DUE_SOON_DAYS    days before the due date, e.g. "7,3,1"
+//   REMINDER_OVERDUE_DAYS     days after the due date
+//   REMINDER_ONBOARDING_DAYS  days after the creator was added
+// The last overdue and onboarding stages send the final reminder.
+export interface ReminderSchedule {
+  dueSoonDays: number[];
+  overdueDays: number[];
+  onboardingDays: number[];
+  intervalMs: number;
+}
+
+function parseDays(value: string | undefined, fallback: number[]): number[] {
+  if (!value) {
+    return fallback;
+  }
+
+  const days = value
+    .split(',')
+    .map(day => parseFloat(day.trim()))
+    .filter(day => !isNaN(day) && day >= 0);
+  return days.length > 0 ? days : fallback;
+}
+
+export function getReminderSchedule(): ReminderSchedule {
+  const intervalMinutes = parseFloat(process.env.REMINDER_INTERVAL_MINUTES || '60');
+
+  return {
+    // Furthest from the due date first, so stages escalate as it gets closer
+    dueSoonDays: parseDays(process.env.REMINDER_DUE_SOON_DAYS, [3]).sort((a, b) => b - a),
+    overdueDays: parseDays(process.env.REMINDER_OVERDUE_DAYS, [0, 3, 7]).sort((a, b) => a - b),
+    onboardingDays: parseDays(process.env.REMINDER_ONBOARDING_DAYS, [2, 5, 10]).sort((a, b) => a - b),
+    intervalMs: (isNaN(intervalMinutes) || intervalMinutes <= 0 ? 60 : intervalMinutes) * 60 * 1000,
+  };
+}
+
+export function isOverdue(request: PaymentRequest, now = new Date()): boolean {
+  return request.status === 'pending' && !!request.dueDate && request.dueDate.getTime() < now.getTime();
+}
+
+// Index of the last stage whose offset has been reached, or -1 for none
+function getReachedStage(offsets: number[], reached: (offset: number) => boolean): number {
+  let stage = -1;
+  offsets.forEach((offset, index) => {
+    if (reached(offset)) {
+      stage = index;
+    }
+  });
+  return stage;
+}
+
+function getHighestStage(sent: Reminder[], kind: ReminderKind): number {
+  return sent
+    .filter(reminder => reminder.kind === kind)
+    .reduce((highest, reminder) => Math.max(highest, reminder.stage), -1);
+}
+
+// Stages that were skipped (e.g. while the scheduler was down) are not sent
+// retroactively; only the most urgent reached stage goes out. An expired
+// claim link is replaced so the reminder never points at a dead link; a
+// revoked one was withdrawn on purpose and gets no reminder.
+async function remindPaymentRequest(
+  request: PaymentRequest,
+  creator: Creator,
+  schedule: ReminderSchedule,
+  now: Date,
+): Promise<Reminder | undefined> {
+  if (!request.dueDate || !request.claimToken || request.claimTokenRevokedAt) {
+    return;
+  }
+
+  const dueAt = request.dueDate.getTime();
+  const sent = await storage.getReminders({ paymentRequestId: request.id });
+
+  let kind: ReminderKind;
+  let stage: number;
+  if (dueAt < now.getTime()) {
+    kind = 'overdue';
+    stage = getReachedStage(schedule.overdueDays, days => now.getTime() >= dueAt + days * DAY_MS);
+  } else {
+    kind = 'due_soon';
+    stage = getReachedStage(schedule.dueSoonDays, days => now.getTime() >= dueAt - days * DAY_MS);
+  }
+
+  if (stage < 0 || stage <= getHighestStage(sent, kind)) {
+    return;
+  }
+
+  const claimToken = getClaimLinkState(request) === 'expired'
+    ? (await storage.updatePaymentRequest(request.id, createClaimToken())).claimToken!
+    : request.claimToken;
+
+  const email = await queueEmail('payment_reminder', creator, {
+    name: creator.fullName,
+    amount: formatCurrency(parseFloat(request.totalAmount), request.currency),
+    dueDate: request.dueDate,
+    overdue: kind === 'overdue',
+    final: kind === 'overdue' && stage === schedule.overdueDays.length - 1,
+    claimUrl: getClaimUrl(getAppBaseUrl(), claimToken),
+  }, { entityType: 'payment_request', entityId: request.id });
+
+  return await storage.createReminder({
+    kind,
+    stage,
+    creatorId: creator.id,
+    paymentRequestId: request.id,
+    emailId: email.id,
+  });
+}
+
+async function remindOnboarding(
+  creator: Creator,
+  schedule: ReminderSchedule,
+  now: Date,
+): Promise<Reminder | undefined> {
+  const addedAt = (creator.createdAt ?? now).getTime();
+  const stage = getReachedStage(schedule.onboardingDays, days => now.getTime() >= addedAt + days * DAY_MS);
+  if (stage < 0) {
+    return;
+  }
+
+  const sent = await storage.getReminders({ kind: 'onboarding', creatorId: creator.id });
+  if (stage <= getHighestStage(sent, 'onboarding')) {
+    return;
+  }
+
+  const accessToken = await ensureAccessToken(creator);
+  const email = await queueEmail('onboarding_reminder', creator, {
+    name: creator.fullName,
+    onboardingUrl: getOnboardingUrl(getAppBaseUrl(), accessToken),
+    final: stage === schedule.onboardingDays.length - 1,
+  }, { entityType: 'creator', entityId: creator.id });
+
+  return await storage.createReminder({
+    kind: 'onboarding',
+    stage,
+    creatorId: creator.id,
+    paymentRequestId: null,
+    emailId: email.id,
+  });
+}
+
+let running = false;
+
+// Sends every reminder that is due. Safe to run repeatedly: each stage is
+// recorded when sent and never sent twice.
+export async function runReminders(schedule = getReminderSchedule()): Promise<Reminder[]> {
+  if (running) {
+    return [];
+  }
+
+  running = true;
+  try {
+    const now = new Date();
+    const sent: Reminder[] = [];
+    const creatorCache = new Map<number, Creator | undefined>();
+
+    for (const request of await storage.listPaymentRequests(1000, 0, 'pending')) {
+      try {
+        if (!creatorCache.has(request.creatorId)) {
+          creatorCache.set(request.creatorId, await storage.getCreator(request.creatorId));
+        }
+        const creator = creatorCache.get(request.creatorId);
+        const reminder = creator && await remindPaymentRequest(request, creator, schedule, now);
+        if (reminder) {
+          sent.push(reminder);
+        }
+      } catch (error) {
+        console.error(`Error sending reminder for payment request ${request.id}:`, error);
+      }
+    }
+
+    for (const creator of await storage.listCreatorsAwaitingOnboarding()) {
+      try {
+        const reminder = await remindOnboarding(creator, schedule, now);
+        if (reminder) {
+          sent.push(reminder);
+        }
+      } catch (error) {
+        console.error(`Error sending onboarding reminder to creator ${creator.id}:`, error);
+      }
+    }
+
+    return sent;
+  } finally {
+    running = false;
+  }
+}
+
+export function scheduleReminders() {
+  const schedule = getReminderSchedule();
+  const run = () => runReminders(schedule)
+    .then(sent => {
+      if (sent.length > 0) {
+        log(`Sent ${sent.length} reminder(s)`, 'reminders');
+      }
+    })
+    .catch(error => {
+      console.error('Error sending reminders:', error);
+    });
+
+  run();
+  setInterval(run, schedule.intervalMs).unref();
+}
@@ -7,6 +7,7 @@ import type { Express, RequestHandler } from "express";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 if (!process.env.REPLIT_DOMAINS) {
   throw new Error("Environment variable REPLIT_DOMAINS not provided");
@@ -54,6 +55,15 @@ function updateUserSession(
   user.expires_at = user.claims?.exp;
 }
 
+// Comma-separated emails that are always owners, to bootstrap user management
+function isOwnerEmail(email?: string) {
+  const ownerEmails = (process.env.OWNER_EMAILS || "")
+    .split(",")
+    .map((ownerEmail) => ownerEmail.trim().toLowerCase())
+    .filter(Boolean);
+  return !!email && ownerEmails.includes(email.toLowerCase());
+}
+
 async function upsertUser(
   claims: any,
 ) {
@@ -63,6 +73,7 @@ async function upsertUser(
     firstName: claims["first_name"],
     lastName: claims["last_name"],
     profileImageUrl: claims["profile_image_url"],
+    ...(isOwnerEmail(claims["email"]) && { role: "owner" }),
   });
 }
 
@@ -154,4 +165,22 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     res.status(401).json({ message: "Unauthorized" });
     return;
   }
-};
\ No newline at end of file
+};
+
+// Use after isAuthenticated. The role is read from the database on every
+// request so role changes take effect immediately.
+export function requirePermission(permission: Permission): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const user = await storage.getUser((req.user as any).claims.sub);
+
+      if (!user || !hasPermission(user.role, permission)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      next();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to check permissions" });
+    }
+  };
+}
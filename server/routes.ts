@@ -1,22 +1,77 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertCreatorSchema, insertPaymentRequestSchema } from "@shared/schema";
-import { calculateVAT } from "@shared/vat-utils";
-import Stripe from "stripe";
-import { nanoid } from "nanoid";
+import { setupAuth, isAuthenticated, requirePermission } from "./replitAuth";
+import {
+  insertPaymentRequestSchema,
+  adminCreatorUpdateSchema,
+  creatorProfileUpdateSchema,
+  createCreditNoteSchema,
+  createPaymentRequestSchema,
+  createRecurringPaymentSchema,
+  updateRecurringPaymentSchema,
+  createCampaignSchema,
+  updateCampaignSchema,
+  type Creator,
+} from "@shared/schema";
+import { stripe } from "./stripe";
+import { constructStripeEvent, recordStripeEvent, processStripeEvent } from "./stripeWebhooks";
+import { issueCreditNote, CreditNoteError } from "./creditNotes";
+import { generateInvoice, getSelfBillingConsentUpdate, SelfBillingConsentRequiredError } from "./invoiceGenerator";
+import { createInvoiceValidator } from "./invoiceValidators";
+import { processPaymentRequest, processPaymentRequests, PayoutError } from "./payouts";
+import { createPaymentRequest, PaymentRequestError, toCreatorPaymentRequest } from "./paymentRequests";
+import {
+  createRecurringPayment,
+  updateRecurringPayment,
+  pauseRecurringPayment,
+  resumeRecurringPayment,
+  endRecurringPayment,
+  RecurringPaymentError,
+} from "./recurringPayments";
+import {
+  createCampaign,
+  updateCampaign,
+  getCampaignPayments,
+  listCampaignSummaries,
+  summarizeCampaign,
+  CampaignError,
+} from "./campaigns";
+import { exportPaymentsToCsv, exportPaymentsToXlsx } from "./paymentExport";
+import { transitionPaymentRequest, InvalidTransitionError, type StatusActor } from "./paymentStatus";
+import { recordAudit } from "./audit";
+import { getApprovalBlocker, requiresFourEyes } from "./approvals";
+import { isUserRole } from "@shared/permissions";
+import { isFinalStatus } from "@shared/payment-status";
+import {
+  requireCreator,
+  createAccessToken,
+  rotateAccessToken,
+  ensureAccessToken,
+  getOnboardingUrl,
+  toCreatorProfile,
+  toAdminCreator,
+  withAdminCreator,
+  createLoginLink,
+  redeemLoginToken,
+} from "./creatorAccess";
+import {
+  notifyPaymentRequestCreated,
+  notifyOnboardingInvite,
+  notifyInvoiceRejected,
+  notifyCreatorLogin,
+} from "./notifications";
+import { getDefaultLanguage } from "@shared/languages";
+import { requireClaim, createClaimToken, getClaimLinkState, getClaimTokenExpiry, getClaimUrl } from "./claimLinks";
+import { isOverdue, runReminders } from "./reminders";
+import { decryptTaxFormData, saveTaxForm, toTaxFormSummary } from "./taxForms";
+import { getRequiredTaxFormType, taxFormSchema } from "@shared/tax-forms";
+import { getInstallmentTotals, installmentsSchema } from "@shared/installments";
+import { checkCreatorVatId, isClearFailure, recordVatCheck, VatIdRejectedError } from "./vatVerification";
+import { fromZodError } from "zod-validation-error";
 import multer from "multer";
-import path from "path";
-import fs from "fs";
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
-}
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2024-12-18.acacia",
-});
+const invoiceValidator = createInvoiceValidator();
 
 // File upload configuration
 const upload = multer({
@@ -33,33 +88,82 @@ const upload = multer({
   },
 });
 
+// Parse from/to query parameters (YYYY-MM-DD); "to" includes the whole day.
+// Returns null when either date is invalid.
+function parseDateRange(fromParam: unknown, toParam: unknown): { from?: Date; to?: Date } | null {
+  const from = fromParam ? new Date(fromParam as string) : undefined;
+  const to = toParam ? new Date(new Date(toParam as string).getTime() + 24 * 60 * 60 * 1000 - 1) : undefined;
+
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return null;
+  }
+  return { from, to };
+}
+
+// The logged-in admin, as recorded in the payment request history
+function adminActor(req: any): StatusActor {
+  return { type: 'admin', id: req.user?.claims?.sub ?? null };
+}
 
+// Keep the cached Stripe capabilities of a creator in sync with their account
+async function refreshStripeStatus(creator: Creator): Promise<Creator> {
+  if (!creator.stripeAccountId) {
+    return creator;
+  }
 
-// Gemini AI validation (mock implementation)
-async function validateInvoiceWithAI(filePath: string, expectedAmount: number) {
-  // In a real implementation, this would use Google Gemini AI
-  // For now, we'll simulate validation
   try {
-    // Read file and perform mock validation
-    const fileExists = fs.existsSync(filePath);
-    if (!fileExists) {
-      return {
-        status: 'invalid',
-        notes: 'File not found or corrupted'
-      };
-    }
-
-    // Mock AI validation - in reality this would analyze the PDF content
-    return {
-      status: 'valid',
-      notes: 'Invoice format and amount verified'
-    };
-  } catch (error) {
-    return {
-      status: 'invalid',
-      notes: 'Error processing invoice file'
-    };
+    const account = await stripe.accounts.retrieve(creator.stripeAccountId);
+
+    // Update creator status if changed
+    if (account.charges_enabled !== creator.chargesEnabled ||
+        account.payouts_enabled !== creator.payoutsEnabled) {
+      return await storage.updateCreator(creator.id, {
+        chargesEnabled: account.charges_enabled,
+        payoutsEnabled: account.payouts_enabled,
+      });
+    }
+  } catch (stripeError) {
+    console.error('Error refreshing Stripe account status:', stripeError);
+  }
+  return creator;
+}
+
+// Save already validated business details, mirroring them to the Stripe account.
+// A VAT ID that clearly fails verification is rejected with VatIdRejectedError,
+// and auto invoicing without a self-billing agreement with SelfBillingConsentRequiredError.
+async function updateCreatorDetails(
+  creator: Creator,
+  { selfBillingConsent, ...updates }: Partial<Creator> & { selfBillingConsent?: boolean },
+): Promise<Creator> {
+  if (selfBillingConsent !== undefined) {
+    Object.assign(updates, getSelfBillingConsentUpdate(creator, selfBillingConsent));
+  }
+  const invoiceMethod = updates.invoiceMethod ?? creator.invoiceMethod;
+  const hasConsent = 'selfBillingConsentAt' in updates ? !!updates.selfBillingConsentAt : !!creator.selfBillingConsentAt;
+  const switchesToAuto = updates.invoiceMethod === 'auto' && creator.invoiceMethod !== 'auto';
+  if (invoiceMethod === 'auto' && !hasConsent && (switchesToAuto || selfBillingConsent === false)) {
+    throw new SelfBillingConsentRequiredError();
   }
+
+  const vatCheck = await checkCreatorVatId(creator, updates);
+  if (vatCheck && isClearFailure(vatCheck)) {
+    throw new VatIdRejectedError(vatCheck.message);
+  }
+
+  if (creator.stripeAccountId && (updates.country || updates.businessType || updates.companyName)) {
+    await stripe.accounts.update(creator.stripeAccountId, {
+      ...(updates.country && { country: updates.country }),
+      ...(updates.businessType && { 
+        business_type: updates.businessType === 'individual' ? 'individual' : 'company' 
+      }),
+      ...(updates.companyName && {
+        company: { name: updates.companyName }
+      }),
+    });
+  }
+
+  const updatedCreator = await storage.updateCreator(creator.id, vatCheck ? { ...updates, vatId: vatCheck.vatId } : updates);
+  return vatCheck ? await recordVatCheck(updatedCreator, vatCheck) : updatedCreator;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -78,8 +182,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // User management (owners only)
+  app.get('/api/users', isAuthenticated, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const users = await storage.listUsers();
+      res.json(users);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch users' });
+    }
+  });
+
+  app.patch('/api/users/:id/role', isAuthenticated, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { role } = req.body;
+      if (!role || !isUserRole(role)) {
+        return res.status(400).json({ message: `Invalid role: ${role}` });
+      }
+
+      const users = await storage.listUsers();
+      const user = users.find(candidate => candidate.id === req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      // Never lock everyone out of user management
+      const owners = users.filter(candidate => candidate.role === 'owner');
+      if (user.role === 'owner' && role !== 'owner' && owners.length === 1) {
+        return res.status(400).json({ message: 'Cannot remove the last owner' });
+      }
+
+      const updatedUser = await storage.updateUserRole(user.id, role);
+
+      await recordAudit(req, {
+        action: 'user.update_role',
+        entityType: 'user',
+        entityId: user.id,
+        before: { role: user.role },
+        after: { role: updatedUser.role },
+      });
+
+      res.json(updatedUser);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to update user role' });
+    }
+  });
+
   // Quick creator creation (admin only - just email and name)
-  app.post('/api/creators/quick-create', isAuthenticated, async (req, res) => {
+  app.post('/api/creators/quick-create', isAuthenticated, requirePermission('creators:manage'), async (req, res) => {
     try {
       const { fullName, email } = req.body;
       
@@ -100,6 +249,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         country: 'NL', // Default, will be updated during onboarding
         businessType: 'individual', // Default, will be updated during onboarding
         invoiceMethod: 'auto', // Default, will be updated during onboarding
+        ...createAccessToken(),
       });
 
       // Create Stripe Express account for the creator
@@ -115,15 +265,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Update creator with Stripe account ID
-      await storage.updateCreator(creator.id, {
+      const createdCreator = await storage.updateCreator(creator.id, {
         stripeAccountId: account.id,
       });
 
+      await recordAudit(req, {
+        action: 'creator.create',
+        entityType: 'creator',
+        entityId: creator.id,
+        after: createdCreator,
+      });
+
       // Generate onboarding URL
-      const onboardingUrl = `${req.protocol}://${req.get('host')}/creator-onboarding?creator=${creator.id}`;
+      const onboardingUrl = getOnboardingUrl(`${req.protocol}://${req.get('host')}`, createdCreator.accessToken!);
+      await notifyOnboardingInvite(createdCreator, onboardingUrl);
 
       res.json({ 
-        creator,
+        creator: toAdminCreator(createdCreator),
         onboardingUrl 
       });
     } catch (error: any) {
@@ -132,10 +290,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Creator routes
-  app.post('/api/creators', async (req, res) => {
+  // Creator routes (admin only)
+  app.post('/api/creators', isAuthenticated, requirePermission('creators:manage'), async (req, res) => {
     try {
-      const creatorData = insertCreatorSchema.parse(req.body);
+      const result = adminCreatorUpdateSchema.required({
+        email: true,
+        fullName: true,
+        country: true,
+        businessType: true,
+      }).safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      const creatorData = result.data;
       
       // Check if creator already exists
       const existingCreator = await storage.getCreatorByEmail(creatorData.email);
@@ -143,6 +310,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Creator with this email already exists' });
       }
 
+      const vatCheck = await checkCreatorVatId({}, creatorData);
+      if (vatCheck && isClearFailure(vatCheck)) {
+        return res.status(400).json({ message: vatCheck.message });
+      }
+
       // Create Stripe Express account
       const account = await stripe.accounts.create({
         type: 'express',
@@ -159,19 +331,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Save creator with Stripe account ID
-      const creator = await storage.createCreator({
+      const newCreator = await storage.createCreator({
+        language: getDefaultLanguage(creatorData.country),
         ...creatorData,
+        ...(vatCheck && { vatId: vatCheck.vatId }),
         stripeAccountId: account.id,
+        ...createAccessToken(),
+      });
+      const creator = vatCheck ? await recordVatCheck(newCreator, vatCheck) : newCreator;
+
+      await recordAudit(req, {
+        action: 'creator.create',
+        entityType: 'creator',
+        entityId: creator.id,
+        after: creator,
       });
 
-      res.json({ creator, stripeAccountId: account.id });
+      res.json({ creator: toAdminCreator(creator), stripeAccountId: account.id });
     } catch (error: any) {
       console.error('Error creating creator:', error);
       res.status(500).json({ message: error.message || 'Failed to create creator' });
     }
   });
 
-  app.get('/api/creators/:id', async (req, res) => {
+  app.get('/api/creators/:id', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const creator = await storage.getCreator(id);
@@ -180,37 +363,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Creator not found' });
       }
 
-      // Check Stripe account status
-      if (creator.stripeAccountId) {
-        try {
-          const account = await stripe.accounts.retrieve(creator.stripeAccountId);
-          
-          // Update creator status if changed
-          if (account.charges_enabled !== creator.chargesEnabled || 
-              account.payouts_enabled !== creator.payoutsEnabled) {
-            await storage.updateCreator(id, {
-              chargesEnabled: account.charges_enabled,
-              payoutsEnabled: account.payouts_enabled,
-            });
-          }
-
-          res.json({
-            ...creator,
-            chargesEnabled: account.charges_enabled,
-            payoutsEnabled: account.payouts_enabled,
-          });
-        } catch (stripeError) {
-          res.json(creator);
-        }
-      } else {
-        res.json(creator);
-      }
+      res.json(toAdminCreator(await refreshStripeStatus(creator)));
     } catch (error: any) {
       res.status(500).json({ message: error.message || 'Failed to fetch creator' });
     }
   });
 
-  app.patch('/api/creators/:id', async (req, res) => {
+  app.patch('/api/creators/:id', isAuthenticated, requirePermission('creators:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const creator = await storage.getCreator(id);
@@ -219,42 +378,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Creator not found' });
       }
 
-      const updates = req.body;
-      
-      // If updating business details and Stripe account exists, update Stripe account
-      if (creator.stripeAccountId && (updates.country || updates.businessType || updates.companyName)) {
-        await stripe.accounts.update(creator.stripeAccountId, {
-          ...(updates.country && { country: updates.country }),
-          ...(updates.businessType && { 
-            business_type: updates.businessType === 'individual' ? 'individual' : 'company' 
-          }),
-          ...(updates.companyName && {
-            company: { name: updates.companyName }
-          }),
-        });
+      const result = adminCreatorUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
       }
 
-      const updatedCreator = await storage.updateCreator(id, updates);
-      res.json(updatedCreator);
+      const updatedCreator = await updateCreatorDetails(creator, result.data);
+
+      await recordAudit(req, {
+        action: 'creator.update',
+        entityType: 'creator',
+        entityId: id,
+        before: creator,
+        after: updatedCreator,
+      });
+
+      res.json(toAdminCreator(updatedCreator));
     } catch (error: any) {
+      if (error instanceof VatIdRejectedError || error instanceof SelfBillingConsentRequiredError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message || 'Failed to update creator' });
     }
   });
 
-  app.get('/api/creators', async (req, res) => {
+  app.get('/api/creators/:id/tax-form', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const creator = await storage.getCreator(parseInt(req.params.id));
+      if (!creator) {
+        return res.status(404).json({ message: 'Creator not found' });
+      }
+
+      const taxForm = await storage.getCurrentTaxForm(creator.id);
+      res.json({
+        requiredFormType: getRequiredTaxFormType(creator.country, creator.businessType),
+        taxForm: taxForm ? toTaxFormSummary(taxForm) : null,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch tax form' });
+    }
+  });
+
+  // Full, decrypted tax form. Every view is audited.
+  app.get('/api/creators/:id/tax-form/data', isAuthenticated, requirePermission('tax_forms:read'), async (req, res) => {
+    try {
+      const taxForm = await storage.getCurrentTaxForm(parseInt(req.params.id));
+      if (!taxForm) {
+        return res.status(404).json({ message: 'Tax form not found' });
+      }
+
+      await recordAudit(req, {
+        action: 'tax_form.view',
+        entityType: 'creator',
+        entityId: taxForm.creatorId,
+      });
+
+      res.json({ ...toTaxFormSummary(taxForm), data: decryptTaxFormData(taxForm.encryptedData) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch tax form' });
+    }
+  });
+
+  // VAT ID checks for a creator, newest first (reverse charge evidence)
+  app.get('/api/creators/:id/vat-checks', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const checks = await storage.getVatChecksByCreator(parseInt(req.params.id));
+      res.json(checks);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch VAT checks' });
+    }
+  });
+
+  app.get('/api/creators', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
       const offset = parseInt(req.query.offset as string) || 0;
       
       const creators = await storage.listCreators(limit, offset);
-      res.json(creators);
+      res.json(creators.map(toAdminCreator));
     } catch (error: any) {
       res.status(500).json({ message: error.message || 'Failed to fetch creators' });
     }
   });
 
-  // Create onboarding link for existing creator
-  app.post('/api/creators/:id/onboarding-link', async (req, res) => {
+  // Create onboarding link for existing creator (admin only)
+  app.post('/api/creators/:id/onboarding-link', isAuthenticated, requirePermission('creators:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const creator = await storage.getCreator(id);
@@ -263,8 +471,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Creator not found' });
       }
 
-      // Generate onboarding URL that takes creator to business details form
-      const onboardingUrl = `${req.protocol}://${req.get('host')}/creator-onboarding?creator=${id}`;
+      // Generate onboarding URL that takes creator to business details form, and email it.
+      // A fresh token means links sent earlier stop working.
+      const onboardingUrl = getOnboardingUrl(`${req.protocol}://${req.get('host')}`, await rotateAccessToken(creator));
+      await notifyOnboardingInvite(creator, onboardingUrl);
 
       res.json({ url: onboardingUrl });
     } catch (error: any) {
@@ -272,20 +482,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Creator portal login: emails a single-use magic link. The response is the
+  // same whether or not the email is known, so it can't be used to probe for creators.
+  app.post('/api/creator/login', async (req, res) => {
+    try {
+      const email = typeof req.body.email === 'string' ? req.body.email.trim() : '';
+      if (!email) {
+        return res.status(400).json({ message: 'Email is required' });
+      }
+
+      const creator = await storage.getCreatorByEmail(email);
+      if (creator) {
+        const loginUrl = await createLoginLink(creator, `${req.protocol}://${req.get('host')}`);
+        await notifyCreatorLogin(creator, loginUrl);
+      }
+
+      res.json({ message: 'If this email belongs to a creator, a login link is on its way' });
+    } catch (error: any) {
+      console.error('Error creating creator login link:', error);
+      res.status(500).json({ message: error.message || 'Failed to send login link' });
+    }
+  });
+
+  app.get('/api/creator/login/:token', async (req, res) => {
+    try {
+      const creator = await redeemLoginToken(req.params.token);
+      if (!creator) {
+        return res.redirect('/portal/login?expired=true');
+      }
+
+      // New session ID on login, so a planted session cookie can't be reused
+      req.session.regenerate((error) => {
+        if (error) {
+          return res.status(500).json({ message: 'Failed to sign in' });
+        }
+        req.session.creatorId = creator.id;
+        res.redirect('/portal');
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to sign in' });
+    }
+  });
+
+  app.post('/api/creator/logout', (req, res) => {
+    delete req.session.creatorId;
+    res.json({ message: 'Signed out' });
+  });
+
+  // Creator-scoped routes, authorized by the portal session or the creator's access token
+  app.get('/api/creator/profile', requireCreator, async (req, res) => {
+    try {
+      res.json(toCreatorProfile(await refreshStripeStatus(req.creator!)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch profile' });
+    }
+  });
+
+  app.patch('/api/creator/profile', requireCreator, async (req, res) => {
+    try {
+      const creator = req.creator!;
+      const result = creatorProfileUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const updatedCreator = await updateCreatorDetails(creator, result.data);
+
+      await recordAudit(req, {
+        action: 'creator.update',
+        entityType: 'creator',
+        entityId: creator.id,
+        before: creator,
+        after: updatedCreator,
+        actor: { type: 'creator', id: creator.id.toString(), email: creator.email },
+      });
+
+      res.json(toCreatorProfile(updatedCreator));
+    } catch (error: any) {
+      if (error instanceof VatIdRejectedError || error instanceof SelfBillingConsentRequiredError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message || 'Failed to update profile' });
+    }
+  });
+
+  // Everything the creator portal shows: payment requests with their invoices.
+  // Payout details (paidAt, stripeTransferId) are part of each request.
+  app.get('/api/creator/payment-requests', requireCreator, async (req, res) => {
+    try {
+      const creator = req.creator!;
+      const [requests, invoices] = await Promise.all([
+        storage.getPaymentRequestsByCreator(creator.id),
+        storage.getInvoicesByCreator(creator.id),
+      ]);
+
+      res.json(requests.map(request => ({
+        ...toCreatorPaymentRequest(request),
+        invoices: invoices.filter(invoice => invoice.paymentRequestId === request.id),
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch payment requests' });
+    }
+  });
+
+  app.get('/api/creator/invoices/:id/download', requireCreator, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      const request = invoice && await storage.getPaymentRequest(invoice.paymentRequestId);
+
+      if (!invoice || !request || request.creatorId !== req.creator!.id || !invoice.fileUrl) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+
+      res.download(invoice.fileUrl, invoice.filename || `invoice-${invoice.id}.pdf`);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to download invoice' });
+    }
+  });
+
+  // Tax forms for non-EU creators. Only a summary ever leaves the server;
+  // the full form is stored encrypted.
+  app.get('/api/creator/tax-form', requireCreator, async (req, res) => {
+    try {
+      const creator = req.creator!;
+      const taxForm = await storage.getCurrentTaxForm(creator.id);
+      res.json({
+        requiredFormType: getRequiredTaxFormType(creator.country, creator.businessType),
+        taxForm: taxForm ? toTaxFormSummary(taxForm) : null,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch tax form' });
+    }
+  });
+
+  app.post('/api/creator/tax-form', requireCreator, async (req, res) => {
+    try {
+      const creator = req.creator!;
+      const result = taxFormSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const requiredFormType = getRequiredTaxFormType(creator.country, creator.businessType);
+      if (result.data.formType !== requiredFormType) {
+        return res.status(400).json({
+          message: requiredFormType ? `Please complete form ${requiredFormType}` : 'No tax form is needed for your country',
+        });
+      }
+
+      const taxForm = await saveTaxForm(creator, result.data);
+
+      await recordAudit(req, {
+        action: 'tax_form.submit',
+        entityType: 'creator',
+        entityId: creator.id,
+        after: toTaxFormSummary(taxForm),
+        actor: { type: 'creator', id: creator.id.toString(), email: creator.email },
+      });
+
+      res.json(toTaxFormSummary(taxForm));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to save tax form' });
+    }
+  });
+
   // Create Stripe Connect onboarding link after business details are completed
-  app.get('/api/creators/:id/stripe-onboard', async (req, res) => {
+  app.get('/api/creator/stripe-onboard', requireCreator, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const creator = await storage.getCreator(id);
+      const creator = req.creator!;
       
-      if (!creator || !creator.stripeAccountId) {
-        return res.status(404).json({ message: 'Creator or Stripe account not found' });
+      if (!creator.stripeAccountId) {
+        return res.status(404).json({ message: 'Stripe account not found' });
       }
 
+      const onboardingUrl = getOnboardingUrl(`${req.protocol}://${req.get('host')}`, await ensureAccessToken(creator));
       const accountLink = await stripe.accountLinks.create({
         account: creator.stripeAccountId,
-        refresh_url: `${req.protocol}://${req.get('host')}/creator-onboarding?refresh=true&creator=${id}`,
-        return_url: `${req.protocol}://${req.get('host')}/creator-onboarding?success=true&creator=${id}`,
+        refresh_url: `${onboardingUrl}&refresh=true`,
+        return_url: `${onboardingUrl}&success=true`,
         type: 'account_onboarding',
       });
 
@@ -297,42 +671,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Payment request routes
-  app.post('/api/payment-requests', isAuthenticated, async (req, res) => {
+  app.post('/api/payment-requests', isAuthenticated, requirePermission('payments:create'), async (req, res) => {
     try {
-      const { creatorId, amount, description, dueDate } = req.body;
-      
+      const result = createPaymentRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      const { creatorId, amount, description, dueDate, campaignId, currency, serviceType } = result.data;
+
+      // Optional schedule; without one the request is paid out in full at once
+      const installments = req.body.installments?.length ? installmentsSchema.safeParse(req.body.installments) : undefined;
+      if (installments && !installments.success) {
+        return res.status(400).json({ message: fromZodError(installments.error).message });
+      }
+
       const creator = await storage.getCreator(creatorId);
       if (!creator) {
         return res.status(404).json({ message: 'Creator not found' });
       }
 
-      // Calculate VAT
-      const baseAmount = parseFloat(amount);
-      const vat = calculateVAT(baseAmount, creator.country, creator.businessType);
-      const totalAmount = baseAmount + vat.amount;
-
-      // Generate claim token
-      const claimToken = nanoid(32);
-
-      const paymentRequest = await storage.createPaymentRequest({
-        creatorId,
-        amount: baseAmount.toString(),
-        vatRate: vat.rate.toString(),
-        vatAmount: vat.amount.toString(),
-        totalAmount: totalAmount.toString(),
+      const paymentRequest = await createPaymentRequest(creator, {
+        amount,
+        currency,
+        serviceType,
         description,
-        claimToken,
-        dueDate: dueDate ? new Date(dueDate) : null,
+        dueDate: dueDate ?? null,
+        installments: installments?.data,
+        campaignId: campaignId ?? null,
+        createdBy: adminActor(req).id,
+      }, adminActor(req));
+
+      await recordAudit(req, {
+        action: 'payment_request.create',
+        entityType: 'payment_request',
+        entityId: paymentRequest.id,
+        after: paymentRequest,
       });
 
+      await notifyPaymentRequestCreated(paymentRequest, creator, `${req.protocol}://${req.get('host')}`);
+
       res.json(paymentRequest);
     } catch (error: any) {
+      if (error instanceof VatIdRejectedError || error instanceof PaymentRequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Error creating payment request:', error);
       res.status(500).json({ message: error.message || 'Failed to create payment request' });
     }
   });
 
-  app.get('/api/payment-requests', async (req, res) => {
+  app.get('/api/payment-requests', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
       const offset = parseInt(req.query.offset as string) || 0;
@@ -343,13 +731,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
         offset,
         status,
       );
-      res.json(requests);
+      res.json(requests.map(request => ({
+        ...withAdminCreator(request),
+        claimLinkState: getClaimLinkState(request),
+        claimTokenExpiresAt: getClaimTokenExpiry(request),
+        isOverdue: isOverdue(request),
+      })));
     } catch (error: any) {
       res.status(500).json({ message: error.message || 'Failed to fetch payment requests' });
     }
   });
 
-  app.get('/api/payment-requests/:id', async (req, res) => {
+  // Export payment requests (admin only), filtered like the dashboard table
+  app.get('/api/payment-requests/export', isAuthenticated, requirePermission('payments:export'), async (req, res) => {
+    try {
+      const format = (req.query.format as string) || 'csv';
+      if (format !== 'csv' && format !== 'xlsx') {
+        return res.status(400).json({ message: 'Format must be csv or xlsx' });
+      }
+
+      const dateRange = parseDateRange(req.query.from, req.query.to);
+      if (!dateRange) {
+        return res.status(400).json({ message: 'Invalid date range' });
+      }
+
+      const requests = await storage.searchPaymentRequestsWithCreators({
+        status: req.query.status as string || undefined,
+        search: req.query.search as string || undefined,
+        ...dateRange,
+      });
+      const creditNotes = await storage.getCreditNotesByPaymentRequests(requests.map(request => request.id));
+      const payments = requests.map(request => ({
+        ...request,
+        creditNotes: creditNotes.filter(creditNote => creditNote.paymentRequestId === request.id),
+      }));
+
+      const filename = `payment-requests-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      if (format === 'xlsx') {
+        res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.send(await exportPaymentsToXlsx(payments));
+      } else {
+        res.type('text/csv');
+        res.send(exportPaymentsToCsv(payments));
+      }
+    } catch (error: any) {
+      console.error('Error exporting payment requests:', error);
+      res.status(500).json({ message: error.message || 'Failed to export payment requests' });
+    }
+  });
+
+  // Claimed payments waiting for approval, flagged with whether the current
+  // admin is allowed to approve them (four-eyes rule)
+  app.get('/api/payment-requests/awaiting-approval', isAuthenticated, requirePermission('payments:approve'), async (req, res) => {
+    try {
+      const userId = adminActor(req).id!;
+      const requests = await storage.searchPaymentRequestsWithCreators({ status: 'claimed' });
+
+      res.json(requests.map(request => ({
+        ...withAdminCreator(request),
+        requiresFourEyes: requiresFourEyes(request),
+        approvalBlocker: getApprovalBlocker(request, userId),
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch payments awaiting approval' });
+    }
+  });
+
+  app.get('/api/payment-requests/:id', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const request = await storage.getPaymentRequest(id);
@@ -364,78 +814,170 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Claim payment route (for creators)
-  app.get('/api/claim/:token', async (req, res) => {
+  // Claim payment routes (for creators), authorized by the claim token
+  app.get('/api/claim/:token', requireClaim, async (req, res) => {
     try {
-      const { token } = req.params;
-      const request = await storage.getPaymentRequestByToken(token);
-      
-      if (!request) {
-        return res.status(404).json({ message: 'Payment request not found' });
-      }
-
+      const request = req.claim!;
       const creator = await storage.getCreator(request.creatorId);
+      const invoices = await storage.getInvoicesByPaymentRequest(request.id);
+      const installments = await storage.getPaymentInstallmentsByPaymentRequests([request.id]);
       
       res.json({
-        paymentRequest: request,
-        creator: creator,
+        paymentRequest: toCreatorPaymentRequest(request),
+        creator: creator && toCreatorProfile(creator),
+        invoices,
+        installments,
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message || 'Failed to fetch payment claim' });
     }
   });
 
-  app.post('/api/claim/:token', async (req, res) => {
+  app.post('/api/claim/:token', requireClaim, async (req, res) => {
     try {
-      const { token } = req.params;
-      const request = await storage.getPaymentRequestByToken(token);
-      
-      if (!request) {
-        return res.status(404).json({ message: 'Payment request not found' });
-      }
+      const request = req.claim!;
 
       if (request.status !== 'pending') {
         return res.status(400).json({ message: 'Payment request is not pending' });
       }
 
-      // Update status to claimed
-      await storage.updatePaymentRequest(request.id, {
-        status: 'claimed',
+      // Creators on auto invoicing can agree to self-billing as they claim
+      let creator = await storage.getCreator(request.creatorId);
+      if (creator && req.body?.selfBillingConsent === true && !creator.selfBillingConsentAt) {
+        const consentingCreator = creator;
+        creator = await storage.updateCreator(creator.id, getSelfBillingConsentUpdate(creator, true));
+
+        await recordAudit(req, {
+          action: 'creator.self_billing_consent',
+          entityType: 'creator',
+          entityId: creator.id,
+          before: consentingCreator,
+          after: creator,
+          actor: { type: 'creator', id: creator.id.toString(), email: creator.email },
+        });
+      }
+
+      const claimedRequest = await transitionPaymentRequest(
+        request,
+        'claimed',
+        { type: 'creator', id: request.creatorId.toString() },
+        { claimedAt: new Date() },
+      );
+
+      await recordAudit(req, {
+        action: 'payment_request.claim',
+        entityType: 'payment_request',
+        entityId: request.id,
+        before: request,
+        after: claimedRequest,
+        actor: { type: 'creator', id: request.creatorId.toString() },
       });
 
+      // Creators on the "auto" invoice method get an invoice generated on their behalf
+      if (creator?.invoiceMethod === 'auto') {
+        try {
+          await generateInvoice(claimedRequest, creator);
+        } catch (error) {
+          // The claim itself succeeded; admins can regenerate the invoice later
+          console.error('Error generating invoice:', error);
+        }
+      }
+
       res.json({ message: 'Payment claimed successfully' });
     } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message || 'Failed to claim payment' });
     }
   });
 
-  // Invoice upload route
-  app.post('/api/payment-requests/:id/invoice', upload.single('invoice'), async (req, res) => {
+  // Business details update for creators while claiming. Once the payment is
+  // claimed the claim link no longer changes the creator; the portal does.
+  app.patch('/api/claim/:token/creator', requireClaim, async (req, res) => {
+    try {
+      const request = req.claim!;
+      if (request.status !== 'pending') {
+        return res.status(400).json({ message: 'Payment request is not pending' });
+      }
+
+      const creator = await storage.getCreator(request.creatorId);
+      if (!creator) {
+        return res.status(404).json({ message: 'Creator not found' });
+      }
+
+      const result = creatorProfileUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const updatedCreator = await updateCreatorDetails(creator, result.data);
+
+      await recordAudit(req, {
+        action: 'creator.update',
+        entityType: 'creator',
+        entityId: creator.id,
+        before: creator,
+        after: updatedCreator,
+        actor: { type: 'creator', id: creator.id.toString(), email: creator.email },
+      });
+
+      res.json(toCreatorProfile(updatedCreator));
+    } catch (error: any) {
+      if (error instanceof VatIdRejectedError || error instanceof SelfBillingConsentRequiredError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message || 'Failed to update creator' });
+    }
+  });
+
+  // Invoice upload for creators, scoped to their claim token
+  app.post('/api/claim/:token/invoice', requireClaim, upload.single('invoice'), async (req, res) => {
     try {
-      const paymentRequestId = parseInt(req.params.id);
       const file = req.file;
       
       if (!file) {
         return res.status(400).json({ message: 'No file uploaded' });
       }
 
-      const request = await storage.getPaymentRequest(paymentRequestId);
-      if (!request) {
-        return res.status(404).json({ message: 'Payment request not found' });
+      const request = req.claim!;
+
+      const creator = await storage.getCreator(request.creatorId);
+      if (!creator) {
+        return res.status(404).json({ message: 'Creator not found' });
       }
 
-      // Validate with AI
-      const validation = await validateInvoiceWithAI(file.path, parseFloat(request.totalAmount));
+      // Check the invoice contents against the payment request and creator
+      const validation = await invoiceValidator.validate({
+        filePath: file.path,
+        paymentRequest: request,
+        creator,
+      });
 
       const invoice = await storage.createInvoice({
-        paymentRequestId,
+        paymentRequestId: request.id,
         type: 'uploaded',
         filename: file.originalname,
         fileUrl: file.path,
         aiValidationStatus: validation.status,
         aiValidationNotes: validation.notes,
+        validator: validation.validator,
+        validationConfidence: validation.confidence,
+        validationFields: validation.fields,
+      });
+
+      await recordAudit(req, {
+        action: 'invoice.upload',
+        entityType: 'invoice',
+        entityId: invoice.id,
+        after: invoice,
+        actor: { type: 'creator', id: request.creatorId.toString() },
       });
 
+      if (invoice.aiValidationStatus === 'invalid') {
+        await notifyInvoiceRejected(invoice, request, creator, `${req.protocol}://${req.get('host')}`);
+      }
+
       res.json(invoice);
     } catch (error: any) {
       console.error('Error uploading invoice:', error);
@@ -443,67 +985,746 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Process payment (admin only)
-  app.post('/api/payment-requests/:id/process', isAuthenticated, async (req, res) => {
+  // Invoice download for creators, scoped to their claim token
+  app.get('/api/claim/:token/invoices/:invoiceId/download', requireClaim, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const request = await storage.getPaymentRequest(id);
-      
+      const request = req.claim!;
+      const invoice = await storage.getInvoice(parseInt(req.params.invoiceId));
+
+      if (!invoice || invoice.paymentRequestId !== request.id || !invoice.fileUrl) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+
+      res.download(invoice.fileUrl, invoice.filename || `invoice-${invoice.id}.pdf`);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to download invoice' });
+    }
+  });
+
+  // Creators with an expired (not revoked) link can have a fresh one emailed to
+  // the address on file. The old token stops working, so this can't be repeated
+  // with the same link.
+  app.post('/api/claim/:token/renew', async (req, res) => {
+    try {
+      const request = await storage.getPaymentRequestByToken(req.params.token);
       if (!request) {
         return res.status(404).json({ message: 'Payment request not found' });
       }
 
-      const creator = await storage.getCreator(request.creatorId);
-      if (!creator || !creator.stripeAccountId) {
-        return res.status(400).json({ message: 'Creator Stripe account not found' });
+      if (getClaimLinkState(request) !== 'expired') {
+        return res.status(400).json({ message: 'Only expired claim links can be renewed' });
       }
 
-      // Check if creator account is ready
-      const account = await stripe.accounts.retrieve(creator.stripeAccountId);
-      if (!account.charges_enabled || !account.payouts_enabled) {
-        return res.status(400).json({ message: 'Creator Stripe account not ready for payments' });
+      const creator = await storage.getCreator(request.creatorId);
+      if (!creator) {
+        return res.status(404).json({ message: 'Creator not found' });
+      }
+
+      const renewedRequest = await storage.updatePaymentRequest(request.id, createClaimToken());
+
+      await recordAudit(req, {
+        action: 'payment_request.renew_claim_link',
+        entityType: 'payment_request',
+        entityId: request.id,
+        before: request,
+        after: renewedRequest,
+        actor: { type: 'creator', id: creator.id.toString(), email: creator.email },
+      });
+
+      await notifyPaymentRequestCreated(renewedRequest, creator, `${req.protocol}://${req.get('host')}`);
+
+      res.json({ message: 'A new link has been emailed to you' });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to renew claim link' });
+    }
+  });
+
+  // Invoice routes (admin only)
+  app.get('/api/payment-requests/:id/invoices', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const invoices = await storage.getInvoicesByPaymentRequest(parseInt(req.params.id));
+      res.json(invoices);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch invoices' });
+    }
+  });
+
+  app.post('/api/payment-requests/:id/invoices/generate', isAuthenticated, requirePermission('invoices:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const request = await storage.getPaymentRequest(id);
+
+      if (!request) {
+        return res.status(404).json({ message: 'Payment request not found' });
+      }
+
+      const creator = await storage.getCreator(request.creatorId);
+      if (!creator) {
+        return res.status(404).json({ message: 'Creator not found' });
+      }
+
+      const invoice = await generateInvoice(request, creator);
+
+      await recordAudit(req, {
+        action: 'invoice.generate',
+        entityType: 'invoice',
+        entityId: invoice.id,
+        after: invoice,
+      });
+
+      res.json(invoice);
+    } catch (error: any) {
+      if (error instanceof SelfBillingConsentRequiredError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error generating invoice:', error);
+      res.status(500).json({ message: error.message || 'Failed to generate invoice' });
+    }
+  });
+
+  app.get('/api/invoices/:id/download', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+
+      if (!invoice || !invoice.fileUrl) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+
+      res.download(invoice.fileUrl, invoice.filename || `invoice-${invoice.id}.pdf`);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to download invoice' });
+    }
+  });
+
+  // Status history of a payment request (admin only)
+  app.get('/api/payment-requests/:id/events', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const events = await storage.getPaymentRequestEvents(parseInt(req.params.id));
+      res.json(events);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch payment history' });
+    }
+  });
+
+  // Reminders sent to the creator for a payment request
+  app.get('/api/payment-requests/:id/reminders', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const reminders = await storage.getReminders({ paymentRequestId: parseInt(req.params.id) });
+      res.json(reminders);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch reminders' });
+    }
+  });
+
+  // Sends every reminder that is due now instead of waiting for the scheduler
+  app.post('/api/reminders/run', isAuthenticated, requirePermission('payments:create'), async (req, res) => {
+    try {
+      const sent = await runReminders();
+      res.json({ sent: sent.length });
+    } catch (error: any) {
+      console.error('Error sending reminders:', error);
+      res.status(500).json({ message: error.message || 'Failed to send reminders' });
+    }
+  });
+
+  app.get('/api/payment-requests/:id/credit-notes', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const creditNotes = await storage.getCreditNotesByPaymentRequests([parseInt(req.params.id)]);
+      res.json(creditNotes);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch credit notes' });
+    }
+  });
+
+  // Installment schedule with paid and remaining totals; empty for requests paid at once
+  app.get('/api/payment-requests/:id/installments', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const installments = await storage.getPaymentInstallmentsByPaymentRequests([parseInt(req.params.id)]);
+      res.json({ installments, ...getInstallmentTotals(installments) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch installments' });
+    }
+  });
+
+  // Full or partial credit of a paid payment request, optionally reversing the transfer
+  app.post('/api/payment-requests/:id/credit-notes', isAuthenticated, requirePermission('payments:process'), async (req, res) => {
+    try {
+      const request = await storage.getPaymentRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: 'Payment request not found' });
+      }
+
+      const result = createCreditNoteSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const creditNote = await issueCreditNote(request, result.data, adminActor(req).id);
+
+      await recordAudit(req, {
+        action: 'credit_note.create',
+        entityType: 'payment_request',
+        entityId: request.id,
+        after: creditNote,
+      });
+
+      res.json(creditNote);
+    } catch (error: any) {
+      if (error instanceof CreditNoteError || error instanceof SelfBillingConsentRequiredError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error creating credit note:', error);
+      res.status(500).json({ message: error.message || 'Failed to create credit note' });
+    }
+  });
+
+  // Approve a claimed payment for payout (admin only)
+  app.post('/api/payment-requests/:id/approve', isAuthenticated, requirePermission('payments:approve'), async (req, res) => {
+    try {
+      const request = await storage.getPaymentRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: 'Payment request not found' });
+      }
+
+      const actor = adminActor(req);
+      const blocker = getApprovalBlocker(request, actor.id!);
+      if (blocker) {
+        return res.status(403).json({ message: blocker });
+      }
+
+      const approvedRequest = await transitionPaymentRequest(
+        request,
+        'approved',
+        actor,
+        { approvedBy: actor.id, approvedAt: new Date() },
+        req.body.reason || null,
+      );
+
+      await recordAudit(req, {
+        action: 'payment_request.approve',
+        entityType: 'payment_request',
+        entityId: request.id,
+        before: request,
+        after: approvedRequest,
+      });
+
+      res.json(approvedRequest);
+    } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error approving payment request:', error);
+      res.status(500).json({ message: error.message || 'Failed to approve payment request' });
+    }
+  });
+
+  // Reject a claimed payment; a reason is required so the creator can be told why
+  app.post('/api/payment-requests/:id/reject', isAuthenticated, requirePermission('payments:approve'), async (req, res) => {
+    try {
+      const { reason } = req.body;
+      if (!reason || !reason.trim()) {
+        return res.status(400).json({ message: 'A reason is required to reject a payment request' });
+      }
+
+      const request = await storage.getPaymentRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: 'Payment request not found' });
+      }
+
+      const actor = adminActor(req);
+      const rejectedRequest = await transitionPaymentRequest(
+        request,
+        'rejected',
+        actor,
+        { rejectedBy: actor.id, rejectionReason: reason.trim() },
+        reason.trim(),
+      );
+
+      await recordAudit(req, {
+        action: 'payment_request.reject',
+        entityType: 'payment_request',
+        entityId: request.id,
+        before: request,
+        after: rejectedRequest,
+      });
+
+      res.json(rejectedRequest);
+    } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error rejecting payment request:', error);
+      res.status(500).json({ message: error.message || 'Failed to reject payment request' });
+    }
+  });
+
+  // Cancel a payment request that has not been paid (admin only)
+  app.post('/api/payment-requests/:id/cancel', isAuthenticated, requirePermission('payments:cancel'), async (req, res) => {
+    try {
+      const request = await storage.getPaymentRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: 'Payment request not found' });
+      }
+
+      const cancelledRequest = await transitionPaymentRequest(
+        request,
+        'cancelled',
+        adminActor(req),
+        {},
+        req.body.reason || null,
+      );
+
+      await recordAudit(req, {
+        action: 'payment_request.cancel',
+        entityType: 'payment_request',
+        entityId: request.id,
+        before: request,
+        after: cancelledRequest,
+      });
+
+      res.json(cancelledRequest);
+    } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error cancelling payment request:', error);
+      res.status(500).json({ message: error.message || 'Failed to cancel payment request' });
+    }
+  });
+
+  // Claim link management (admin only). Revoking kills the current link;
+  // regenerating issues a new one, emails it to the creator and returns it.
+  app.post('/api/payment-requests/:id/claim-link/revoke', isAuthenticated, requirePermission('payments:create'), async (req, res) => {
+    try {
+      const request = await storage.getPaymentRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: 'Payment request not found' });
+      }
+
+      if (request.claimTokenRevokedAt) {
+        return res.status(400).json({ message: 'Claim link is already revoked' });
+      }
+
+      const revokedRequest = await storage.updatePaymentRequest(request.id, { claimTokenRevokedAt: new Date() });
+
+      await recordAudit(req, {
+        action: 'payment_request.revoke_claim_link',
+        entityType: 'payment_request',
+        entityId: request.id,
+        before: request,
+        after: revokedRequest,
+      });
+
+      res.json({ claimLinkState: getClaimLinkState(revokedRequest), claimTokenExpiresAt: getClaimTokenExpiry(revokedRequest) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to revoke claim link' });
+    }
+  });
+
+  app.post('/api/payment-requests/:id/claim-link/regenerate', isAuthenticated, requirePermission('payments:create'), async (req, res) => {
+    try {
+      const request = await storage.getPaymentRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: 'Payment request not found' });
+      }
+
+      if (isFinalStatus(request.status)) {
+        return res.status(400).json({ message: `Payment request is ${request.status}` });
+      }
+
+      const creator = await storage.getCreator(request.creatorId);
+      if (!creator) {
+        return res.status(404).json({ message: 'Creator not found' });
+      }
+
+      const regeneratedRequest = await storage.updatePaymentRequest(request.id, createClaimToken());
+
+      await recordAudit(req, {
+        action: 'payment_request.regenerate_claim_link',
+        entityType: 'payment_request',
+        entityId: request.id,
+        before: request,
+        after: regeneratedRequest,
+      });
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      await notifyPaymentRequestCreated(regeneratedRequest, creator, baseUrl);
+
+      res.json({
+        claimUrl: getClaimUrl(baseUrl, regeneratedRequest.claimToken!),
+        claimLinkState: getClaimLinkState(regeneratedRequest),
+        claimTokenExpiresAt: getClaimTokenExpiry(regeneratedRequest),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to regenerate claim link' });
+    }
+  });
+
+  // Recurring payments: series that generate a payment request every period
+  app.get('/api/recurring-payments', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const series = await storage.listRecurringPaymentsWithCreators();
+      res.json(series.map(withAdminCreator));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch recurring payments' });
+    }
+  });
+
+  app.post('/api/recurring-payments', isAuthenticated, requirePermission('payments:create'), async (req, res) => {
+    try {
+      const result = createRecurringPaymentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const series = await createRecurringPayment(result.data, adminActor(req).id);
+
+      await recordAudit(req, {
+        action: 'recurring_payment.create',
+        entityType: 'recurring_payment',
+        entityId: series.id,
+        after: series,
+      });
+
+      res.json(series);
+    } catch (error: any) {
+      if (error instanceof RecurringPaymentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error creating recurring payment:', error);
+      res.status(500).json({ message: error.message || 'Failed to create recurring payment' });
+    }
+  });
+
+  app.patch('/api/recurring-payments/:id', isAuthenticated, requirePermission('payments:create'), async (req, res) => {
+    try {
+      const series = await storage.getRecurringPayment(parseInt(req.params.id));
+      if (!series) {
+        return res.status(404).json({ message: 'Recurring payment not found' });
+      }
+
+      const result = updateRecurringPaymentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const updatedSeries = await updateRecurringPayment(series, result.data);
+
+      await recordAudit(req, {
+        action: 'recurring_payment.update',
+        entityType: 'recurring_payment',
+        entityId: series.id,
+        before: series,
+        after: updatedSeries,
+      });
+
+      res.json(updatedSeries);
+    } catch (error: any) {
+      if (error instanceof RecurringPaymentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error updating recurring payment:', error);
+      res.status(500).json({ message: error.message || 'Failed to update recurring payment' });
+    }
+  });
+
+  const RECURRING_PAYMENT_ACTIONS = {
+    pause: pauseRecurringPayment,
+    resume: resumeRecurringPayment,
+    end: endRecurringPayment,
+  };
+
+  app.post('/api/recurring-payments/:id/:action(pause|resume|end)', isAuthenticated, requirePermission('payments:create'), async (req, res) => {
+    try {
+      const series = await storage.getRecurringPayment(parseInt(req.params.id));
+      if (!series) {
+        return res.status(404).json({ message: 'Recurring payment not found' });
       }
 
-      // Create transfer to creator
-      const transfer = await stripe.transfers.create({
-        amount: Math.round(parseFloat(request.totalAmount) * 100), // Convert to cents
-        currency: 'eur',
-        destination: creator.stripeAccountId,
-        description: request.description || `Payment to ${creator.fullName}`,
+      const action = req.params.action as keyof typeof RECURRING_PAYMENT_ACTIONS;
+      const updatedSeries = await RECURRING_PAYMENT_ACTIONS[action](series);
+
+      await recordAudit(req, {
+        action: `recurring_payment.${action}`,
+        entityType: 'recurring_payment',
+        entityId: series.id,
+        before: series,
+        after: updatedSeries,
       });
 
-      // Update payment status
-      await storage.updatePaymentRequest(id, {
-        status: 'paid',
-        paidAt: new Date(),
+      res.json(updatedSeries);
+    } catch (error: any) {
+      if (error instanceof RecurringPaymentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error changing recurring payment:', error);
+      res.status(500).json({ message: error.message || 'Failed to change recurring payment' });
+    }
+  });
+
+  // Campaigns: brand budgets that payment requests count against
+  app.get('/api/campaigns', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const campaigns = await listCampaignSummaries();
+      res.json(campaigns);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch campaigns' });
+    }
+  });
+
+  app.get('/api/campaigns/:id', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(parseInt(req.params.id));
+      if (!campaign) {
+        return res.status(404).json({ message: 'Campaign not found' });
+      }
+
+      const payments = await getCampaignPayments([campaign.id]);
+      res.json({ ...summarizeCampaign(campaign, payments), payments: payments.map(withAdminCreator) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch campaign' });
+    }
+  });
+
+  app.post('/api/campaigns', isAuthenticated, requirePermission('payments:create'), async (req, res) => {
+    try {
+      const result = createCampaignSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const campaign = await createCampaign(result.data, adminActor(req).id);
+
+      await recordAudit(req, {
+        action: 'campaign.create',
+        entityType: 'campaign',
+        entityId: campaign.id,
+        after: campaign,
+      });
+
+      res.json(campaign);
+    } catch (error: any) {
+      if (error instanceof CampaignError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error creating campaign:', error);
+      res.status(500).json({ message: error.message || 'Failed to create campaign' });
+    }
+  });
+
+  app.patch('/api/campaigns/:id', isAuthenticated, requirePermission('payments:create'), async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(parseInt(req.params.id));
+      if (!campaign) {
+        return res.status(404).json({ message: 'Campaign not found' });
+      }
+
+      const result = updateCampaignSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const updatedCampaign = await updateCampaign(campaign, result.data);
+
+      await recordAudit(req, {
+        action: 'campaign.update',
+        entityType: 'campaign',
+        entityId: campaign.id,
+        before: campaign,
+        after: updatedCampaign,
+      });
+
+      res.json(updatedCampaign);
+    } catch (error: any) {
+      if (error instanceof CampaignError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error updating campaign:', error);
+      res.status(500).json({ message: error.message || 'Failed to update campaign' });
+    }
+  });
+
+  // Process payment (admin only)
+  app.post('/api/payment-requests/:id/process', isAuthenticated, requirePermission('payments:process'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const request = await storage.getPaymentRequest(id);
+      const { paymentRequest, transfer } = await processPaymentRequest(id, adminActor(req));
+
+      await recordAudit(req, {
+        action: 'payment_request.process',
+        entityType: 'payment_request',
+        entityId: id,
+        before: request,
+        after: paymentRequest,
       });
 
       res.json({ transfer, message: 'Payment processed successfully' });
     } catch (error: any) {
+      if (error instanceof PayoutError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Error processing payment:', error);
       res.status(500).json({ message: error.message || 'Failed to process payment' });
     }
   });
 
+  // Process several payments at once (admin only); reports per item
+  app.post('/api/payment-requests/batch-process', isAuthenticated, requirePermission('payments:process'), async (req, res) => {
+    try {
+      const { ids } = req.body;
+
+      if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => Number.isInteger(id))) {
+        return res.status(400).json({ message: 'A non-empty list of payment request IDs is required' });
+      }
+
+      const results = await processPaymentRequests(Array.from(new Set<number>(ids)), adminActor(req));
+
+      for (const result of results.filter(result => result.success)) {
+        await recordAudit(req, {
+          action: 'payment_request.process',
+          entityType: 'payment_request',
+          entityId: result.paymentRequestId,
+          after: { status: result.status, stripeTransferId: result.transferId },
+        });
+      }
+
+      res.json({
+        results,
+        succeeded: results.filter(result => result.success).length,
+        failed: results.filter(result => !result.success).length,
+      });
+    } catch (error: any) {
+      console.error('Error processing payment batch:', error);
+      res.status(500).json({ message: error.message || 'Failed to process payments' });
+    }
+  });
+
+  // Stripe webhook (signature verified against the raw request body)
+  app.post('/api/stripe/webhook', async (req, res) => {
+    const signature = req.headers['stripe-signature'];
+    if (!signature || typeof signature !== 'string') {
+      return res.status(400).json({ message: 'Missing Stripe signature' });
+    }
+
+    let event;
+    try {
+      event = constructStripeEvent(req.rawBody as Buffer, signature);
+    } catch (error: any) {
+      console.error('Stripe webhook signature verification failed:', error);
+      return res.status(400).json({ message: `Webhook signature verification failed: ${error.message}` });
+    }
+
+    try {
+      const storedEvent = await recordStripeEvent(event);
+
+      // Duplicate delivery of an event we already handled
+      if (storedEvent.status === 'processed' || storedEvent.status === 'ignored') {
+        return res.json({ received: true, duplicate: true });
+      }
+
+      await processStripeEvent(storedEvent);
+      res.json({ received: true });
+    } catch (error: any) {
+      console.error('Error handling Stripe webhook:', error);
+      res.status(500).json({ message: error.message || 'Failed to handle Stripe webhook' });
+    }
+  });
+
+  app.get('/api/stripe/events', isAuthenticated, requirePermission('stripe:manage'), async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const offset = parseInt(req.query.offset as string) || 0;
+      const status = req.query.status as string;
+
+      const events = await storage.listStripeEvents(limit, offset, status);
+      res.json(events);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch Stripe events' });
+    }
+  });
+
+  // Replay a stored Stripe event (e.g. after fixing a failed handler)
+  app.post('/api/stripe/events/:id/replay', isAuthenticated, requirePermission('stripe:manage'), async (req, res) => {
+    try {
+      const storedEvent = await storage.getStripeEvent(req.params.id);
+
+      if (!storedEvent) {
+        return res.status(404).json({ message: 'Stripe event not found' });
+      }
+
+      const processedEvent = await processStripeEvent(storedEvent);
+
+      await recordAudit(req, {
+        action: 'stripe_event.replay',
+        entityType: 'stripe_event',
+        entityId: storedEvent.id,
+        before: { status: storedEvent.status, attempts: storedEvent.attempts },
+        after: { status: processedEvent.status, attempts: processedEvent.attempts },
+      });
+
+      res.json(processedEvent);
+    } catch (error: any) {
+      console.error('Error replaying Stripe event:', error);
+      res.status(500).json({ message: error.message || 'Failed to replay Stripe event' });
+    }
+  });
+
+  // Audit log search (admin only)
+  app.get('/api/audit-logs', isAuthenticated, requirePermission('audit:read'), async (req, res) => {
+    try {
+      const dateRange = parseDateRange(req.query.from, req.query.to);
+      if (!dateRange) {
+        return res.status(400).json({ message: 'Invalid date range' });
+      }
+
+      const entries = await storage.searchAuditLogs({
+        actor: req.query.actor as string || undefined,
+        action: req.query.action as string || undefined,
+        entityType: req.query.entityType as string || undefined,
+        entityId: req.query.entityId as string || undefined,
+        ...dateRange,
+        limit: parseInt(req.query.limit as string) || 100,
+        offset: parseInt(req.query.offset as string) || 0,
+      });
+      res.json(entries);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || 'Failed to fetch audit log' });
+    }
+  });
+
   // Dashboard stats
-  app.get('/api/dashboard/stats', isAuthenticated, async (req, res) => {
+  app.get('/api/dashboard/stats', isAuthenticated, requirePermission('payments:read'), async (req, res) => {
     try {
-      const requests = await storage.getPaymentRequestsWithCreators();
-      const creators = await storage.listCreators();
-      
-      const totalPayouts = requests
-        .filter(r => r.status === 'paid')
-        .reduce((sum, r) => sum + parseFloat(r.totalAmount), 0);
-      
-      const pendingPayments = requests.filter(r => r.status === 'pending').length;
-      const successRate = requests.length > 0 
-        ? (requests.filter(r => r.status === 'paid').length / requests.length) * 100 
+      // Aggregated in the database, so the numbers cover every request
+      const stats = await storage.getPaymentRequestStats(new Date());
+      const activeCreators = await storage.countCreators();
+      const countWhere = (status: string, count: (row: typeof stats[number]) => number = row => row.count) =>
+        stats.filter(row => row.status === status).reduce((sum, row) => sum + count(row), 0);
+
+      // Amounts in different currencies cannot be summed, so totals are grouped
+      const totalPayoutsByCurrency: Record<string, number> = {};
+      stats
+        .filter(row => row.status === 'paid')
+        .forEach(row => {
+          totalPayoutsByCurrency[row.currency] = (totalPayoutsByCurrency[row.currency] || 0) + parseFloat(row.totalAmount);
+        });
+
+      const totalRequests = stats.reduce((sum, row) => sum + row.count, 0);
+      const pendingPayments = countWhere('pending');
+      // Matches isOverdue: pending requests past their due date
+      const overduePayments = countWhere('pending', row => row.overdueCount);
+      const successRate = totalRequests > 0 
+        ? (countWhere('paid') / totalRequests) * 100 
         : 0;
 
       res.json({
-        totalPayouts: totalPayouts.toFixed(2),
-        activeCreators: creators.length,
+        totalPayouts: Object.fromEntries(
+          Object.entries(totalPayoutsByCurrency).map(([currency, total]) => [currency, total.toFixed(2)]),
+        ),
+        activeCreators,
         pendingPayments,
+        overduePayments,
         successRate: successRate.toFixed(1),
       });
     } catch (error: any) {
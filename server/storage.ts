@@ -1,50 +1,221 @@
 import {
   users,
   creators,
+  creatorLoginTokens,
+  vatChecks,
+  taxForms,
   paymentRequests,
   invoices,
+  creditNotes,
+  paymentInstallments,
+  recurringPayments,
+  campaigns,
+  paymentRequestEvents,
+  stripeEvents,
+  auditLogs,
+  emailOutbox,
+  reminders,
   type User,
   type UpsertUser,
   type Creator,
   type InsertCreator,
+  type CreatorLoginToken,
+  type InsertCreatorLoginToken,
+  type VatCheck,
+  type InsertVatCheck,
+  type TaxForm,
+  type InsertTaxForm,
   type PaymentRequest,
   type InsertPaymentRequest,
   type Invoice,
   type InsertInvoice,
+  type CreditNote,
+  type InsertCreditNote,
+  type PaymentInstallment,
+  type InsertPaymentInstallment,
+  type RecurringPayment,
+  type InsertRecurringPayment,
+  type Campaign,
+  type InsertCampaign,
+  type PaymentRequestEvent,
+  type InsertPaymentRequestEvent,
+  type StripeEvent,
+  type InsertStripeEvent,
+  type AuditLog,
+  type InsertAuditLog,
+  type OutboxEmail,
+  type InsertOutboxEmail,
+  type Reminder,
+  type InsertReminder,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, like } from "drizzle-orm";
+import { eq, desc, and, or, like, ilike, inArray, gt, gte, lte, isNull, sql, type SQL } from "drizzle-orm";
+
+export interface PaymentRequestFilters {
+  status?: string;
+  search?: string; // Matches creator name or email
+  from?: Date; // Created on or after
+  to?: Date; // Created on or before
+}
+
+// Payment requests per currency and status, for the dashboard
+export interface PaymentRequestStats {
+  currency: string;
+  status: string;
+  count: number;
+  totalAmount: string;
+  overdueCount: number; // With a due date in the past
+}
+
+export interface ReminderFilters {
+  kind?: string;
+  creatorId?: number;
+  paymentRequestId?: number;
+}
+
+export interface AuditLogFilters {
+  actor?: string; // Matches actor ID or email
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// A credit note with the number of its document
+export type CreditNoteWithNumber = CreditNote & { invoiceNumber: string | null };
+export type CreditNoteValues = Omit<InsertCreditNote, 'invoiceId' | 'paymentRequestId'>;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Status changes go through updatePaymentRequestStatus so they are checked
+// and recorded in the payment request history
+export type PaymentRequestUpdate = Partial<Omit<PaymentRequest, 'id' | 'status'>>;
 
 export interface IStorage {
   // User operations for Replit Auth
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  listUsers(): Promise<User[]>;
+  updateUserRole(id: string, role: string): Promise<User>;
 
   // Creator operations
   getCreator(id: number): Promise<Creator | undefined>;
   getCreatorByEmail(email: string): Promise<Creator | undefined>;
   getCreatorByStripeAccount(stripeAccountId: string): Promise<Creator | undefined>;
+  getCreatorByAccessToken(accessToken: string): Promise<Creator | undefined>;
   createCreator(creator: InsertCreator): Promise<Creator>;
   updateCreator(id: number, updates: Partial<Creator>): Promise<Creator>;
   listCreators(limit?: number, offset?: number): Promise<Creator[]>;
+  listCreatorsAwaitingOnboarding(): Promise<Creator[]>;
+
+  // Creator portal login (magic links)
+  createCreatorLoginToken(token: InsertCreatorLoginToken): Promise<CreatorLoginToken>;
+  consumeCreatorLoginToken(tokenHash: string): Promise<CreatorLoginToken | undefined>;
+
+  // VAT ID checks (reverse charge evidence)
+  createVatCheck(check: InsertVatCheck): Promise<VatCheck>;
+  getVatChecksByCreator(creatorId: number): Promise<VatCheck[]>;
+  getLatestVatCheck(creatorId: number): Promise<VatCheck | undefined>;
+
+  // Tax forms
+  createTaxForm(form: InsertTaxForm): Promise<TaxForm>;
+  getCurrentTaxForm(creatorId: number): Promise<TaxForm | undefined>;
   
   // Payment request operations
   getPaymentRequest(id: number): Promise<PaymentRequest | undefined>;
   getPaymentRequestByToken(token: string): Promise<PaymentRequest | undefined>;
   createPaymentRequest(request: InsertPaymentRequest): Promise<PaymentRequest>;
-  updatePaymentRequest(id: number, updates: Partial<PaymentRequest>): Promise<PaymentRequest>;
+  updatePaymentRequest(id: number, updates: PaymentRequestUpdate): Promise<PaymentRequest>;
+  updatePaymentRequestStatus(
+    id: number,
+    fromStatus: string,
+    toStatus: string,
+    updates: PaymentRequestUpdate,
+    event: Omit<InsertPaymentRequestEvent, 'paymentRequestId' | 'fromStatus' | 'toStatus'>,
+  ): Promise<PaymentRequest | undefined>;
   listPaymentRequests(limit?: number, offset?: number, status?: string): Promise<PaymentRequest[]>;
   getPaymentRequestsWithCreators(
     limit?: number,
     offset?: number,
     status?: string,
   ): Promise<(PaymentRequest & { creator: Creator })[]>;
+  searchPaymentRequestsWithCreators(filters: PaymentRequestFilters): Promise<(PaymentRequest & { creator: Creator })[]>;
+  getPaymentRequestsByCreator(creatorId: number): Promise<PaymentRequest[]>;
+  getPaymentRequestStats(now: Date): Promise<PaymentRequestStats[]>;
+  countCreators(): Promise<number>;
+
+  // Installment schedules
+  createPaymentInstallments(installments: InsertPaymentInstallment[]): Promise<PaymentInstallment[]>;
+  getPaymentInstallmentsByPaymentRequests(paymentRequestIds: number[]): Promise<PaymentInstallment[]>;
+  updatePaymentInstallment(id: number, updates: Partial<PaymentInstallment>): Promise<PaymentInstallment>;
   
+  // Recurring payments
+  createRecurringPayment(series: InsertRecurringPayment): Promise<RecurringPayment>;
+  getRecurringPayment(id: number): Promise<RecurringPayment | undefined>;
+  listRecurringPaymentsWithCreators(): Promise<(RecurringPayment & { creator: Creator })[]>;
+  getDueRecurringPayments(now: Date): Promise<RecurringPayment[]>;
+  updateRecurringPayment(id: number, updates: Partial<RecurringPayment>): Promise<RecurringPayment>;
+  advanceRecurringPayment(
+    id: number,
+    fromPeriod: number,
+    updates: Partial<RecurringPayment>,
+  ): Promise<RecurringPayment | undefined>;
+
+  // Campaigns
+  createCampaign(campaign: InsertCampaign): Promise<Campaign>;
+  getCampaign(id: number): Promise<Campaign | undefined>;
+  listCampaigns(): Promise<Campaign[]>;
+  updateCampaign(id: number, updates: Partial<Campaign>): Promise<Campaign>;
+  getPaymentRequestsByCampaigns(campaignIds: number[]): Promise<(PaymentRequest & { creator: Creator })[]>;
+
+  // Payment request history
+  createPaymentRequestEvent(event: InsertPaymentRequestEvent): Promise<PaymentRequestEvent>;
+  getPaymentRequestEvents(paymentRequestId: number): Promise<PaymentRequestEvent[]>;
+
   // Invoice operations
   getInvoice(id: number): Promise<Invoice | undefined>;
   createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  createSelfBilledInvoice(
+    creatorId: number,
+    paymentRequestId: number,
+    build: (sequence: number) => Promise<Pick<InsertInvoice, 'invoiceNumber' | 'filename' | 'fileUrl'>>,
+  ): Promise<Invoice>;
+
+  // Credit notes (corrections of paid payment requests)
+  createCreditNote(
+    creatorId: number,
+    paymentRequestId: number,
+    prepare: (request: PaymentRequest, issued: CreditNote[]) => Promise<CreditNoteValues>,
+    build: (sequence: number, creditNote: CreditNoteValues) => Promise<Pick<InsertInvoice, 'invoiceNumber' | 'filename' | 'fileUrl'>>,
+  ): Promise<CreditNote>;
+  getCreditNotesByPaymentRequests(paymentRequestIds: number[]): Promise<CreditNoteWithNumber[]>;
   updateInvoice(id: number, updates: Partial<Invoice>): Promise<Invoice>;
   getInvoicesByPaymentRequest(paymentRequestId: number): Promise<Invoice[]>;
+  getInvoicesByCreator(creatorId: number): Promise<Invoice[]>;
+
+  // Stripe webhook event operations
+  getStripeEvent(id: string): Promise<StripeEvent | undefined>;
+  createStripeEvent(event: InsertStripeEvent): Promise<StripeEvent>;
+  updateStripeEvent(id: string, updates: Partial<StripeEvent>): Promise<StripeEvent>;
+  listStripeEvents(limit?: number, offset?: number, status?: string): Promise<StripeEvent[]>;
+
+  // Audit log operations (append-only: there is no update or delete)
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  searchAuditLogs(filters: AuditLogFilters): Promise<AuditLog[]>;
+
+  // Email outbox operations
+  createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail>;
+  getDueOutboxEmails(limit?: number): Promise<OutboxEmail[]>;
+  claimOutboxEmail(id: number, leaseUntil: Date): Promise<OutboxEmail | undefined>;
+  updateOutboxEmail(id: number, updates: Partial<OutboxEmail>): Promise<OutboxEmail>;
+  releaseExpiredOutboxLeases(): Promise<number>;
+
+  // Reminder operations
+  createReminder(reminder: InsertReminder): Promise<Reminder>;
+  getReminders(filters: ReminderFilters): Promise<Reminder[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -69,6 +240,19 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async listUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.createdAt);
+  }
+
+  async updateUserRole(id: string, role: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   // Creator operations
   async getCreator(id: number): Promise<Creator | undefined> {
     const [creator] = await db.select().from(creators).where(eq(creators.id, id));
@@ -85,6 +269,11 @@ export class DatabaseStorage implements IStorage {
     return creator;
   }
 
+  async getCreatorByAccessToken(accessToken: string): Promise<Creator | undefined> {
+    const [creator] = await db.select().from(creators).where(eq(creators.accessToken, accessToken));
+    return creator;
+  }
+
   async createCreator(creator: InsertCreator): Promise<Creator> {
     const [newCreator] = await db
       .insert(creators)
@@ -111,6 +300,91 @@ export class DatabaseStorage implements IStorage {
       .offset(offset);
   }
 
+  // Creators that can't be paid out yet because Stripe onboarding is unfinished
+  async listCreatorsAwaitingOnboarding(): Promise<Creator[]> {
+    return await db
+      .select()
+      .from(creators)
+      .where(or(eq(creators.payoutsEnabled, false), isNull(creators.payoutsEnabled)))
+      .orderBy(creators.createdAt);
+  }
+
+  // Creator portal login (magic links)
+  async createCreatorLoginToken(token: InsertCreatorLoginToken): Promise<CreatorLoginToken> {
+    const [newToken] = await db
+      .insert(creatorLoginTokens)
+      .values(token)
+      .returning();
+    return newToken;
+  }
+
+  // Marks the token as used in the same statement that checks it, so a link
+  // can only be used once. Returns undefined for unknown, used or expired tokens.
+  async consumeCreatorLoginToken(tokenHash: string): Promise<CreatorLoginToken | undefined> {
+    const [token] = await db
+      .update(creatorLoginTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(creatorLoginTokens.tokenHash, tokenHash),
+        isNull(creatorLoginTokens.usedAt),
+        gt(creatorLoginTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return token;
+  }
+
+  // VAT ID checks (reverse charge evidence)
+  async createVatCheck(check: InsertVatCheck): Promise<VatCheck> {
+    const [newCheck] = await db
+      .insert(vatChecks)
+      .values(check)
+      .returning();
+    return newCheck;
+  }
+
+  async getVatChecksByCreator(creatorId: number): Promise<VatCheck[]> {
+    return await db
+      .select()
+      .from(vatChecks)
+      .where(eq(vatChecks.creatorId, creatorId))
+      .orderBy(desc(vatChecks.checkedAt), desc(vatChecks.id));
+  }
+
+  async getLatestVatCheck(creatorId: number): Promise<VatCheck | undefined> {
+    const [check] = await db
+      .select()
+      .from(vatChecks)
+      .where(eq(vatChecks.creatorId, creatorId))
+      .orderBy(desc(vatChecks.checkedAt), desc(vatChecks.id))
+      .limit(1);
+    return check;
+  }
+
+  // Tax forms. A new form supersedes the creator's previous one, which is
+  // kept because earlier payments were withheld based on it.
+  async createTaxForm(form: InsertTaxForm): Promise<TaxForm> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(taxForms)
+        .set({ supersededAt: new Date() })
+        .where(and(eq(taxForms.creatorId, form.creatorId), isNull(taxForms.supersededAt)));
+
+      const [newForm] = await tx
+        .insert(taxForms)
+        .values(form)
+        .returning();
+      return newForm;
+    });
+  }
+
+  async getCurrentTaxForm(creatorId: number): Promise<TaxForm | undefined> {
+    const [form] = await db
+      .select()
+      .from(taxForms)
+      .where(and(eq(taxForms.creatorId, creatorId), isNull(taxForms.supersededAt)));
+    return form;
+  }
+
   // Payment request operations
   async getPaymentRequest(id: number): Promise<PaymentRequest | undefined> {
     const [request] = await db.select().from(paymentRequests).where(eq(paymentRequests.id, id));
@@ -130,7 +404,7 @@ export class DatabaseStorage implements IStorage {
     return newRequest;
   }
 
-  async updatePaymentRequest(id: number, updates: Partial<PaymentRequest>): Promise<PaymentRequest> {
+  async updatePaymentRequest(id: number, updates: PaymentRequestUpdate): Promise<PaymentRequest> {
     const [updatedRequest] = await db
       .update(paymentRequests)
       .set({ ...updates, updatedAt: new Date() })
@@ -139,6 +413,35 @@ export class DatabaseStorage implements IStorage {
     return updatedRequest;
   }
 
+  // Compare-and-set on the status column, recorded in the history in the same
+  // transaction. Returns undefined when the request was no longer in fromStatus.
+  async updatePaymentRequestStatus(
+    id: number,
+    fromStatus: string,
+    toStatus: string,
+    updates: PaymentRequestUpdate,
+    event: Omit<InsertPaymentRequestEvent, 'paymentRequestId' | 'fromStatus' | 'toStatus'>,
+  ): Promise<PaymentRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedRequest] = await tx
+        .update(paymentRequests)
+        .set({ ...updates, status: toStatus, updatedAt: new Date() })
+        .where(and(eq(paymentRequests.id, id), eq(paymentRequests.status, fromStatus)))
+        .returning();
+
+      if (updatedRequest) {
+        await tx.insert(paymentRequestEvents).values({
+          ...event,
+          paymentRequestId: id,
+          fromStatus,
+          toStatus,
+        });
+      }
+
+      return updatedRequest;
+    });
+  }
+
   async listPaymentRequests(limit = 50, offset = 0, status?: string): Promise<PaymentRequest[]> {
     const baseQuery = db
       .select()
@@ -179,6 +482,217 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async searchPaymentRequestsWithCreators(
+    filters: PaymentRequestFilters,
+  ): Promise<(PaymentRequest & { creator: Creator })[]> {
+    const conditions: SQL[] = [];
+
+    if (filters.status) {
+      conditions.push(eq(paymentRequests.status, filters.status));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(ilike(creators.fullName, pattern), ilike(creators.email, pattern))!);
+    }
+    if (filters.from) {
+      conditions.push(gte(paymentRequests.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(paymentRequests.createdAt, filters.to));
+    }
+
+    const results = await db
+      .select()
+      .from(paymentRequests)
+      .innerJoin(creators, eq(paymentRequests.creatorId, creators.id))
+      .where(and(...conditions))
+      .orderBy(desc(paymentRequests.createdAt));
+
+    return results.map((result) => ({
+      ...result.payment_requests,
+      creator: result.creators,
+    }));
+  }
+
+  async getPaymentRequestsByCreator(creatorId: number): Promise<PaymentRequest[]> {
+    return await db
+      .select()
+      .from(paymentRequests)
+      .where(eq(paymentRequests.creatorId, creatorId))
+      .orderBy(desc(paymentRequests.createdAt));
+  }
+
+  async getPaymentRequestStats(now: Date): Promise<PaymentRequestStats[]> {
+    return await db
+      .select({
+        currency: paymentRequests.currency,
+        status: paymentRequests.status,
+        count: sql<number>`count(*)::int`,
+        totalAmount: sql<string>`coalesce(sum(${paymentRequests.totalAmount}), 0)::text`,
+        overdueCount: sql<number>`(count(*) filter (where ${paymentRequests.dueDate} < ${now.toISOString()}))::int`,
+      })
+      .from(paymentRequests)
+      .groupBy(paymentRequests.currency, paymentRequests.status);
+  }
+
+  async countCreators(): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(creators);
+    return result.count;
+  }
+
+  // Installment schedules
+  async createPaymentInstallments(installments: InsertPaymentInstallment[]): Promise<PaymentInstallment[]> {
+    if (installments.length === 0) {
+      return [];
+    }
+
+    return await db.insert(paymentInstallments).values(installments).returning();
+  }
+
+  async getPaymentInstallmentsByPaymentRequests(paymentRequestIds: number[]): Promise<PaymentInstallment[]> {
+    if (paymentRequestIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .select()
+      .from(paymentInstallments)
+      .where(inArray(paymentInstallments.paymentRequestId, paymentRequestIds))
+      .orderBy(paymentInstallments.paymentRequestId, paymentInstallments.number);
+  }
+
+  // Installments only change while their request is processing, which the
+  // request's status compare-and-set already serializes
+  async updatePaymentInstallment(id: number, updates: Partial<PaymentInstallment>): Promise<PaymentInstallment> {
+    const [updatedInstallment] = await db
+      .update(paymentInstallments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(paymentInstallments.id, id))
+      .returning();
+    return updatedInstallment;
+  }
+
+  // Recurring payments
+  async createRecurringPayment(series: InsertRecurringPayment): Promise<RecurringPayment> {
+    const [newSeries] = await db
+      .insert(recurringPayments)
+      .values(series)
+      .returning();
+    return newSeries;
+  }
+
+  async getRecurringPayment(id: number): Promise<RecurringPayment | undefined> {
+    const [series] = await db.select().from(recurringPayments).where(eq(recurringPayments.id, id));
+    return series;
+  }
+
+  async listRecurringPaymentsWithCreators(): Promise<(RecurringPayment & { creator: Creator })[]> {
+    const results = await db
+      .select()
+      .from(recurringPayments)
+      .innerJoin(creators, eq(recurringPayments.creatorId, creators.id))
+      .orderBy(desc(recurringPayments.createdAt));
+
+    return results.map((result) => ({
+      ...result.recurring_payments,
+      creator: result.creators,
+    }));
+  }
+
+  async getDueRecurringPayments(now: Date): Promise<RecurringPayment[]> {
+    return await db
+      .select()
+      .from(recurringPayments)
+      .where(and(eq(recurringPayments.status, 'active'), lte(recurringPayments.nextRunAt, now)))
+      .orderBy(recurringPayments.nextRunAt);
+  }
+
+  async updateRecurringPayment(id: number, updates: Partial<RecurringPayment>): Promise<RecurringPayment> {
+    const [updatedSeries] = await db
+      .update(recurringPayments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(recurringPayments.id, id))
+      .returning();
+    return updatedSeries;
+  }
+
+  // Compare-and-set on the next period, so a period is only ever moved past
+  // once. Returns undefined when another run (or an admin) got there first.
+  async advanceRecurringPayment(
+    id: number,
+    fromPeriod: number,
+    updates: Partial<RecurringPayment>,
+  ): Promise<RecurringPayment | undefined> {
+    const [updatedSeries] = await db
+      .update(recurringPayments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(recurringPayments.id, id), eq(recurringPayments.nextPeriod, fromPeriod)))
+      .returning();
+    return updatedSeries;
+  }
+
+  // Campaigns
+  async createCampaign(campaign: InsertCampaign): Promise<Campaign> {
+    const [newCampaign] = await db
+      .insert(campaigns)
+      .values(campaign)
+      .returning();
+    return newCampaign;
+  }
+
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    const [campaign] = await db.select().from(campaigns).where(eq(campaigns.id, id));
+    return campaign;
+  }
+
+  async listCampaigns(): Promise<Campaign[]> {
+    return await db.select().from(campaigns).orderBy(desc(campaigns.startDate));
+  }
+
+  async updateCampaign(id: number, updates: Partial<Campaign>): Promise<Campaign> {
+    const [updatedCampaign] = await db
+      .update(campaigns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(campaigns.id, id))
+      .returning();
+    return updatedCampaign;
+  }
+
+  async getPaymentRequestsByCampaigns(campaignIds: number[]): Promise<(PaymentRequest & { creator: Creator })[]> {
+    if (campaignIds.length === 0) {
+      return [];
+    }
+
+    const results = await db
+      .select()
+      .from(paymentRequests)
+      .innerJoin(creators, eq(paymentRequests.creatorId, creators.id))
+      .where(inArray(paymentRequests.campaignId, campaignIds))
+      .orderBy(desc(paymentRequests.createdAt));
+
+    return results.map((result) => ({
+      ...result.payment_requests,
+      creator: result.creators,
+    }));
+  }
+
+  // Payment request history
+  async createPaymentRequestEvent(event: InsertPaymentRequestEvent): Promise<PaymentRequestEvent> {
+    const [newEvent] = await db
+      .insert(paymentRequestEvents)
+      .values(event)
+      .returning();
+    return newEvent;
+  }
+
+  async getPaymentRequestEvents(paymentRequestId: number): Promise<PaymentRequestEvent[]> {
+    return await db
+      .select()
+      .from(paymentRequestEvents)
+      .where(eq(paymentRequestEvents.paymentRequestId, paymentRequestId))
+      .orderBy(paymentRequestEvents.createdAt, paymentRequestEvents.id);
+  }
+
   // Invoice operations
   async getInvoice(id: number): Promise<Invoice | undefined> {
     const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
@@ -193,6 +707,82 @@ export class DatabaseStorage implements IStorage {
     return newInvoice;
   }
 
+  // Allocates the creator's next invoice sequence number within `tx`. The row
+  // lock on the creator serializes allocations until the transaction ends, and
+  // a rollback returns the number, so the series stays gapless.
+  private async allocateInvoiceSequence(tx: Transaction, creatorId: number): Promise<number> {
+    const [creator] = await tx
+      .update(creators)
+      .set({ invoiceSequence: sql`${creators.invoiceSequence} + 1` })
+      .where(eq(creators.id, creatorId))
+      .returning({ invoiceSequence: creators.invoiceSequence });
+    return creator.invoiceSequence;
+  }
+
+  async createSelfBilledInvoice(
+    creatorId: number,
+    paymentRequestId: number,
+    build: (sequence: number) => Promise<Pick<InsertInvoice, 'invoiceNumber' | 'filename' | 'fileUrl'>>,
+  ): Promise<Invoice> {
+    return await db.transaction(async (tx) => {
+      const sequence = await this.allocateInvoiceSequence(tx, creatorId);
+      const [newInvoice] = await tx
+        .insert(invoices)
+        .values({ ...(await build(sequence)), paymentRequestId, type: 'generated' })
+        .returning();
+      return newInvoice;
+    });
+  }
+
+  // Credit notes are numbered in the creator's invoice series. The payment
+  // request stays locked while `prepare` works out the credit from the credit
+  // notes issued so far, so concurrent credits can't add up to more than it.
+  async createCreditNote(
+    creatorId: number,
+    paymentRequestId: number,
+    prepare: (request: PaymentRequest, issued: CreditNote[]) => Promise<CreditNoteValues>,
+    build: (sequence: number, creditNote: CreditNoteValues) => Promise<Pick<InsertInvoice, 'invoiceNumber' | 'filename' | 'fileUrl'>>,
+  ): Promise<CreditNote> {
+    return await db.transaction(async (tx) => {
+      const [request] = await tx
+        .select()
+        .from(paymentRequests)
+        .where(eq(paymentRequests.id, paymentRequestId))
+        .for('update');
+      const issued = await tx
+        .select()
+        .from(creditNotes)
+        .where(eq(creditNotes.paymentRequestId, paymentRequestId));
+      const creditNote = await prepare(request, issued);
+
+      const sequence = await this.allocateInvoiceSequence(tx, creatorId);
+      const [document] = await tx
+        .insert(invoices)
+        .values({ ...(await build(sequence, creditNote)), paymentRequestId, type: 'credit_note' })
+        .returning();
+
+      const [newCreditNote] = await tx
+        .insert(creditNotes)
+        .values({ ...creditNote, paymentRequestId, invoiceId: document.id })
+        .returning();
+      return newCreditNote;
+    });
+  }
+
+  async getCreditNotesByPaymentRequests(paymentRequestIds: number[]): Promise<CreditNoteWithNumber[]> {
+    if (paymentRequestIds.length === 0) {
+      return [];
+    }
+
+    const results = await db
+      .select({ creditNote: creditNotes, invoiceNumber: invoices.invoiceNumber })
+      .from(creditNotes)
+      .innerJoin(invoices, eq(creditNotes.invoiceId, invoices.id))
+      .where(inArray(creditNotes.paymentRequestId, paymentRequestIds))
+      .orderBy(creditNotes.createdAt);
+    return results.map(({ creditNote, invoiceNumber }) => ({ ...creditNote, invoiceNumber }));
+  }
+
   async updateInvoice(id: number, updates: Partial<Invoice>): Promise<Invoice> {
     const [updatedInvoice] = await db
       .update(invoices)
@@ -209,6 +799,179 @@ export class DatabaseStorage implements IStorage {
       .where(eq(invoices.paymentRequestId, paymentRequestId))
       .orderBy(desc(invoices.createdAt));
   }
+
+  async getInvoicesByCreator(creatorId: number): Promise<Invoice[]> {
+    const results = await db
+      .select({ invoice: invoices })
+      .from(invoices)
+      .innerJoin(paymentRequests, eq(invoices.paymentRequestId, paymentRequests.id))
+      .where(eq(paymentRequests.creatorId, creatorId))
+      .orderBy(desc(invoices.createdAt));
+    return results.map(result => result.invoice);
+  }
+
+  // Stripe webhook event operations
+  async getStripeEvent(id: string): Promise<StripeEvent | undefined> {
+    const [event] = await db.select().from(stripeEvents).where(eq(stripeEvents.id, id));
+    return event;
+  }
+
+  async createStripeEvent(event: InsertStripeEvent): Promise<StripeEvent> {
+    const [newEvent] = await db
+      .insert(stripeEvents)
+      .values(event)
+      .onConflictDoNothing({ target: stripeEvents.id })
+      .returning();
+
+    // Stripe may deliver the same event more than once; return the stored copy
+    return newEvent ?? (await this.getStripeEvent(event.id))!;
+  }
+
+  async updateStripeEvent(id: string, updates: Partial<StripeEvent>): Promise<StripeEvent> {
+    const [updatedEvent] = await db
+      .update(stripeEvents)
+      .set(updates)
+      .where(eq(stripeEvents.id, id))
+      .returning();
+    return updatedEvent;
+  }
+
+  async listStripeEvents(limit = 50, offset = 0, status?: string): Promise<StripeEvent[]> {
+    const baseQuery = db
+      .select()
+      .from(stripeEvents)
+      .orderBy(desc(stripeEvents.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    if (status) {
+      return await baseQuery.where(eq(stripeEvents.status, status));
+    }
+
+    return await baseQuery;
+  }
+
+  // Audit log operations
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [newEntry] = await db
+      .insert(auditLogs)
+      .values(entry)
+      .returning();
+    return newEntry;
+  }
+
+  async searchAuditLogs(filters: AuditLogFilters): Promise<AuditLog[]> {
+    const conditions: SQL[] = [];
+
+    if (filters.actor) {
+      const pattern = `%${filters.actor}%`;
+      conditions.push(or(ilike(auditLogs.actorId, pattern), ilike(auditLogs.actorEmail, pattern))!);
+    }
+    if (filters.action) {
+      conditions.push(ilike(auditLogs.action, `%${filters.action}%`));
+    }
+    if (filters.entityType) {
+      conditions.push(eq(auditLogs.entityType, filters.entityType));
+    }
+    if (filters.entityId) {
+      conditions.push(eq(auditLogs.entityId, filters.entityId));
+    }
+    if (filters.from) {
+      conditions.push(gte(auditLogs.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(auditLogs.createdAt, filters.to));
+    }
+
+    return await db
+      .select()
+      .from(auditLogs)
+      .where(and(...conditions))
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+  }
+
+  // Email outbox operations
+  async createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail> {
+    const [newEmail] = await db
+      .insert(emailOutbox)
+      .values(email)
+      .returning();
+    return newEmail;
+  }
+
+  async getDueOutboxEmails(limit = 50): Promise<OutboxEmail[]> {
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, 'pending'), lte(emailOutbox.nextAttemptAt, new Date())))
+      .orderBy(emailOutbox.nextAttemptAt, emailOutbox.id)
+      .limit(limit);
+  }
+
+  // Moves the email from pending to sending, so concurrent workers never pick
+  // up the same email. While sending, nextAttemptAt is the end of the lease.
+  async claimOutboxEmail(id: number, leaseUntil: Date): Promise<OutboxEmail | undefined> {
+    const [claimedEmail] = await db
+      .update(emailOutbox)
+      .set({
+        status: 'sending',
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        nextAttemptAt: leaseUntil,
+      })
+      .where(and(eq(emailOutbox.id, id), eq(emailOutbox.status, 'pending')))
+      .returning();
+    return claimedEmail;
+  }
+
+  async updateOutboxEmail(id: number, updates: Partial<OutboxEmail>): Promise<OutboxEmail> {
+    const [updatedEmail] = await db
+      .update(emailOutbox)
+      .set(updates)
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    return updatedEmail;
+  }
+
+  // Emails whose worker died mid-delivery go back to pending
+  async releaseExpiredOutboxLeases(): Promise<number> {
+    const released = await db
+      .update(emailOutbox)
+      .set({ status: 'pending' })
+      .where(and(eq(emailOutbox.status, 'sending'), lte(emailOutbox.nextAttemptAt, new Date())))
+      .returning({ id: emailOutbox.id });
+    return released.length;
+  }
+
+  // Reminder operations
+  async createReminder(reminder: InsertReminder): Promise<Reminder> {
+    const [newReminder] = await db
+      .insert(reminders)
+      .values(reminder)
+      .returning();
+    return newReminder;
+  }
+
+  async getReminders(filters: ReminderFilters): Promise<Reminder[]> {
+    const conditions: SQL[] = [];
+
+    if (filters.kind) {
+      conditions.push(eq(reminders.kind, filters.kind));
+    }
+    if (filters.creatorId) {
+      conditions.push(eq(reminders.creatorId, filters.creatorId));
+    }
+    if (filters.paymentRequestId) {
+      conditions.push(eq(reminders.paymentRequestId, filters.paymentRequestId));
+    }
+
+    return await db
+      .select()
+      .from(reminders)
+      .where(and(...conditions))
+      .orderBy(reminders.createdAt, reminders.id);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,140 @@
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import type { Creator, StripeEvent } from "@shared/schema";
+
+// Storage is mocked below, so the database is never connected to
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+process.env.STRIPE_SECRET_KEY ??= 'sk_test_fixtures';
+process.env.STRIPE_WEBHOOK_SECRET = 'whsec_fixtures';
+
+const { stripe } = await import("./stripe");
+const { storage } = await import("./storage");
+const { constructStripeEvent, processStripeEvent } = await import("./stripeWebhooks");
+
+const FIXTURES = path.join(import.meta.dirname, 'fixtures', 'stripe');
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf-8');
+}
+
+// Signs the fixture the way Stripe signs deliveries
+function signFixture(payload: string, secret = process.env.STRIPE_WEBHOOK_SECRET!): string {
+  return stripe.webhooks.generateTestHeaderString({ payload, secret });
+}
+
+function receiveFixture(name: string): StripeEvent {
+  const payload = readFixture(name);
+  const event = constructStripeEvent(payload, signFixture(payload));
+  return {
+    id: event.id,
+    type: event.type,
+    account: event.account ?? null,
+    payload: event,
+    status: 'received',
+    error: null,
+    attempts: 0,
+    processedAt: null,
+    createdAt: new Date(),
+  };
+}
+
+const creator = { id: 7, stripeAccountId: 'acct_fixture_creator' };
+const paidRequest = { id: 42, status: 'paid', stripeTransferId: 'tr_fixture_payout' };
+
+function mockStorage() {
+  mock.method(storage, 'getCreatorByStripeAccount', async (accountId: string) =>
+    accountId === creator.stripeAccountId ? creator : undefined);
+  mock.method(storage, 'getPaymentRequest', async (id: number) => id === paidRequest.id ? paidRequest : undefined);
+  mock.method(storage, 'updateStripeEvent', async (id: string, updates: Partial<StripeEvent>) => ({ id, ...updates }));
+  return {
+    updateCreator: mock.method(storage, 'updateCreator', async (id: number, updates: Partial<Creator>) => ({ id, ...updates })),
+    updatePaymentRequest: mock.method(storage, 'updatePaymentRequest', async (id: number, updates: object) => ({ id, ...updates })),
+    updatePaymentRequestStatus: mock.method(storage, 'updatePaymentRequestStatus',
+      async (id: number, _from: string, status: string, updates: object) => ({ ...paidRequest, ...updates, id, status })),
+  };
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('constructStripeEvent', () => {
+  for (const name of fs.readdirSync(FIXTURES).map(file => path.basename(file, '.json'))) {
+    test(`accepts the signed ${name} fixture`, () => {
+      const payload = readFixture(name);
+      const event = constructStripeEvent(payload, signFixture(payload));
+      assert.equal(event.id, JSON.parse(payload).id);
+    });
+  }
+
+  test('rejects a payload changed after signing', () => {
+    const payload = readFixture('account.updated');
+    const signature = signFixture(payload);
+    const tampered = payload.replace('"payouts_enabled": false', '"payouts_enabled": true');
+    assert.throws(() => constructStripeEvent(tampered, signature), /signature/i);
+  });
+
+  test('rejects a payload signed with another secret', () => {
+    const payload = readFixture('account.updated');
+    assert.throws(() => constructStripeEvent(payload, signFixture(payload, 'whsec_other')), /signature/i);
+  });
+});
+
+describe('processStripeEvent', () => {
+  test('account.updated refreshes the creator flags', async () => {
+    const { updateCreator } = mockStorage();
+    const processed = await processStripeEvent(receiveFixture('account.updated'));
+
+    assert.equal(processed.status, 'processed');
+    assert.deepEqual(updateCreator.mock.calls[0].arguments, [7, { chargesEnabled: true, payoutsEnabled: false }]);
+  });
+
+  test('transfer.reversed fails the paid payment request', async () => {
+    const { updatePaymentRequestStatus } = mockStorage();
+    await processStripeEvent(receiveFixture('transfer.reversed'));
+
+    const [id, from, to, updates] = updatePaymentRequestStatus.mock.calls[0].arguments;
+    assert.deepEqual([id, from, to], [42, 'paid', 'failed']);
+    assert.deepEqual(updates, { failureReason: 'Transfer tr_fixture_payout was reversed' });
+  });
+
+  test('transfer.reversed for a credit note leaves the payment request alone', async () => {
+    const { updatePaymentRequest, updatePaymentRequestStatus } = mockStorage();
+    const processed = await processStripeEvent(receiveFixture('transfer.reversed.credit-note'));
+
+    assert.equal(processed.status, 'processed');
+    assert.equal(updatePaymentRequest.mock.callCount(), 0);
+    assert.equal(updatePaymentRequestStatus.mock.callCount(), 0);
+  });
+
+  test('transfer.created keeps a paid payment request as it is', async () => {
+    const { updatePaymentRequest, updatePaymentRequestStatus } = mockStorage();
+    await processStripeEvent(receiveFixture('transfer.created'));
+
+    assert.equal(updatePaymentRequest.mock.callCount(), 0);
+    assert.equal(updatePaymentRequestStatus.mock.callCount(), 0);
+  });
+
+  test('payout.failed records the failure on the creator', async () => {
+    const { updateCreator } = mockStorage();
+    await processStripeEvent(receiveFixture('payout.failed'));
+
+    const [id, updates] = updateCreator.mock.calls[0].arguments;
+    assert.equal(id, 7);
+    assert.equal(updates.lastPayoutFailure, 'The bank account has been closed.');
+  });
+
+  test('unhandled event types are stored as ignored', async () => {
+    mockStorage();
+    const storedEvent = receiveFixture('account.updated');
+    const processed = await processStripeEvent({
+      ...storedEvent,
+      type: 'customer.created',
+      payload: { ...(storedEvent.payload as object), type: 'customer.created' },
+    });
+
+    assert.equal(processed.status, 'ignored');
+  });
+});
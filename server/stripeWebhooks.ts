@@ -0,0 +1,171 @@
+import type Stripe from "stripe";
+import { stripe } from "./stripe";
+import { storage } from "./storage";
+import { transitionPaymentRequest, type StatusActor } from "./paymentStatus";
+import { completePayout } from "./payouts";
+import type { StripeEvent } from "@shared/schema";
+
+// Events we act on; anything else is stored and marked as ignored
+const HANDLED_EVENT_TYPES = new Set([
+  "account.updated",
+  "transfer.created",
+  "transfer.reversed",
+  "payout.failed",
+]);
+
+// Verify the Stripe-Signature header against the raw request body.
+// The fixture payloads in fixtures/stripe are signed locally with
+// stripe.webhooks.generateTestHeaderString using the same STRIPE_WEBHOOK_SECRET.
+export function constructStripeEvent(rawBody: Buffer | string, signature: string): Stripe.Event {
+  if (!process.env.STRIPE_WEBHOOK_SECRET) {
+    throw new Error('Missing required Stripe secret: STRIPE_WEBHOOK_SECRET');
+  }
+
+  return stripe.webhooks.constructEvent(rawBody, signature, process.env.STRIPE_WEBHOOK_SECRET);
+}
+
+// Persist an incoming event (deduplicated on the Stripe event ID)
+export async function recordStripeEvent(event: Stripe.Event): Promise<StripeEvent> {
+  return await storage.createStripeEvent({
+    id: event.id,
+    type: event.type,
+    account: event.account ?? null,
+    payload: event,
+  });
+}
+
+// Apply a stored event to creators and payment requests. Used both for
+// live deliveries and for replaying previously stored events.
+export async function processStripeEvent(storedEvent: StripeEvent): Promise<StripeEvent> {
+  const event = storedEvent.payload as Stripe.Event;
+  const attempts = storedEvent.attempts + 1;
+
+  if (!HANDLED_EVENT_TYPES.has(event.type)) {
+    return await storage.updateStripeEvent(storedEvent.id, {
+      status: 'ignored',
+      attempts,
+      processedAt: new Date(),
+    });
+  }
+
+  try {
+    await applyStripeEvent(event);
+
+    return await storage.updateStripeEvent(storedEvent.id, {
+      status: 'processed',
+      error: null,
+      attempts,
+      processedAt: new Date(),
+    });
+  } catch (error: any) {
+    await storage.updateStripeEvent(storedEvent.id, {
+      status: 'failed',
+      error: error.message || 'Unknown error',
+      attempts,
+    });
+    throw error;
+  }
+}
+
+async function applyStripeEvent(event: Stripe.Event) {
+  const actor: StatusActor = { type: 'stripe', id: event.id };
+
+  switch (event.type) {
+    case 'account.updated':
+      return await handleAccountUpdated(event.data.object);
+    case 'transfer.created':
+      return await handleTransferCreated(event.data.object, actor);
+    case 'transfer.reversed':
+      return await handleTransferReversed(event.data.object, actor);
+    case 'payout.failed':
+      return await handlePayoutFailed(event.data.object, event.account);
+  }
+}
+
+async function handleAccountUpdated(account: Stripe.Account) {
+  const creator = await storage.getCreatorByStripeAccount(account.id);
+  if (!creator) {
+    throw new Error(`No creator found for Stripe account ${account.id}`);
+  }
+
+  await storage.updateCreator(creator.id, {
+    chargesEnabled: account.charges_enabled,
+    payoutsEnabled: account.payouts_enabled,
+  });
+}
+
+// Transfers carry the payment request ID in their metadata (see the process route)
+async function getPaymentRequestForTransfer(transfer: Stripe.Transfer) {
+  const paymentRequestId = parseInt(transfer.metadata?.paymentRequestId);
+  if (!paymentRequestId) {
+    return undefined;
+  }
+
+  return await storage.getPaymentRequest(paymentRequestId);
+}
+
+async function handleTransferCreated(transfer: Stripe.Transfer, actor: StatusActor) {
+  const request = await getPaymentRequestForTransfer(transfer);
+  if (!request) {
+    return;
+  }
+
+  // The process route normally marks the request as paid already; this
+  // catches transfers whose database update never happened
+  if (request.status === 'processing') {
+    await completePayout(request, transfer, actor, new Date(transfer.created * 1000), `Transfer ${transfer.id}`);
+  } else if (request.status === 'paid' && !request.stripeTransferId) {
+    await storage.updatePaymentRequest(request.id, { stripeTransferId: transfer.id });
+  }
+}
+
+async function handleTransferReversed(transfer: Stripe.Transfer, actor: StatusActor) {
+  const request = await getPaymentRequestForTransfer(transfer);
+  if (!request) {
+    return;
+  }
+
+  // Reversals made for credit notes are corrections of a payout that did happen
+  const creditNoteReversals = transfer.reversals.data
+    .filter(reversal => reversal.metadata?.creditNote === 'true')
+    .reduce((sum, reversal) => sum + reversal.amount, 0);
+  if (transfer.amount_reversed <= creditNoteReversals) {
+    return;
+  }
+
+  if (transfer.reversed) {
+    const failureReason = `Transfer ${transfer.id} was reversed`;
+    const installmentId = parseInt(transfer.metadata?.installmentId);
+    if (installmentId) {
+      await storage.updatePaymentInstallment(installmentId, { status: 'failed', failureReason });
+    }
+
+    if (request.status === 'paid' || request.status === 'partially_paid') {
+      await transitionPaymentRequest(request, 'failed', actor, { failureReason }, failureReason);
+    } else {
+      await storage.updatePaymentRequest(request.id, { failureReason });
+    }
+  } else {
+    await storage.updatePaymentRequest(request.id, {
+      failureReason: `Transfer ${transfer.id} was partially reversed (${transfer.amount_reversed} of ${transfer.amount})`,
+    });
+  }
+}
+
+// Payouts happen on the creator's connected account, so they cannot be tied
+// to a single payment request; the failure is recorded on the creator instead
+async function handlePayoutFailed(payout: Stripe.Payout, account?: string) {
+  if (!account) {
+    return;
+  }
+
+  const creator = await storage.getCreatorByStripeAccount(account);
+  if (!creator) {
+    throw new Error(`No creator found for Stripe account ${account}`);
+  }
+
+  await storage.updateCreator(creator.id, {
+    lastPayoutFailure: payout.failure_message || payout.failure_code || 'Payout failed',
+    lastPayoutFailureAt: new Date(),
+  });
+}
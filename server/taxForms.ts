@@ -0,0 +1,96 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { getRequiredTaxFormType, type TaxFormData, type TaxFormSummary, type TaxFormType } from "@shared/tax-forms";
+import type { Creator, TaxForm } from "@shared/schema";
+
+const CIPHER = 'aes-256-gcm';
+
+// 32-byte key, base64 encoded, e.g. from `openssl rand -base64 32`
+function getEncryptionKey(): Buffer {
+  const encoded = process.env.TAX_FORM_ENCRYPTION_KEY;
+  if (!encoded) {
+    throw new Error('TAX_FORM_ENCRYPTION_KEY must be set to store tax forms');
+  }
+
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== 32) {
+    throw new Error('TAX_FORM_ENCRYPTION_KEY must be 32 bytes, base64 encoded');
+  }
+  return key;
+}
+
+// Stored as "iv.authTag.ciphertext", each part base64 encoded
+export function encryptTaxFormData(data: TaxFormData): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+export function decryptTaxFormData(payload: string): TaxFormData {
+  const [iv, authTag, ciphertext] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv(CIPHER, getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return JSON.parse(plaintext.toString('utf8'));
+}
+
+export function toTaxFormSummary(form: TaxForm): TaxFormSummary {
+  return {
+    id: form.id,
+    formType: form.formType as TaxFormType,
+    legalName: form.legalName,
+    tinLast4: form.tinLast4,
+    treatyRate: form.treatyRate,
+    signatureName: form.signatureName,
+    signedAt: form.signedAt,
+  };
+}
+
+export async function saveTaxForm(creator: Creator, data: TaxFormData): Promise<TaxForm> {
+  const tin = (data.tin || '').replace(/\W/g, '');
+
+  return await storage.createTaxForm({
+    creatorId: creator.id,
+    formType: data.formType,
+    legalName: data.legalName,
+    tinLast4: tin ? tin.slice(-4) : null,
+    treatyRate: data.formType !== 'W-9' && data.treatyRate ? (Number(data.treatyRate) / 100).toString() : null,
+    encryptedData: encryptTaxFormData(data),
+    signatureName: data.signatureName,
+  });
+}
+
+function getRatePercent(name: string, fallback: number): number {
+  const percent = parseFloat(process.env[name] || '');
+  return (isNaN(percent) || percent < 0 || percent > 100 ? fallback : percent) / 100;
+}
+
+export interface Withholding {
+  rate: number;
+  taxFormId: number | null;
+}
+
+// Withholding rates, as percentages of the amount before VAT:
+//   TAX_BACKUP_WITHHOLDING_RATE  required form missing (default 24)
+//   TAX_WITHHOLDING_RATE         W-8 forms without a treaty claim (default 30)
+// W-9 forms and creators who need no form are not withheld.
+export async function getWithholding(creator: Creator): Promise<Withholding> {
+  const requiredFormType = getRequiredTaxFormType(creator.country, creator.businessType);
+  if (!requiredFormType) {
+    return { rate: 0, taxFormId: null };
+  }
+
+  const form = await storage.getCurrentTaxForm(creator.id);
+  if (!form || form.formType !== requiredFormType) {
+    return { rate: getRatePercent('TAX_BACKUP_WITHHOLDING_RATE', 24), taxFormId: null };
+  }
+
+  if (form.formType === 'W-9') {
+    return { rate: 0, taxFormId: form.id };
+  }
+  return {
+    rate: form.treatyRate !== null ? parseFloat(form.treatyRate) : getRatePercent('TAX_WITHHOLDING_RATE', 30),
+    taxFormId: form.id,
+  };
+}
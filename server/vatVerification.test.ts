@@ -0,0 +1,115 @@
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Creator, VatCheck } from "@shared/schema";
+
+// The VIES client is chosen from the environment when the module loads.
+// Storage is mocked below, so the database is never connected to.
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+process.env.VIES_CLIENT = 'fake';
+process.env.VIES_FAKE_INVALID = 'DE136695976';
+process.env.VIES_FAKE_UNAVAILABLE = 'BE0417497106';
+
+const { storage } = await import("./storage");
+const {
+  checkCreatorVatId,
+  getReverseChargeEvidence,
+  isClearFailure,
+  verifyVatId,
+  VatIdRejectedError,
+} = await import("./vatVerification");
+
+const dutchCreator = {
+  id: 7,
+  country: 'NL',
+  businessType: 'vat_registered',
+  vatId: 'NL004495445B01',
+  vatIdStatus: 'valid',
+} as Creator;
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('verifyVatId', () => {
+  test('keeps the VIES consultation as evidence for a registered number', async () => {
+    const verification = await verifyVatId('nl 0044.95.445 b01', 'NL');
+
+    assert.equal(verification.status, 'valid');
+    assert.equal(verification.vatId, 'NL004495445B01');
+    assert.equal(verification.source, 'fake');
+    assert.equal(verification.traderName, 'Fake Trader NL004495445B01');
+    assert.match(verification.consultationNumber!, /^FAKE-/);
+    assert.ok(verification.checkedAt instanceof Date);
+    assert.equal(isClearFailure(verification), false);
+  });
+
+  test('rejects a number VIES does not know', async () => {
+    const verification = await verifyVatId('DE136695976', 'DE');
+
+    assert.equal(verification.status, 'invalid');
+    assert.equal(isClearFailure(verification), true);
+  });
+
+  test('rejects a malformed number without asking VIES', async () => {
+    const verification = await verifyVatId('DE136695977', 'DE');
+
+    assert.equal(verification.status, 'malformed');
+    assert.equal(verification.source, 'format');
+    assert.equal(isClearFailure(verification), true);
+  });
+
+  test('does not reject a number while VIES is unavailable', async () => {
+    const verification = await verifyVatId('BE0417497106', 'BE');
+
+    assert.equal(verification.status, 'unavailable');
+    assert.match(verification.message!, /MS_UNAVAILABLE/);
+    assert.equal(isClearFailure(verification), false);
+  });
+});
+
+describe('checkCreatorVatId', () => {
+  test('checks a VAT registered creator whose VAT ID changes', async () => {
+    const verification = await checkCreatorVatId(dutchCreator, { vatId: 'DE136695976', country: 'DE' });
+    assert.equal(verification?.status, 'invalid');
+  });
+
+  test('requires a VAT ID for VAT registered creators', async () => {
+    const verification = await checkCreatorVatId({ country: 'NL', businessType: 'individual' }, { businessType: 'vat_registered' });
+    assert.equal(verification?.status, 'malformed');
+  });
+
+  test('skips creators outside the reverse charge', async () => {
+    assert.equal(await checkCreatorVatId({ country: 'US', businessType: 'vat_registered' }, { vatId: '123' }), undefined);
+    assert.equal(await checkCreatorVatId(dutchCreator, { vatId: 'NL004495445B01' }), undefined);
+  });
+});
+
+describe('getReverseChargeEvidence', () => {
+  test('checks and stores the VAT ID of a creator never checked before', async () => {
+    const checks: VatCheck[] = [];
+    mock.method(storage, 'getLatestVatCheck', async () => checks[checks.length - 1]);
+    const createVatCheck = mock.method(storage, 'createVatCheck', async (check: VatCheck) => {
+      checks.push({ ...check, id: checks.length + 1 });
+      return checks[checks.length - 1];
+    });
+    mock.method(storage, 'updateCreator', async (id: number, updates: Partial<Creator>) => ({ ...dutchCreator, ...updates, id }));
+
+    const evidence = await getReverseChargeEvidence({ ...dutchCreator, vatIdStatus: null });
+
+    assert.equal(createVatCheck.mock.callCount(), 1);
+    assert.equal(evidence.status, 'valid');
+    assert.equal(evidence.creatorId, 7);
+  });
+
+  test('refuses the reverse charge when the stored check failed', async () => {
+    mock.method(storage, 'getLatestVatCheck', async () => ({
+      id: 1,
+      creatorId: 7,
+      vatId: 'DE136695976',
+      status: 'invalid',
+      message: 'VAT ID is not registered according to VIES',
+    }));
+
+    await assert.rejects(getReverseChargeEvidence(dutchCreator), VatIdRejectedError);
+  });
+});
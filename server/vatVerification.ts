@@ -0,0 +1,101 @@
+import { storage } from "./storage";
+import { createViesClient, ViesUnavailableError } from "./viesClients";
+import { requiresVatIdCheck, validateVatId } from "@shared/vat-utils";
+import type { Creator, InsertVatCheck, VatCheck } from "@shared/schema";
+
+export type VatCheckStatus = 'valid' | 'invalid' | 'malformed' | 'unavailable';
+
+export type VatIdVerification = Omit<InsertVatCheck, 'creatorId'> & { status: VatCheckStatus };
+
+// Raised when a VAT ID clearly fails the check, i.e. it is malformed or VIES
+// says it isn't registered. An unreachable VIES never blocks anyone.
+export class VatIdRejectedError extends Error {
+  status = 400;
+
+  constructor(message: string | null | undefined) {
+    super(message || 'VAT ID could not be verified');
+    this.name = 'VatIdRejectedError';
+  }
+}
+
+const viesClient = createViesClient();
+
+export async function verifyVatId(vatId: string, countryCode: string): Promise<VatIdVerification> {
+  const format = validateVatId(vatId, countryCode);
+  if (!format.valid) {
+    return { vatId, status: 'malformed', source: 'format', message: format.reason };
+  }
+
+  try {
+    const result = await viesClient.check(format.prefix, format.number);
+    return {
+      vatId: format.vatId,
+      status: result.valid ? 'valid' : 'invalid',
+      source: viesClient.name,
+      traderName: result.name,
+      traderAddress: result.address,
+      consultationNumber: result.consultationNumber,
+      message: result.valid ? null : 'VAT ID is not registered according to VIES',
+      checkedAt: result.checkedAt,
+    };
+  } catch (error: any) {
+    if (!(error instanceof ViesUnavailableError)) {
+      console.error('Error checking VAT ID with VIES:', error);
+    }
+    return { vatId: format.vatId, status: 'unavailable', source: viesClient.name, message: error.message };
+  }
+}
+
+export function isClearFailure(check: { status: string }): boolean {
+  return check.status === 'malformed' || check.status === 'invalid';
+}
+
+// Checks the VAT ID a creator would end up with after `updates`, when the
+// reverse charge depends on it and one of the relevant details changed.
+// Returns undefined when no check is needed.
+export async function checkCreatorVatId(
+  creator: Partial<Creator>,
+  updates: Partial<Creator>,
+): Promise<VatIdVerification | undefined> {
+  const merged = { ...creator, ...updates };
+  if (!merged.country || !merged.businessType || !requiresVatIdCheck(merged.country, merged.businessType)) {
+    return;
+  }
+
+  const changed = (['vatId', 'country', 'businessType'] as const).some(
+    field => field in updates && updates[field] !== creator[field],
+  );
+  if (!changed && creator.vatIdStatus) {
+    return;
+  }
+
+  if (!merged.vatId) {
+    return { vatId: '', status: 'malformed', source: 'format', message: 'VAT ID is required for VAT registered businesses' };
+  }
+  return await verifyVatId(merged.vatId, merged.country);
+}
+
+// Stores the check as evidence and mirrors its outcome on the creator
+export async function recordVatCheck(creator: Creator, verification: VatIdVerification): Promise<Creator> {
+  const check = await storage.createVatCheck({ ...verification, creatorId: creator.id });
+  return await storage.updateCreator(creator.id, {
+    vatIdStatus: check.status,
+    vatIdCheckedAt: check.checkedAt,
+  });
+}
+
+// The check backing a reverse-charged payment. Creators onboarded before VAT
+// IDs were checked are checked on their first such payment.
+export async function getReverseChargeEvidence(creator: Creator): Promise<VatCheck> {
+  let check = await storage.getLatestVatCheck(creator.id);
+  if (!check) {
+    const verification = await verifyVatId(creator.vatId || '', creator.country);
+    await recordVatCheck(creator, verification);
+    check = (await storage.getLatestVatCheck(creator.id))!;
+  }
+
+  if (isClearFailure(check)) {
+    throw new VatIdRejectedError(`Creator's VAT ID failed verification: ${check.message}`);
+  }
+  return check;
+}
@@ -0,0 +1,122 @@
+import { nanoid } from "nanoid";
+
+// Result of a VIES consultation. VIES only answers for syntactically valid
+// numbers, so callers check the format first.
+export interface ViesResult {
+  valid: boolean;
+  name: string | null; // Registered trader name, when the member state discloses it
+  address: string | null;
+  consultationNumber: string | null; // Only issued when a requester VAT ID is sent
+  checkedAt: Date;
+}
+
+// Thrown when VIES or the member state's register can't answer; the VAT ID
+// is then neither confirmed nor rejected
+export class ViesUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ViesUnavailableError';
+  }
+}
+
+export interface ViesClient {
+  readonly name: string;
+  // `prefix` is the VAT prefix (EL for Greece), `number` the part after it
+  check(prefix: string, number: string): Promise<ViesResult>;
+}
+
+// Trader names and addresses VIES returns when the member state withholds them
+function disclosed(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' && value.trim() !== '---' ? value.trim() : null;
+}
+
+// The European Commission's VIES REST service. With a requester VAT ID every
+// answer carries a consultation number, which serves as proof of the check.
+export class HttpViesClient implements ViesClient {
+  readonly name = 'vies';
+
+  constructor(
+    private requesterVatId?: string,
+    private endpoint = 'https://ec.europa.eu/taxation_customs/vies/rest-api/check-vat-number',
+  ) {}
+
+  async check(prefix: string, number: string): Promise<ViesResult> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify({
+          countryCode: prefix,
+          vatNumber: number,
+          ...(this.requesterVatId && {
+            requesterMemberStateCode: this.requesterVatId.slice(0, 2),
+            requesterNumber: this.requesterVatId.slice(2),
+          }),
+        }),
+        signal: AbortSignal.timeout(15000),
+      });
+    } catch (error: any) {
+      throw new ViesUnavailableError(`VIES request failed: ${error.message}`);
+    }
+
+    const body = await response.json().catch(() => null);
+    const error = body?.errorWrappers?.[0]?.error;
+    if (!response.ok || error || typeof body?.valid !== 'boolean') {
+      throw new ViesUnavailableError(`VIES could not check the VAT ID: ${error || `status ${response.status}`}`);
+    }
+
+    return {
+      valid: body.valid,
+      name: disclosed(body.name),
+      address: disclosed(body.address),
+      consultationNumber: disclosed(body.requestIdentifier),
+      checkedAt: body.requestDate ? new Date(body.requestDate) : new Date(),
+    };
+  }
+}
+
+// Offline stand-in for development and tests. Every number is registered
+// unless listed as invalid; unavailable numbers simulate a VIES outage.
+export class FakeViesClient implements ViesClient {
+  readonly name = 'fake';
+
+  constructor(
+    private invalid: ReadonlySet<string> = new Set(),
+    private unavailable: ReadonlySet<string> = new Set(),
+  ) {}
+
+  async check(prefix: string, number: string): Promise<ViesResult> {
+    const vatId = `${prefix}${number}`;
+    if (this.unavailable.has(vatId)) {
+      throw new ViesUnavailableError(`VIES could not check the VAT ID: MS_UNAVAILABLE`);
+    }
+
+    const valid = !this.invalid.has(vatId);
+    return {
+      valid,
+      name: valid ? `Fake Trader ${vatId}` : null,
+      address: null,
+      consultationNumber: `FAKE-${nanoid(10)}`,
+      checkedAt: new Date(),
+    };
+  }
+}
+
+function parseVatIdList(value: string | undefined): Set<string> {
+  return new Set((value || '').split(',').map(vatId => vatId.trim().toUpperCase()).filter(Boolean));
+}
+
+export function createViesClient(): ViesClient {
+  switch (process.env.VIES_CLIENT || 'vies') {
+    case 'vies':
+      return new HttpViesClient(process.env.VIES_REQUESTER_VAT_ID);
+    case 'fake':
+      return new FakeViesClient(
+        parseVatIdList(process.env.VIES_FAKE_INVALID),
+        parseVatIdList(process.env.VIES_FAKE_UNAVAILABLE),
+      );
+    default:
+      throw new Error(`Unknown VIES client: ${process.env.VIES_CLIENT}`);
+  }
+}
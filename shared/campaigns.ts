@@ -0,0 +1,40 @@
+import type { Campaign, Creator, PaymentRequest } from "./schema";
+
+// Campaigns group the payment requests made for one brand deal, so spend can
+// be compared with the campaign's budget. Budgets are excluding VAT, the same
+// basis payment request amounts are entered on.
+
+export type BudgetWarning = 'near' | 'over';
+
+// Share of the budget from which admins are warned before committing more
+export const BUDGET_WARNING_THRESHOLD = 0.9;
+
+// Requests in these statuses are never paid and don't count against the budget
+export const UNCOMMITTED_STATUSES = ['cancelled', 'rejected', 'expired'];
+
+// A campaign's payment request with what it counts against the budget
+export type CampaignPayment = PaymentRequest & {
+  creator: Creator;
+  committedAmount: number; // Excluding VAT, less credit notes; 0 once cancelled, rejected or expired
+  paidAmount: number; // Part of the committed amount already paid out
+};
+
+export type CampaignSummary = Campaign & {
+  committedAmount: number;
+  paidAmount: number;
+  remainingAmount: number; // Negative once the budget is overrun
+  paymentCount: number;
+  budgetWarning: BudgetWarning | null;
+};
+
+// Warning for committing `amount` more on top of what is already committed
+export function getBudgetWarning(budget: number, committed: number, amount = 0): BudgetWarning | null {
+  const total = committed + amount;
+  if (total > budget) {
+    return 'over';
+  }
+  if (total >= budget * BUDGET_WARNING_THRESHOLD) {
+    return 'near';
+  }
+  return null;
+}
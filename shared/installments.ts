@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { roundToCurrency } from "./vat-utils";
+
+// A payment request can be paid out in installments, e.g. 50% upfront and
+// 50% on delivery. Each installment is transferred on its own; the request is
+// paid once the last one is.
+
+export type InstallmentStatus = 'scheduled' | 'processing' | 'paid' | 'failed';
+
+export const MAX_INSTALLMENTS = 12;
+
+// Installments as entered; amounts exclude VAT and must add up to the request amount
+export const installmentsSchema = z.array(z.object({
+  amount: z.coerce.number().positive("Installment amounts must be positive"),
+  dueDate: z.string().nullish(),
+})).min(2, "Split a payment into at least two installments").max(MAX_INSTALLMENTS);
+
+export type InstallmentInput = z.infer<typeof installmentsSchema>[number];
+
+export interface InstallmentSplit {
+  number: number; // 1-based position in the schedule
+  amount: number;
+  vatAmount: number;
+  totalAmount: number;
+  withholdingAmount: number;
+  dueDate: string | null;
+}
+
+// Splits the request's VAT and withholding over the installments in
+// proportion to their amounts. The last installment takes the rounding
+// remainder, so the installments always add up to the request exactly.
+export function splitInstallments(
+  request: { amount: number; vatAmount: number; withholdingAmount: number; currency: string },
+  installments: InstallmentInput[],
+): InstallmentSplit[] {
+  const round = (value: number) => roundToCurrency(value, request.currency);
+  let vatLeft = request.vatAmount;
+  let withholdingLeft = request.withholdingAmount;
+
+  return installments.map((installment, index) => {
+    const amount = round(installment.amount);
+    const isLast = index === installments.length - 1;
+    const share = request.amount > 0 ? amount / request.amount : 0;
+    const vatAmount = isLast ? round(vatLeft) : round(request.vatAmount * share);
+    const withholdingAmount = isLast ? round(withholdingLeft) : round(request.withholdingAmount * share);
+    vatLeft -= vatAmount;
+    withholdingLeft -= withholdingAmount;
+
+    return {
+      number: index + 1,
+      amount,
+      vatAmount,
+      totalAmount: round(amount + vatAmount),
+      withholdingAmount,
+      dueDate: installment.dueDate || null,
+    };
+  });
+}
+
+// Why the installments don't fit the request amount, or null if they do
+export function getInstallmentsError(amount: number, installments: InstallmentInput[], currency: string): string | null {
+  const sum = roundToCurrency(installments.reduce((total, installment) => total + installment.amount, 0), currency);
+  if (sum !== roundToCurrency(amount, currency)) {
+    return `Installments add up to ${sum}, not the payment amount of ${roundToCurrency(amount, currency)}`;
+  }
+  return null;
+}
+
+// Paid and remaining totals (including VAT) of a request's installments
+export function getInstallmentTotals(installments: { totalAmount: string; status: string }[]) {
+  return installments.reduce((totals, installment) => {
+    const totalAmount = parseFloat(installment.totalAmount);
+    return installment.status === 'paid'
+      ? { ...totals, paidAmount: totals.paidAmount + totalAmount }
+      : { ...totals, remainingAmount: totals.remainingAmount + totalAmount };
+  }, { paidAmount: 0, remainingAmount: 0 });
+}
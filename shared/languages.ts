@@ -0,0 +1,26 @@
+// Languages creators can receive emails in
+export const SUPPORTED_LANGUAGES = [
+  { value: 'en', label: 'English' },
+  { value: 'nl', label: 'Nederlands' },
+  { value: 'de', label: 'Deutsch' },
+] as const;
+
+export type Language = typeof SUPPORTED_LANGUAGES[number]['value'];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+const COUNTRY_LANGUAGES: Record<string, Language> = {
+  NL: 'nl',
+  BE: 'nl',
+  DE: 'de',
+  AT: 'de',
+};
+
+export function isLanguage(value: unknown): value is Language {
+  return SUPPORTED_LANGUAGES.some(language => language.value === value);
+}
+
+// Best guess for new creators; they can change it in the portal
+export function getDefaultLanguage(country: string): Language {
+  return COUNTRY_LANGUAGES[country.toUpperCase()] ?? DEFAULT_LANGUAGE;
+}
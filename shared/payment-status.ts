@@ -0,0 +1,41 @@
+export type PaymentStatus =
+  | 'pending'
+  | 'claimed'
+  | 'approved'
+  | 'processing'
+  | 'partially_paid'
+  | 'paid'
+  | 'failed'
+  | 'cancelled'
+  | 'rejected'
+  | 'expired';
+
+// Allowed status changes for a payment request. Everything not listed here
+// is rejected by the server.
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['claimed', 'cancelled', 'expired'],
+  claimed: ['approved', 'rejected', 'cancelled'],
+  approved: ['processing', 'cancelled'],
+  processing: ['paid', 'partially_paid', 'failed'],
+  partially_paid: ['processing', 'failed'], // Next installment, or an installment transfer reversed
+  paid: ['failed'], // Transfer reversed after the fact
+  failed: ['processing', 'cancelled'], // Retry or give up
+  cancelled: [],
+  rejected: [],
+  expired: [],
+};
+
+export const PAYMENT_STATUSES = Object.keys(PAYMENT_STATUS_TRANSITIONS) as PaymentStatus[];
+
+export function isPaymentStatus(status: string): status is PaymentStatus {
+  return Object.hasOwn(PAYMENT_STATUS_TRANSITIONS, status);
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return isPaymentStatus(from) && isPaymentStatus(to) && PAYMENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Cancelled, rejected and expired requests never change again
+export function isFinalStatus(status: string): boolean {
+  return isPaymentStatus(status) && PAYMENT_STATUS_TRANSITIONS[status].length === 0;
+}
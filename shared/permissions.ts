@@ -0,0 +1,72 @@
+export type UserRole = 'owner' | 'finance' | 'operator' | 'accountant';
+
+export type Permission =
+  | 'payments:read'
+  | 'payments:create'
+  | 'payments:approve'
+  | 'payments:cancel'
+  | 'payments:process'
+  | 'payments:export'
+  | 'creators:manage'
+  | 'tax_forms:read' // Decrypted tax form contents (TINs, dates of birth)
+  | 'invoices:manage'
+  | 'audit:read'
+  | 'stripe:manage'
+  | 'users:manage';
+
+export const USER_ROLES: { value: UserRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Full access, including user management' },
+  { value: 'finance', label: 'Finance approver', description: 'Approves and pays out payment requests' },
+  { value: 'operator', label: 'Operator', description: 'Manages creators, payment requests and invoices' },
+  { value: 'accountant', label: 'Accountant', description: 'Read-only access, exports and audit log' },
+];
+
+// New users get the least privileged role until an owner promotes them
+export const DEFAULT_USER_ROLE: UserRole = 'accountant';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: [
+    'payments:read',
+    'payments:create',
+    'payments:approve',
+    'payments:cancel',
+    'payments:process',
+    'payments:export',
+    'creators:manage',
+    'tax_forms:read',
+    'invoices:manage',
+    'audit:read',
+    'stripe:manage',
+    'users:manage',
+  ],
+  finance: [
+    'payments:read',
+    'payments:approve',
+    'payments:cancel',
+    'payments:process',
+    'payments:export',
+    'tax_forms:read',
+    'audit:read',
+    'stripe:manage',
+  ],
+  operator: [
+    'payments:read',
+    'payments:create',
+    'payments:cancel',
+    'creators:manage',
+    'invoices:manage',
+  ],
+  accountant: [
+    'payments:read',
+    'payments:export',
+    'audit:read',
+  ],
+};
+
+export function isUserRole(role: string): role is UserRole {
+  return Object.hasOwn(ROLE_PERMISSIONS, role);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && isUserRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,96 @@
+// Recurring payments generate one payment request per period, e.g. a monthly
+// retainer. Periods are counted from the series' start date, so a series
+// starting on the 31st stays on the last day of shorter months instead of
+// drifting.
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export type RecurringPaymentStatus = 'active' | 'paused' | 'ended';
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+// Placeholders filled in per period when a request is generated
+export const DESCRIPTION_PLACEHOLDERS: { value: string; example: string }[] = [
+  { value: '{period}', example: 'October 2026, Q4 2026, week of 5 Oct 2026' },
+  { value: '{month}', example: 'October' },
+  { value: '{quarter}', example: 'Q4' },
+  { value: '{year}', example: '2026' },
+  { value: '{start}', example: '1 Oct 2026' },
+  { value: '{end}', example: '31 Oct 2026' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), daysInMonth));
+  return result;
+}
+
+// Start of the period with the given 0-based index
+export function getPeriodStart(startDate: Date, frequency: RecurringFrequency, period: number): Date {
+  switch (frequency) {
+    case 'weekly':
+      return new Date(startDate.getTime() + period * 7 * DAY_MS);
+    case 'monthly':
+      return addMonths(startDate, period);
+    case 'quarterly':
+      return addMonths(startDate, period * 3);
+    case 'yearly':
+      return addMonths(startDate, period * 12);
+  }
+}
+
+// Last day of the period with the given 0-based index
+export function getPeriodEnd(startDate: Date, frequency: RecurringFrequency, period: number): Date {
+  return new Date(getPeriodStart(startDate, frequency, period + 1).getTime() - DAY_MS);
+}
+
+// Index of the first period starting at or after the given date
+export function getFirstPeriodFrom(startDate: Date, frequency: RecurringFrequency, from: Date): number {
+  let period = 0;
+  while (getPeriodStart(startDate, frequency, period).getTime() < from.getTime()) {
+    period++;
+  }
+  return period;
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+export function formatRecurringDescription(
+  template: string,
+  startDate: Date,
+  frequency: RecurringFrequency,
+  period: number,
+): string {
+  const start = getPeriodStart(startDate, frequency, period);
+  const year = start.getUTCFullYear().toString();
+  const month = start.toLocaleDateString('en-GB', { month: 'long', timeZone: 'UTC' });
+  const quarter = `Q${Math.floor(start.getUTCMonth() / 3) + 1}`;
+  const label = {
+    weekly: `week of ${formatDay(start)}`,
+    monthly: `${month} ${year}`,
+    quarterly: `${quarter} ${year}`,
+    yearly: year,
+  }[frequency];
+
+  const values: Record<string, string> = {
+    '{period}': label,
+    '{month}': month,
+    '{quarter}': quarter,
+    '{year}': year,
+    '{start}': formatDay(start),
+    '{end}': formatDay(getPeriodEnd(startDate, frequency, period)),
+  };
+  return template.replace(/\{(period|month|quarter|year|start|end)\}/g, placeholder => values[placeholder]);
+}
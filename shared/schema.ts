@@ -8,11 +8,15 @@ import {
   timestamp, 
   jsonb,
   varchar,
-  index
+  index,
+  uniqueIndex
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import { SUPPORTED_LANGUAGES, type Language } from "./languages";
+import { RECURRING_FREQUENCIES, type RecurringFrequency } from "./recurring-payments";
+import { SUPPORTED_CURRENCIES } from "./vat-utils";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -32,6 +36,7 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  role: varchar("role").notNull().default("accountant"), // owner, finance, operator, accountant (see permissions.ts)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -44,47 +49,300 @@ export const creators = pgTable("creators", {
   country: text("country").notNull(),
   businessType: text("business_type").notNull(), // individual, vat_registered, vat_exempt
   vatId: text("vat_id"),
+  smallBusinessScheme: boolean("small_business_scheme").notNull().default(false), // Dutch KOR, see vat-rules.ts
   companyName: text("company_name"),
+  address: text("address"),
+  city: text("city"),
+  postalCode: text("postal_code"),
   stripeAccountId: text("stripe_account_id").unique(),
   invoiceMethod: text("invoice_method").notNull().default("auto"), // auto, manual
+  selfBillingConsentAt: timestamp("self_billing_consent_at"), // Agreed to self-billing, required for "auto" invoices
+  selfBillingTermsVersion: text("self_billing_terms_version"), // See self-billing.ts
+  invoiceSequence: integer("invoice_sequence").notNull().default(0), // Last self-billed invoice number issued
+  language: text("language").notNull().default("en"), // Email language, see languages.ts
   chargesEnabled: boolean("charges_enabled").default(false),
   payoutsEnabled: boolean("payouts_enabled").default(false),
+  lastPayoutFailure: text("last_payout_failure"),
+  lastPayoutFailureAt: timestamp("last_payout_failure_at"),
+  accessToken: text("access_token").unique(), // Authorizes creator-scoped routes (onboarding link)
+  accessTokenExpiresAt: timestamp("access_token_expires_at"), // See creatorAccess.ts for tokens issued before expiry existed
+  vatIdStatus: text("vat_id_status"), // Outcome of the latest VAT ID check, see vatChecks
+  vatIdCheckedAt: timestamp("vat_id_checked_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Single-use magic links for the creator portal. Only a hash of the token is
+// stored, so a database leak does not leak working login links.
+export const creatorLoginTokens = pgTable("creator_login_tokens", {
+  id: serial("id").primaryKey(),
+  creatorId: integer("creator_id").notNull().references(() => creators.id),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the emailed token
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every VAT ID check, kept as evidence for applying the EU reverse charge
+export const vatChecks = pgTable("vat_checks", {
+  id: serial("id").primaryKey(),
+  creatorId: integer("creator_id").notNull().references(() => creators.id),
+  vatId: text("vat_id").notNull(), // Normalized when the format is valid, as entered otherwise
+  status: text("status").notNull(), // valid, invalid, malformed, unavailable
+  source: text("source").notNull(), // format, or the VIES client that answered
+  traderName: text("trader_name"),
+  traderAddress: text("trader_address"),
+  consultationNumber: text("consultation_number"),
+  message: text("message"), // Why the check failed or couldn't complete
+  checkedAt: timestamp("checked_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_vat_checks_creator").on(table.creatorId),
+]);
+
+// IRS tax forms (W-9, W-8BEN, W-8BEN-E) of non-EU creators. The form data
+// holds TINs and dates of birth, so only an encrypted copy is stored (see
+// taxForms.ts); the plain columns are what admins need to see.
+export const taxForms = pgTable("tax_forms", {
+  id: serial("id").primaryKey(),
+  creatorId: integer("creator_id").notNull().references(() => creators.id),
+  formType: text("form_type").notNull(), // W-9, W-8BEN, W-8BEN-E
+  legalName: text("legal_name").notNull(),
+  tinLast4: text("tin_last4"),
+  treatyRate: decimal("treaty_rate", { precision: 5, scale: 2 }), // Claimed treaty withholding rate, W-8 forms only
+  encryptedData: text("encrypted_data").notNull(),
+  signatureName: text("signature_name").notNull(),
+  signedAt: timestamp("signed_at").notNull().defaultNow(),
+  supersededAt: timestamp("superseded_at"), // Set when the creator submits a newer form
+}, (table) => [
+  index("IDX_tax_forms_creator").on(table.creatorId),
+]);
+
 // Payment requests table
 export const paymentRequests = pgTable("payment_requests", {
   id: serial("id").primaryKey(),
   creatorId: integer("creator_id").notNull().references(() => creators.id),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  serviceType: text("service_type").notNull().default("general"), // See SERVICE_TYPES in vat-rules.ts
+  vatRuleId: text("vat_rule_id"), // VAT rule applied at creation; null for requests from before the rules engine
   vatRate: decimal("vat_rate", { precision: 5, scale: 2 }).notNull(),
   vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).notNull(),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  withholdingRate: decimal("withholding_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  withholdingAmount: decimal("withholding_amount", { precision: 10, scale: 2 }).notNull().default("0"), // Kept back from the payout
+  taxFormId: integer("tax_form_id").references(() => taxForms.id), // Form on file when the withholding was decided
+  currency: text("currency").notNull().default("EUR"), // ISO 4217 code
   description: text("description"),
-  status: text("status").notNull().default("pending"), // pending, claimed, paid, failed
+  status: text("status").notNull().default("pending"), // See PAYMENT_STATUS_TRANSITIONS in payment-status.ts
   claimToken: text("claim_token").unique(),
+  claimTokenExpiresAt: timestamp("claim_token_expires_at"), // See claimLinks.ts for requests created before expiry existed
+  claimTokenRevokedAt: timestamp("claim_token_revoked_at"),
   dueDate: timestamp("due_date"),
+  vatCheckId: integer("vat_check_id").references(() => vatChecks.id), // Evidence for a reverse-charged request
+  claimedAt: timestamp("claimed_at"),
   paidAt: timestamp("paid_at"),
+  failureReason: text("failure_reason"),
+  stripeTransferId: text("stripe_transfer_id"),
+  createdBy: varchar("created_by").references(() => users.id),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  rejectedBy: varchar("rejected_by").references(() => users.id),
+  rejectionReason: text("rejection_reason"),
+  payoutAttempts: integer("payout_attempts").notNull().default(0), // Part of the Stripe idempotency key
+  processingStartedAt: timestamp("processing_started_at"),
+  recurringPaymentId: integer("recurring_payment_id").references(() => recurringPayments.id), // Series that generated the request
+  recurringPeriod: integer("recurring_period"), // 0-based period of that series
+  campaignId: integer("campaign_id").references(() => campaigns.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // A series never generates two requests for the same period
+  uniqueIndex("UQ_payment_requests_recurring_period").on(table.recurringPaymentId, table.recurringPeriod),
+  index("IDX_payment_requests_campaign").on(table.campaignId),
+]);
+
+// Brand campaigns with a budget; payment requests made for a campaign count
+// against it. See campaigns.ts.
+export const campaigns = pgTable("campaigns", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  brand: text("brand").notNull(),
+  budget: decimal("budget", { precision: 12, scale: 2 }).notNull(), // Excluding VAT
+  currency: text("currency").notNull().default("EUR"), // Payment requests in the campaign use this currency
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Definitions of payment requests that repeat, e.g. a monthly retainer. The
+// scheduler in recurringPayments.ts generates a request for every period.
+export const recurringPayments = pgTable("recurring_payments", {
+  id: serial("id").primaryKey(),
+  creatorId: integer("creator_id").notNull().references(() => creators.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Excluding VAT, priced per period
+  currency: text("currency").notNull().default("EUR"),
+  serviceType: text("service_type").notNull().default("general"),
+  descriptionTemplate: text("description_template").notNull(), // See DESCRIPTION_PLACEHOLDERS in recurring-payments.ts
+  frequency: text("frequency").notNull(), // weekly, monthly, quarterly, yearly
+  startDate: timestamp("start_date").notNull(), // Start of the first period
+  endDate: timestamp("end_date"), // No periods start after this date
+  dueInDays: integer("due_in_days"), // Due date of each request, counted from the period start
+  status: text("status").notNull().default("active"), // active, paused, ended
+  nextPeriod: integer("next_period").notNull().default(0), // 0-based index of the next period to generate
+  nextRunAt: timestamp("next_run_at"), // Start of that period; null once ended
+  lastError: text("last_error"), // Why the last generation failed, cleared on success
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_recurring_payments_next_run").on(table.status, table.nextRunAt),
+]);
+
 // Invoices table for tracking uploaded/generated invoices
 export const invoices = pgTable("invoices", {
   id: serial("id").primaryKey(),
   paymentRequestId: integer("payment_request_id").notNull().references(() => paymentRequests.id),
-  type: text("type").notNull(), // uploaded, generated
+  type: text("type").notNull(), // uploaded, generated, credit_note
+  invoiceNumber: text("invoice_number"),
   filename: text("filename"),
   fileUrl: text("file_url"),
   aiValidationStatus: text("ai_validation_status"), // pending, valid, invalid
   aiValidationNotes: text("ai_validation_notes"),
+  validator: text("validator"), // Invoice validator that produced the result, e.g. local, gemini:<model>
+  validationConfidence: text("validation_confidence"), // high, medium, low
+  validationFields: jsonb("validation_fields"), // Per-field verdicts
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // Self-billed invoices and credit notes share the creator's series; numbers are never reused
+  uniqueIndex("UQ_invoices_generated_number").on(table.invoiceNumber).where(sql`${table.type} in ('generated', 'credit_note')`),
+  // One self-billed invoice per payment request
+  uniqueIndex("UQ_invoices_generated_payment_request").on(table.paymentRequestId).where(sql`${table.type} = 'generated'`),
+]);
+
+// Corrections of paid payment requests. Amounts are positive and are credited
+// (subtracted) from the original request; each has a credit note document.
+export const creditNotes = pgTable("credit_notes", {
+  id: serial("id").primaryKey(),
+  paymentRequestId: integer("payment_request_id").notNull().references(() => paymentRequests.id),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id), // The credit note document
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Excluding VAT
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  withholdingAmount: decimal("withholding_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  reason: text("reason").notNull(),
+  stripeReversalId: text("stripe_reversal_id"), // Set when the transfer was (partially) reversed
+  reversedAmount: decimal("reversed_amount", { precision: 10, scale: 2 }),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_credit_notes_payment_request").on(table.paymentRequestId),
+]);
+
+// Schedule of a payment request that is paid out in parts. Amounts, VAT and
+// withholding add up to the request's; each installment gets its own transfer.
+export const paymentInstallments = pgTable("payment_installments", {
+  id: serial("id").primaryKey(),
+  paymentRequestId: integer("payment_request_id").notNull().references(() => paymentRequests.id),
+  number: integer("number").notNull(), // 1-based position in the schedule
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Excluding VAT
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  withholdingAmount: decimal("withholding_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  dueDate: timestamp("due_date"),
+  status: text("status").notNull().default("scheduled"), // scheduled, processing, paid, failed
+  stripeTransferId: text("stripe_transfer_id"),
+  paidAt: timestamp("paid_at"),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_payment_installments_number").on(table.paymentRequestId, table.number),
+]);
+
+// Status history of payment requests
+export const paymentRequestEvents = pgTable("payment_request_events", {
+  id: serial("id").primaryKey(),
+  paymentRequestId: integer("payment_request_id").notNull().references(() => paymentRequests.id),
+  fromStatus: text("from_status"), // Null for the creation event
+  toStatus: text("to_status").notNull(),
+  actorType: text("actor_type").notNull(), // admin, creator, stripe, system
+  actorId: varchar("actor_id"), // User ID, creator ID or Stripe event ID
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Append-only log of mutating actions, for "who changed what and when"
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  actorType: text("actor_type").notNull(), // admin, creator, anonymous
+  actorId: varchar("actor_id"), // User ID or creator ID
+  actorEmail: varchar("actor_email"), // Snapshot at the time of the action
+  action: text("action").notNull(), // e.g. payment_request.create, creator.update
+  entityType: text("entity_type").notNull(), // creator, payment_request, invoice, stripe_event
+  entityId: varchar("entity_id"),
+  changes: jsonb("changes"), // { field: { before, after } }
+  ip: varchar("ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_audit_logs_entity").on(table.entityType, table.entityId),
+  index("IDX_audit_logs_created_at").on(table.createdAt),
+]);
+
+// Reminders sent by the reminder scheduler, one row per reminder. Payment
+// reminders point at the payment request, onboarding reminders only at the creator.
+export const reminders = pgTable("reminders", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // due_soon, overdue, onboarding
+  stage: integer("stage").notNull(), // Escalation step within the kind, starting at 0
+  creatorId: integer("creator_id").notNull().references(() => creators.id),
+  paymentRequestId: integer("payment_request_id").references(() => paymentRequests.id),
+  emailId: integer("email_id").references(() => emailOutbox.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_reminders_payment_request").on(table.paymentRequestId),
+  index("IDX_reminders_creator").on(table.creatorId),
+]);
+
+// Outgoing emails. Rendered when queued and delivered by the outbox worker,
+// which retries failed deliveries with backoff.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  template: text("template").notNull(), // e.g. payment_request_created, see emailTemplates.ts
+  language: text("language").notNull(),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html").notNull(),
+  entityType: text("entity_type"), // creator, payment_request, invoice
+  entityId: varchar("entity_id"),
+  status: text("status").notNull().default("pending"), // pending, sending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_email_outbox_due").on(table.status, table.nextAttemptAt),
+]);
+
+// Stripe webhook events, stored so they can be inspected and replayed
+export const stripeEvents = pgTable("stripe_events", {
+  id: varchar("id").primaryKey().notNull(), // Stripe event ID (evt_...)
+  type: text("type").notNull(),
+  account: text("account"), // Connected account the event originated from, if any
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default("received"), // received, processed, ignored, failed
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  processedAt: timestamp("processed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Relations
 export const creatorsRelations = relations(creators, ({ many }) => ({
   paymentRequests: many(paymentRequests),
+  recurringPayments: many(recurringPayments),
 }));
 
 export const paymentRequestsRelations = relations(paymentRequests, ({ one, many }) => ({
@@ -92,7 +350,30 @@ export const paymentRequestsRelations = relations(paymentRequests, ({ one, many
     fields: [paymentRequests.creatorId],
     references: [creators.id],
   }),
+  recurringPayment: one(recurringPayments, {
+    fields: [paymentRequests.recurringPaymentId],
+    references: [recurringPayments.id],
+  }),
+  campaign: one(campaigns, {
+    fields: [paymentRequests.campaignId],
+    references: [campaigns.id],
+  }),
   invoices: many(invoices),
+  creditNotes: many(creditNotes),
+  installments: many(paymentInstallments),
+  events: many(paymentRequestEvents),
+}));
+
+export const recurringPaymentsRelations = relations(recurringPayments, ({ one, many }) => ({
+  creator: one(creators, {
+    fields: [recurringPayments.creatorId],
+    references: [creators.id],
+  }),
+  paymentRequests: many(paymentRequests),
+}));
+
+export const campaignsRelations = relations(campaigns, ({ many }) => ({
+  paymentRequests: many(paymentRequests),
 }));
 
 export const invoicesRelations = relations(invoices, ({ one }) => ({
@@ -102,6 +383,31 @@ export const invoicesRelations = relations(invoices, ({ one }) => ({
   }),
 }));
 
+export const creditNotesRelations = relations(creditNotes, ({ one }) => ({
+  paymentRequest: one(paymentRequests, {
+    fields: [creditNotes.paymentRequestId],
+    references: [paymentRequests.id],
+  }),
+  invoice: one(invoices, {
+    fields: [creditNotes.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const paymentInstallmentsRelations = relations(paymentInstallments, ({ one }) => ({
+  paymentRequest: one(paymentRequests, {
+    fields: [paymentInstallments.paymentRequestId],
+    references: [paymentRequests.id],
+  }),
+}));
+
+export const paymentRequestEventsRelations = relations(paymentRequestEvents, ({ one }) => ({
+  paymentRequest: one(paymentRequests, {
+    fields: [paymentRequestEvents.paymentRequestId],
+    references: [paymentRequests.id],
+  }),
+}));
+
 // Insert schemas
 export const insertCreatorSchema = createInsertSchema(creators).omit({
   id: true,
@@ -109,23 +415,203 @@ export const insertCreatorSchema = createInsertSchema(creators).omit({
   updatedAt: true,
 });
 
+// Fields admins may change on a creator; Stripe and token fields are managed by the server
+export const adminCreatorUpdateSchema = insertCreatorSchema.pick({
+  email: true,
+  fullName: true,
+  country: true,
+  businessType: true,
+  vatId: true,
+  smallBusinessScheme: true,
+  companyName: true,
+  address: true,
+  city: true,
+  postalCode: true,
+  invoiceMethod: true,
+}).extend({
+  language: z.enum(SUPPORTED_LANGUAGES.map(language => language.value) as [Language, ...Language[]]),
+}).partial();
+
+// Fields creators may change on their own profile. Only creators themselves
+// can agree to (or withdraw from) self-billing.
+export const creatorProfileUpdateSchema = adminCreatorUpdateSchema.omit({
+  email: true,
+}).extend({
+  selfBillingConsent: z.boolean().optional(),
+});
+
+export const insertVatCheckSchema = createInsertSchema(vatChecks).omit({
+  id: true,
+});
+
+export const insertTaxFormSchema = createInsertSchema(taxForms).omit({
+  id: true,
+  signedAt: true,
+  supersededAt: true,
+});
+
+export const insertCreatorLoginTokenSchema = createInsertSchema(creatorLoginTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
 export const insertPaymentRequestSchema = createInsertSchema(paymentRequests).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Body of a new payment request; an installment schedule is checked separately
+export const createPaymentRequestSchema = z.object({
+  creatorId: z.coerce.number().int(),
+  amount: z.coerce.number().finite("Amount must be a number").positive("Amount must be positive"),
+  currency: z.string().refine(currency => SUPPORTED_CURRENCIES.includes(currency), {
+    message: "Unsupported currency",
+  }).default('EUR'),
+  serviceType: z.string().default('general'),
+  description: z.string().nullish(),
+  dueDate: z.coerce.date().nullish(),
+  campaignId: z.coerce.number().int().nullish(),
+});
+
+export const insertRecurringPaymentSchema = createInsertSchema(recurringPayments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Body of a new recurring payment; the series starts active
+export const createRecurringPaymentSchema = z.object({
+  creatorId: z.number().int(),
+  amount: z.coerce.number().positive("Amount must be positive"),
+  currency: z.string().min(1),
+  serviceType: z.string().default('general'),
+  descriptionTemplate: z.string().trim().min(1, "A description is required"),
+  frequency: z.enum(RECURRING_FREQUENCIES.map(frequency => frequency.value) as [RecurringFrequency, ...RecurringFrequency[]]),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullish(),
+  dueInDays: z.number().int().min(0).nullish(),
+}).refine((data) => !data.endDate || data.endDate >= data.startDate, {
+  message: "End date must not be before the start date",
+  path: ["endDate"],
+});
+
+// What can change on a running series; frequency and start date are fixed
+// because they define the periods already generated
+export const updateRecurringPaymentSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be positive"),
+  currency: z.string().min(1),
+  serviceType: z.string(),
+  descriptionTemplate: z.string().trim().min(1, "A description is required"),
+  endDate: z.coerce.date().nullable(),
+  dueInDays: z.number().int().min(0).nullable(),
+}).partial();
+
+export const insertCampaignSchema = createInsertSchema(campaigns).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Body of a new campaign, and of an update with every field optional
+const campaignFields = z.object({
+  name: z.string().trim().min(1, "A name is required"),
+  brand: z.string().trim().min(1, "A brand is required"),
+  budget: z.coerce.number().positive("Budget must be positive"),
+  currency: z.string().min(1),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+});
+
+export const createCampaignSchema = campaignFields.refine((data) => data.endDate >= data.startDate, {
+  message: "End date must not be before the start date",
+  path: ["endDate"],
+});
+
+export const updateCampaignSchema = campaignFields.partial();
+
 export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Body of a credit note request; without an amount everything not yet credited is credited
+export const createCreditNoteSchema = z.object({
+  amount: z.number().positive("Amount must be positive").optional(),
+  reason: z.string().trim().min(1, "A reason is required"),
+  reverseTransfer: z.boolean().default(false),
+});
+
+export const insertPaymentInstallmentSchema = createInsertSchema(paymentInstallments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPaymentRequestEventSchema = createInsertSchema(paymentRequestEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReminderSchema = createInsertSchema(reminders).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+});
+
+export const insertStripeEventSchema = createInsertSchema(stripeEvents).omit({
+  createdAt: true,
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type Creator = typeof creators.$inferSelect;
 export type InsertCreator = z.infer<typeof insertCreatorSchema>;
+export type CreatorLoginToken = typeof creatorLoginTokens.$inferSelect;
+export type InsertCreatorLoginToken = z.infer<typeof insertCreatorLoginTokenSchema>;
+export type VatCheck = typeof vatChecks.$inferSelect;
+export type InsertVatCheck = z.infer<typeof insertVatCheckSchema>;
+export type TaxForm = typeof taxForms.$inferSelect;
+export type InsertTaxForm = z.infer<typeof insertTaxFormSchema>;
 export type PaymentRequest = typeof paymentRequests.$inferSelect;
 export type InsertPaymentRequest = z.infer<typeof insertPaymentRequestSchema>;
+export type RecurringPayment = typeof recurringPayments.$inferSelect;
+export type InsertRecurringPayment = z.infer<typeof insertRecurringPaymentSchema>;
+export type Campaign = typeof campaigns.$inferSelect;
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+export type PaymentInstallment = typeof paymentInstallments.$inferSelect;
+export type InsertPaymentInstallment = z.infer<typeof insertPaymentInstallmentSchema>;
+export type PaymentRequestEvent = typeof paymentRequestEvents.$inferSelect;
+export type InsertPaymentRequestEvent = z.infer<typeof insertPaymentRequestEventSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type Reminder = typeof reminders.$inferSelect;
+export type InsertReminder = z.infer<typeof insertReminderSchema>;
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = z.infer<typeof insertEmailOutboxSchema>;
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type InsertStripeEvent = z.infer<typeof insertStripeEventSchema>;
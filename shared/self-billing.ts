@@ -0,0 +1,16 @@
+// Auto-generated invoices are self-billed: the agency issues them on the
+// creator's behalf. Dutch VAT rules (art. 35a Wet OB 1968) require the
+// creator's prior agreement, a gapless number series per creator and a
+// statement on the invoice that the customer issued it.
+
+// Bump when the terms below change; creators agree to a specific version
+export const SELF_BILLING_TERMS_VERSION = '2026-10';
+
+export const SELF_BILLING_TERMS = [
+  'The agency issues invoices in your name for the payments you claim.',
+  'You accept these invoices and do not issue your own invoices for the same services.',
+  'Your invoices are numbered in their own consecutive series.',
+  'You let the agency know straight away when your business or VAT details change.',
+];
+
+export const SELF_BILLING_INVOICE_NOTE = 'Factuur uitgereikt door afnemer';
@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { isEUCountry } from "./vat-utils";
+
+// IRS forms documenting non-EU creators. EU creators are documented through
+// their VAT details instead.
+export const TAX_FORM_TYPES = ['W-9', 'W-8BEN', 'W-8BEN-E'] as const;
+
+export type TaxFormType = typeof TAX_FORM_TYPES[number];
+
+export const TAX_FORM_DESCRIPTIONS: Record<TaxFormType, string> = {
+  'W-9': 'W-9 for US persons',
+  'W-8BEN': 'W-8BEN for foreign individuals',
+  'W-8BEN-E': 'W-8BEN-E for foreign entities',
+};
+
+// Federal tax classification on the W-9
+export const W9_CLASSIFICATIONS = [
+  { value: 'individual', label: 'Individual / sole proprietor' },
+  { value: 'c_corporation', label: 'C corporation' },
+  { value: 's_corporation', label: 'S corporation' },
+  { value: 'partnership', label: 'Partnership' },
+  { value: 'trust_estate', label: 'Trust / estate' },
+  { value: 'llc', label: 'Limited liability company' },
+];
+
+// Chapter 3 status on the W-8BEN-E
+export const W8BENE_CLASSIFICATIONS = [
+  { value: 'corporation', label: 'Corporation' },
+  { value: 'partnership', label: 'Partnership' },
+  { value: 'disregarded_entity', label: 'Disregarded entity' },
+  { value: 'sole_proprietorship', label: 'Sole proprietorship' },
+  { value: 'trust', label: 'Trust' },
+];
+
+export function getRequiredTaxFormType(countryCode: string, businessType: string): TaxFormType | null {
+  if (isEUCountry(countryCode)) {
+    return null;
+  }
+  if (countryCode === 'US') {
+    return 'W-9';
+  }
+  return businessType === 'individual' ? 'W-8BEN' : 'W-8BEN-E';
+}
+
+const US_TIN_PATTERN = /^(\d{3}-?\d{2}-?\d{4}|\d{2}-?\d{7})$/; // SSN or EIN
+
+// One schema for all three forms; fields that only apply to some forms are
+// checked per form type
+export const taxFormSchema = z.object({
+  formType: z.enum(TAX_FORM_TYPES),
+  legalName: z.string().min(1, "Legal name is required"),
+  businessName: z.string().optional(),
+  taxClassification: z.string().optional(), // W-9 classification or W-8BEN-E chapter 3 status
+  tin: z.string().optional(), // SSN/EIN on the W-9, foreign TIN on the W-8 forms
+  residenceCountry: z.string().optional(), // Citizenship (W-8BEN) or incorporation (W-8BEN-E)
+  dateOfBirth: z.string().optional(), // W-8BEN only
+  address: z.string().min(1, "Address is required"),
+  city: z.string().min(1, "City is required"),
+  postalCode: z.string().min(1, "Postal code is required"),
+  country: z.string().min(1, "Country is required"),
+  treatyCountry: z.string().optional(), // W-8 forms claiming treaty benefits
+  treatyRate: z.string().optional(), // Percentage
+  signatureName: z.string().min(1, "Type your name to sign"),
+  certified: z.boolean().refine(certified => certified, "You must certify that the information is correct"),
+}).superRefine((data, ctx) => {
+  const require = (field: keyof typeof data, message: string) => {
+    if (!data[field]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field] });
+    }
+  };
+
+  if (data.formType === 'W-9') {
+    require('taxClassification', "Select your federal tax classification");
+    if (!data.tin || !US_TIN_PATTERN.test(data.tin)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a valid SSN or EIN", path: ["tin"] });
+    }
+    return;
+  }
+
+  require('residenceCountry', data.formType === 'W-8BEN' ? "Country of citizenship is required" : "Country of incorporation is required");
+  if (data.formType === 'W-8BEN') {
+    require('dateOfBirth', "Date of birth is required");
+  } else {
+    require('taxClassification', "Select your chapter 3 status");
+  }
+
+  if (data.treatyRate) {
+    const rate = Number(data.treatyRate);
+    if (isNaN(rate) || rate < 0 || rate > 30) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Treaty rate must be between 0 and 30%", path: ["treatyRate"] });
+    }
+    require('treatyCountry', "Select the treaty country");
+  }
+});
+
+export type TaxFormData = z.infer<typeof taxFormSchema>;
+
+// What admins and creators see of a stored form; the rest stays encrypted
+export interface TaxFormSummary {
+  id: number;
+  formType: TaxFormType;
+  legalName: string;
+  tinLast4: string | null;
+  treatyRate: string | null;
+  signatureName: string;
+  signedAt: string | Date;
+}
+
+// Amount actually transferred to the creator
+export function getNetPayoutAmount(request: { totalAmount: string; withholdingAmount: string }): number {
+  return parseFloat(request.totalAmount) - parseFloat(request.withholdingAmount);
+}
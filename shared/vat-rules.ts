@@ -0,0 +1,171 @@
+import { isEUCountry } from "./vat-utils";
+
+// VAT on creator services, seen from the paying agency in the Netherlands.
+// Rates and treatments are data: the first rule matching the creator, the
+// service and the date of supply decides.
+
+export const SERVICE_TYPES = [
+  { value: 'general', label: 'General services' },
+  { value: 'performance', label: 'Live performance' },
+  { value: 'artwork', label: 'Artwork by the artist' },
+] as const;
+
+export type ServiceType = typeof SERVICE_TYPES[number]['value'];
+
+export function isServiceType(value: unknown): value is ServiceType {
+  return SERVICE_TYPES.some(serviceType => serviceType.value === value);
+}
+
+export type VatTreatment =
+  | 'domestic' // Dutch VAT charged by the creator
+  | 'reverse_charge' // EU B2B, the agency accounts for the VAT
+  | 'small_business_exempt' // Dutch small business scheme (KOR)
+  | 'outside_scope'; // Individuals, VAT exempt businesses and non-EU suppliers
+
+export interface VatContext {
+  country: string;
+  businessType: string;
+  serviceType?: ServiceType; // Defaults to general
+  smallBusinessScheme?: boolean; // Creator opted into the KOR
+  date?: Date; // Date of supply, defaults to now
+}
+
+type Match<T> = T[] | '*';
+
+export interface VatRule {
+  id: string; // Stored on payment requests; never reuse or change an id
+  countries: Match<string> | 'EU_EXCEPT_NL';
+  businessTypes: Match<string>;
+  serviceTypes: Match<ServiceType>;
+  smallBusinessScheme?: boolean; // Only matches creators with (true) or without (false) the KOR
+  treatment: VatTreatment;
+  rate: number;
+  note: string;
+  effectiveFrom: string; // Inclusive, YYYY-MM-DD
+  effectiveTo?: string; // Exclusive, YYYY-MM-DD
+}
+
+// Rules are never edited once a payment used them: end a rule with
+// effectiveTo and add its successor, so old requests keep their rate.
+export const VAT_RULES: VatRule[] = [
+  {
+    id: 'nl-kor-2020',
+    countries: ['NL'],
+    businessTypes: ['vat_registered'],
+    serviceTypes: '*',
+    smallBusinessScheme: true,
+    treatment: 'small_business_exempt',
+    rate: 0,
+    note: 'VAT exempt under the Dutch small business scheme (KOR).',
+    effectiveFrom: '2020-01-01',
+  },
+  {
+    id: 'nl-reduced-2012',
+    countries: ['NL'],
+    businessTypes: ['vat_registered'],
+    serviceTypes: ['performance', 'artwork'],
+    treatment: 'domestic',
+    rate: 0.06,
+    note: 'Dutch reduced VAT (6%) applied.',
+    effectiveFrom: '2012-10-01',
+    effectiveTo: '2019-01-01',
+  },
+  {
+    id: 'nl-reduced-2019',
+    countries: ['NL'],
+    businessTypes: ['vat_registered'],
+    serviceTypes: ['performance', 'artwork'],
+    treatment: 'domestic',
+    rate: 0.09,
+    note: 'Dutch reduced VAT (9%) applied.',
+    effectiveFrom: '2019-01-01',
+  },
+  {
+    id: 'nl-standard-2012',
+    countries: ['NL'],
+    businessTypes: ['vat_registered'],
+    serviceTypes: '*',
+    treatment: 'domestic',
+    rate: 0.21,
+    note: 'Dutch VAT (21%) applied.',
+    effectiveFrom: '2012-10-01',
+  },
+  {
+    id: 'eu-reverse-charge-2010',
+    countries: 'EU_EXCEPT_NL',
+    businessTypes: ['vat_registered'],
+    serviceTypes: '*',
+    treatment: 'reverse_charge',
+    rate: 0,
+    note: 'EU VAT reverse charge (VAT shifted).',
+    effectiveFrom: '2010-01-01',
+  },
+  {
+    id: 'no-vat',
+    countries: '*',
+    businessTypes: '*',
+    serviceTypes: '*',
+    treatment: 'outside_scope',
+    rate: 0,
+    note: 'No VAT applicable.',
+    effectiveFrom: '2000-01-01',
+  },
+];
+
+function matches<T>(match: Match<T>, value: T): boolean {
+  return match === '*' || match.includes(value);
+}
+
+function matchesCountry(countries: VatRule['countries'], country: string): boolean {
+  return countries === 'EU_EXCEPT_NL' ? isEUCountry(country) && country !== 'NL' : matches(countries, country);
+}
+
+function isEffective(rule: VatRule, date: Date): boolean {
+  const day = date.toISOString().slice(0, 10);
+  return day >= rule.effectiveFrom && (!rule.effectiveTo || day < rule.effectiveTo);
+}
+
+export function findVatRule(context: VatContext, rules: VatRule[] = VAT_RULES): VatRule {
+  const date = context.date ?? new Date();
+  const rule = rules.find(candidate =>
+    isEffective(candidate, date) &&
+    matchesCountry(candidate.countries, context.country) &&
+    matches(candidate.businessTypes, context.businessType) &&
+    matches(candidate.serviceTypes, context.serviceType ?? 'general') &&
+    (candidate.smallBusinessScheme === undefined || candidate.smallBusinessScheme === !!context.smallBusinessScheme),
+  );
+  if (!rule) {
+    throw new Error(`No VAT rule for ${context.country}/${context.businessType} on ${date.toISOString().slice(0, 10)}`);
+  }
+  return rule;
+}
+
+export function getVatRule(id: string | null | undefined): VatRule | undefined {
+  return VAT_RULES.find(rule => rule.id === id);
+}
+
+export interface VatCalculation {
+  ruleId: string;
+  treatment: VatTreatment;
+  rate: number;
+  amount: number;
+  total: number;
+  isEUVATShift: boolean;
+  note: string;
+}
+
+// The one VAT evaluation, used by the previews and when creating requests
+export function calculateVAT(amount: number, context: VatContext): VatCalculation {
+  const rule = findVatRule(context);
+  const vatAmount = amount * rule.rate;
+
+  return {
+    ruleId: rule.id,
+    treatment: rule.treatment,
+    rate: rule.rate,
+    amount: vatAmount,
+    total: amount + vatAmount,
+    isEUVATShift: rule.treatment === 'reverse_charge',
+    note: rule.note,
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeVatId, validateVatId } from "./vat-utils";
+
+describe('validateVatId', () => {
+  for (const [vatId, country] of [
+    ['NL004495445B01', 'NL'],
+    ['DE136695976', 'DE'],
+    ['BE0417497106', 'BE'],
+    ['ATU13585627', 'AT'],
+    ['IT00743110157', 'IT'],
+    ['EL094014201', 'GR'],
+  ]) {
+    test(`accepts ${vatId}`, () => {
+      assert.deepEqual(validateVatId(vatId, country), {
+        valid: true,
+        vatId,
+        prefix: vatId.slice(0, 2),
+        number: vatId.slice(2),
+      });
+    });
+  }
+
+  test('accepts a number without its country prefix', () => {
+    const result = validateVatId('136695976', 'DE');
+    assert.equal(result.valid && result.vatId, 'DE136695976');
+  });
+
+  test('rejects wrong check digits', () => {
+    assert.deepEqual(validateVatId('DE136695977', 'DE'), { valid: false, reason: 'VAT ID check digits are invalid' });
+  });
+
+  test('rejects a number in the wrong format', () => {
+    assert.deepEqual(validateVatId('NL004495445', 'NL'), { valid: false, reason: 'VAT ID does not match the NL format' });
+  });
+
+  test("rejects a prefix that doesn't match the country", () => {
+    assert.deepEqual(validateVatId('DE136695976', 'NL'), { valid: false, reason: 'VAT ID must start with NL for this country' });
+  });
+
+  test('rejects countries outside the EU', () => {
+    assert.equal(validateVatId('GB123456789', 'GB').valid, false);
+  });
+});
+
+test('normalizeVatId drops spaces, dots and dashes', () => {
+  assert.equal(normalizeVatId('nl 0044.95.445-b01'), 'NL004495445B01');
+});
@@ -1,49 +1,50 @@
-export interface VATRate {
+export interface CountryInfo {
   country: string;
   countryName: string;
   isEU: boolean;
+  currency: string; // Local currency, suggested when creating payment requests
 }
 
-export const VAT_RATES: VATRate[] = [
+export const SUPPORTED_COUNTRIES: CountryInfo[] = [
   // EU Countries
-  { country: 'AT', countryName: 'Austria', isEU: true },
-  { country: 'BE', countryName: 'Belgium', isEU: true },
-  { country: 'BG', countryName: 'Bulgaria', isEU: true },
-  { country: 'HR', countryName: 'Croatia', isEU: true },
-  { country: 'CY', countryName: 'Cyprus', isEU: true },
-  { country: 'CZ', countryName: 'Czech Republic', isEU: true },
-  { country: 'DK', countryName: 'Denmark', isEU: true },
-  { country: 'EE', countryName: 'Estonia', isEU: true },
-  { country: 'FI', countryName: 'Finland', isEU: true },
-  { country: 'FR', countryName: 'France', isEU: true },
-  { country: 'DE', countryName: 'Germany', isEU: true },
-  { country: 'GR', countryName: 'Greece', isEU: true },
-  { country: 'HU', countryName: 'Hungary', isEU: true },
-  { country: 'IE', countryName: 'Ireland', isEU: true },
-  { country: 'IT', countryName: 'Italy', isEU: true },
-  { country: 'LV', countryName: 'Latvia', isEU: true },
-  { country: 'LT', countryName: 'Lithuania', isEU: true },
-  { country: 'LU', countryName: 'Luxembourg', isEU: true },
-  { country: 'MT', countryName: 'Malta', isEU: true },
-  { country: 'NL', countryName: 'Netherlands', isEU: true },
-  { country: 'PL', countryName: 'Poland', isEU: true },
-  { country: 'PT', countryName: 'Portugal', isEU: true },
-  { country: 'RO', countryName: 'Romania', isEU: true },
-  { country: 'SK', countryName: 'Slovakia', isEU: true },
-  { country: 'SI', countryName: 'Slovenia', isEU: true },
-  { country: 'ES', countryName: 'Spain', isEU: true },
-  { country: 'SE', countryName: 'Sweden', isEU: true },
+  { country: 'AT', countryName: 'Austria', isEU: true, currency: 'EUR' },
+  { country: 'BE', countryName: 'Belgium', isEU: true, currency: 'EUR' },
+  { country: 'BG', countryName: 'Bulgaria', isEU: true, currency: 'BGN' },
+  { country: 'HR', countryName: 'Croatia', isEU: true, currency: 'EUR' },
+  { country: 'CY', countryName: 'Cyprus', isEU: true, currency: 'EUR' },
+  { country: 'CZ', countryName: 'Czech Republic', isEU: true, currency: 'CZK' },
+  { country: 'DK', countryName: 'Denmark', isEU: true, currency: 'DKK' },
+  { country: 'EE', countryName: 'Estonia', isEU: true, currency: 'EUR' },
+  { country: 'FI', countryName: 'Finland', isEU: true, currency: 'EUR' },
+  { country: 'FR', countryName: 'France', isEU: true, currency: 'EUR' },
+  { country: 'DE', countryName: 'Germany', isEU: true, currency: 'EUR' },
+  { country: 'GR', countryName: 'Greece', isEU: true, currency: 'EUR' },
+  { country: 'HU', countryName: 'Hungary', isEU: true, currency: 'HUF' },
+  { country: 'IE', countryName: 'Ireland', isEU: true, currency: 'EUR' },
+  { country: 'IT', countryName: 'Italy', isEU: true, currency: 'EUR' },
+  { country: 'LV', countryName: 'Latvia', isEU: true, currency: 'EUR' },
+  { country: 'LT', countryName: 'Lithuania', isEU: true, currency: 'EUR' },
+  { country: 'LU', countryName: 'Luxembourg', isEU: true, currency: 'EUR' },
+  { country: 'MT', countryName: 'Malta', isEU: true, currency: 'EUR' },
+  { country: 'NL', countryName: 'Netherlands', isEU: true, currency: 'EUR' },
+  { country: 'PL', countryName: 'Poland', isEU: true, currency: 'PLN' },
+  { country: 'PT', countryName: 'Portugal', isEU: true, currency: 'EUR' },
+  { country: 'RO', countryName: 'Romania', isEU: true, currency: 'RON' },
+  { country: 'SK', countryName: 'Slovakia', isEU: true, currency: 'EUR' },
+  { country: 'SI', countryName: 'Slovenia', isEU: true, currency: 'EUR' },
+  { country: 'ES', countryName: 'Spain', isEU: true, currency: 'EUR' },
+  { country: 'SE', countryName: 'Sweden', isEU: true, currency: 'SEK' },
   // Non-EU Countries
-  { country: 'US', countryName: 'United States', isEU: false },
-  { country: 'GB', countryName: 'United Kingdom', isEU: false },
-  { country: 'CA', countryName: 'Canada', isEU: false },
-  { country: 'AU', countryName: 'Australia', isEU: false },
-  { country: 'JP', countryName: 'Japan', isEU: false },
-  { country: 'SG', countryName: 'Singapore', isEU: false },
-  { country: 'CH', countryName: 'Switzerland', isEU: false },
-  { country: 'NO', countryName: 'Norway', isEU: false },
-  { country: 'IN', countryName: 'India', isEU: false },
-  { country: 'BR', countryName: 'Brazil', isEU: false },
+  { country: 'US', countryName: 'United States', isEU: false, currency: 'USD' },
+  { country: 'GB', countryName: 'United Kingdom', isEU: false, currency: 'GBP' },
+  { country: 'CA', countryName: 'Canada', isEU: false, currency: 'CAD' },
+  { country: 'AU', countryName: 'Australia', isEU: false, currency: 'AUD' },
+  { country: 'JP', countryName: 'Japan', isEU: false, currency: 'JPY' },
+  { country: 'SG', countryName: 'Singapore', isEU: false, currency: 'SGD' },
+  { country: 'CH', countryName: 'Switzerland', isEU: false, currency: 'CHF' },
+  { country: 'NO', countryName: 'Norway', isEU: false, currency: 'NOK' },
+  { country: 'IN', countryName: 'India', isEU: false, currency: 'INR' },
+  { country: 'BR', countryName: 'Brazil', isEU: false, currency: 'BRL' },
 ];
 
 // EU country codes for quick lookup
@@ -54,56 +55,218 @@ const EU_COUNTRY_CODES: ReadonlySet<string> = new Set([
   "SI", "ES", "SE"
 ]);
 
-export function calculateVAT(amount: number, countryCode: string, businessType: string) {
-  const isDutchVatRegistered = countryCode === 'NL' && businessType === 'vat_registered';
-  const isEUNonDutchVatRegistered = 
-    EU_COUNTRY_CODES.has(countryCode) && 
-    countryCode !== 'NL' && 
-    businessType === 'vat_registered';
-
-  // Scenario 1: Dutch VAT registered companies - 21% VAT
-  if (isDutchVatRegistered) {
-    const rate = 0.21; // 21% VAT
-    const vatAmount = amount * rate;
-    return {
-      rate: rate,
-      amount: vatAmount,
-      total: amount + vatAmount,
-      isEUVATShift: false,
-      note: "Dutch VAT (21%) applied."
-    };
+export function isEUCountry(countryCode: string): boolean {
+  return EU_COUNTRY_CODES.has(countryCode);
+}
+
+// Reverse charge depends on the VAT ID, so these creators need a checked one
+export function requiresVatIdCheck(countryCode: string, businessType: string): boolean {
+  return isEUCountry(countryCode) && businessType === 'vat_registered';
+}
+
+// VAT IDs use the ISO country code, except Greece which uses EL
+function getVatPrefix(countryCode: string): string {
+  return countryCode === 'GR' ? 'EL' : countryCode;
+}
+
+// Number part of each EU VAT ID, without the country prefix
+const VAT_ID_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^[1-9]\d{1,9}$/,
+  SE: /^\d{10}01$/,
+  SI: /^[1-9]\d{7}$/,
+  SK: /^\d{10}$/,
+};
+
+function toDigits(value: string): number[] {
+  return value.split('').map(Number);
+}
+
+function weightedSum(digits: number[], weights: number[]): number {
+  return weights.reduce((sum, weight, index) => sum + weight * digits[index], 0);
+}
+
+function luhnValid(value: string): boolean {
+  const sum = toDigits(value).reverse().reduce((total, digit, index) => {
+    const doubled = index % 2 === 1 ? digit * 2 : digit;
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return sum % 10 === 0;
+}
+
+// ISO 7064 MOD 11,10, used by Germany and Croatia
+function mod11_10Valid(value: string): boolean {
+  const digits = toDigits(value);
+  let product = 10;
+  for (const digit of digits.slice(0, -1)) {
+    let sum = (digit + product) % 10;
+    if (sum === 0) {
+      sum = 10;
+    }
+    product = (2 * sum) % 11;
   }
+  return (11 - product) % 10 === digits[digits.length - 1];
+}
 
-  // Scenario 2: EU (except Dutch) VAT registered companies - VAT shifted
-  if (isEUNonDutchVatRegistered) {
-    return {
-      rate: 0,
-      amount: 0,
-      total: amount,
-      isEUVATShift: true,
-      note: "EU VAT reverse charge (VAT shifted)."
-    };
+// Remainder of a digit string too long for a double, modulo `divisor`
+function mod(value: string, divisor: number): number {
+  return value.split('').reduce((remainder, digit) => (remainder * 10 + Number(digit)) % divisor, 0);
+}
+
+// Check digit rules of the national VAT ID schemes. Countries without an
+// entry here only get the format check.
+const VAT_ID_CHECKSUMS: Record<string, (number: string) => boolean> = {
+  AT: (number) => {
+    const digits = toDigits(number.slice(1));
+    const sum = digits.slice(0, 7).reduce((total, digit, index) => {
+      const value = index % 2 === 1 ? digit * 2 : digit;
+      return total + Math.floor(value / 10) + (value % 10);
+    }, 0);
+    return (10 - ((sum + 4) % 10)) % 10 === digits[7];
+  },
+  BE: (number) => 97 - mod(number.slice(0, 8), 97) === Number(number.slice(8)),
+  DE: mod11_10Valid,
+  DK: (number) => weightedSum(toDigits(number), [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0,
+  EE: (number) => {
+    const digits = toDigits(number);
+    return (10 - (weightedSum(digits, [3, 7, 1, 3, 7, 1, 3, 7]) % 10)) % 10 === digits[8];
+  },
+  EL: (number) => {
+    const digits = toDigits(number);
+    return (weightedSum(digits, [256, 128, 64, 32, 16, 8, 4, 2]) % 11) % 10 === digits[8];
+  },
+  FI: (number) => {
+    const digits = toDigits(number);
+    const check = (11 - (weightedSum(digits, [7, 9, 10, 5, 8, 4, 2]) % 11)) % 11;
+    return check !== 10 && check === digits[7];
+  },
+  FR: (number) => {
+    const key = number.slice(0, 2);
+    if (!/^\d{2}$/.test(key)) {
+      return true; // Alphanumeric keys have no public check digit algorithm
+    }
+    return (12 + 3 * mod(number.slice(2), 97)) % 97 === Number(key);
+  },
+  HR: mod11_10Valid,
+  IT: luhnValid,
+  LU: (number) => mod(number.slice(0, 6), 89) === Number(number.slice(6)),
+  // Older numbers use a mod 11 check on the fiscal number, sole proprietors
+  // since 2020 a mod 97 check over the whole ID (N=23, L=21, B=11)
+  NL: (number) => {
+    const digits = toDigits(number.slice(0, 9));
+    const mod11 = (weightedSum(digits, [9, 8, 7, 6, 5, 4, 3, 2]) - digits[8]) % 11 === 0;
+    const mod97 = mod(`2321${number.slice(0, 9)}11${number.slice(10)}`, 97) === 1;
+    return mod11 || mod97;
+  },
+  PL: (number) => {
+    const digits = toDigits(number);
+    return weightedSum(digits, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11 === digits[9];
+  },
+  PT: (number) => {
+    const digits = toDigits(number);
+    const check = 11 - (weightedSum(digits, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+    return (check > 9 ? 0 : check) === digits[8];
+  },
+  SE: (number) => luhnValid(number.slice(0, 10)),
+  SI: (number) => {
+    const digits = toDigits(number);
+    const check = 11 - (weightedSum(digits, [8, 7, 6, 5, 4, 3, 2]) % 11);
+    return check !== 11 && (check === 10 ? 0 : check) === digits[7];
+  },
+};
+
+export type VatIdValidation =
+  | { valid: true; vatId: string; prefix: string; number: string }
+  | { valid: false; reason: string };
+
+// Uppercase without spaces, dots and dashes, e.g. "nl 0044.95.445 b01" -> "NL004495445B01"
+export function normalizeVatId(vatId: string): string {
+  return vatId.toUpperCase().replace(/[\s.\-]/g, '');
+}
+
+// Checks the syntax and, where the country publishes one, the check digits of
+// an EU VAT ID. The country prefix is optional but must match the country.
+export function validateVatId(vatId: string, countryCode: string): VatIdValidation {
+  if (!isEUCountry(countryCode)) {
+    return { valid: false, reason: `${countryCode} is not an EU country` };
+  }
+
+  const prefix = getVatPrefix(countryCode);
+  const normalized = normalizeVatId(vatId);
+  const number = /^[A-Z]{2}/.test(normalized) ? normalized.slice(2) : normalized;
+
+  if (number !== normalized && normalized.slice(0, 2) !== prefix) {
+    return { valid: false, reason: `VAT ID must start with ${prefix} for this country` };
+  }
+  if (!VAT_ID_FORMATS[prefix].test(number)) {
+    return { valid: false, reason: `VAT ID does not match the ${prefix} format` };
   }
+  if (VAT_ID_CHECKSUMS[prefix] && !VAT_ID_CHECKSUMS[prefix](number)) {
+    return { valid: false, reason: 'VAT ID check digits are invalid' };
+  }
+
+  return { valid: true, vatId: `${prefix}${number}`, prefix, number };
+}
+
+// Currencies payment requests can be created in
+export const SUPPORTED_CURRENCIES = [
+  'EUR', 'USD', 'GBP', 'CHF', 'SEK', 'DKK', 'NOK', 'PLN', 'CZK', 'HUF', 'RON', 'BGN',
+  'CAD', 'AUD', 'JPY', 'SGD', 'INR', 'BRL',
+];
+
+// Currencies without a minor unit (amounts are sent to Stripe as-is)
+const ZERO_DECIMAL_CURRENCIES: ReadonlySet<string> = new Set([
+  "BIF", "CLP", "DJF", "GNF", "JPY", "KMF", "KRW", "MGA",
+  "PYG", "RWF", "UGX", "VND", "VUV", "XAF", "XOF", "XPF",
+]);
+
+export function getCurrencyDecimals(currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase()) ? 0 : 2;
+}
+
+export function roundToCurrency(amount: number, currency: string): number {
+  const factor = Math.pow(10, getCurrencyDecimals(currency));
+  return Math.round(amount * factor) / factor;
+}
+
+// Convert an amount to the smallest currency unit, as expected by Stripe
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * Math.pow(10, getCurrencyDecimals(currency)));
+}
 
-  // Scenario 3: Outside EU companies, VAT exempt companies, or individuals - No VAT
-  // This covers:
-  // - Non-EU companies (businessType === 'vat_registered' but countryCode is not in EU)
-  // - All 'vat_exempt' companies (regardless of country)
-  // - All 'individual's (regardless of country)
-  return {
-    rate: 0,
-    amount: 0,
-    total: amount,
-    isEUVATShift: false,
-    note: "No VAT applicable."
-  };
+export function getCountryCurrency(countryCode: string): string {
+  return SUPPORTED_COUNTRIES.find(country => country.country === countryCode)?.currency || 'EUR';
 }
 
 export function formatCurrency(amount: number, currency = 'EUR'): string {
+  const decimals = getCurrencyDecimals(currency);
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency,
-    minimumFractionDigits: 2,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
   }).format(amount);
 }
 